@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // pdfkit loads its bundled font metrics from disk at runtime
+  serverExternalPackages: ["pdfkit"],
 };
 
 export default nextConfig;
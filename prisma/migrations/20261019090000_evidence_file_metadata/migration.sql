@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."Evidence" ADD COLUMN     "fileName" TEXT,
+ADD COLUMN     "fileSize" INTEGER,
+ADD COLUMN     "mimeType" TEXT;
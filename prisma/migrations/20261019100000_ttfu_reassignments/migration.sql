@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "public"."AssignmentRole" AS ENUM ('assignee', 'reviewer');
+
+-- CreateTable
+CREATE TABLE "public"."TtfuReassignment" (
+    "id" TEXT NOT NULL,
+    "ttfuId" TEXT NOT NULL,
+    "role" "public"."AssignmentRole" NOT NULL,
+    "fromUserId" TEXT NOT NULL,
+    "toUserId" TEXT NOT NULL,
+    "changedById" TEXT NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TtfuReassignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TtfuReassignment_ttfuId_idx" ON "public"."TtfuReassignment"("ttfuId");
+
+-- CreateIndex
+CREATE INDEX "TtfuReassignment_fromUserId_idx" ON "public"."TtfuReassignment"("fromUserId");
+
+-- AddForeignKey
+ALTER TABLE "public"."TtfuReassignment" ADD CONSTRAINT "TtfuReassignment_ttfuId_fkey" FOREIGN KEY ("ttfuId") REFERENCES "public"."TTFU"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."TtfuReassignment" ADD CONSTRAINT "TtfuReassignment_fromUserId_fkey" FOREIGN KEY ("fromUserId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."TtfuReassignment" ADD CONSTRAINT "TtfuReassignment_toUserId_fkey" FOREIGN KEY ("toUserId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."TtfuReassignment" ADD CONSTRAINT "TtfuReassignment_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- DropForeignKey
+ALTER TABLE "public"."AuditLog" DROP CONSTRAINT "AuditLog_userId_fkey";
+
+-- AlterTable
+ALTER TABLE "public"."AuditLog" ADD COLUMN     "meetingId" TEXT,
+ADD COLUMN     "ttfuId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "AuditLog_meetingId_idx" ON "public"."AuditLog"("meetingId");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_ttfuId_idx" ON "public"."AuditLog"("ttfuId");
+
+-- AddForeignKey
+ALTER TABLE "public"."AuditLog" ADD CONSTRAINT "AuditLog_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
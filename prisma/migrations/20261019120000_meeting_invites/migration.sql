@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "public"."JoinRequestStatus" AS ENUM ('pending', 'approved', 'denied');
+
+-- CreateTable
+CREATE TABLE "public"."MeetingInvite" (
+    "id" TEXT NOT NULL,
+    "meetingId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "role" "public"."MeetingRole" NOT NULL DEFAULT 'participant',
+    "requiresApproval" BOOLEAN NOT NULL DEFAULT false,
+    "expiresAt" TIMESTAMP(3),
+    "maxUses" INTEGER,
+    "uses" INTEGER NOT NULL DEFAULT 0,
+    "revokedAt" TIMESTAMP(3),
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MeetingInvite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."JoinRequest" (
+    "id" TEXT NOT NULL,
+    "meetingId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "inviteId" TEXT,
+    "role" "public"."MeetingRole" NOT NULL,
+    "status" "public"."JoinRequestStatus" NOT NULL DEFAULT 'pending',
+    "decidedById" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JoinRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MeetingInvite_code_key" ON "public"."MeetingInvite"("code");
+
+-- CreateIndex
+CREATE INDEX "MeetingInvite_meetingId_idx" ON "public"."MeetingInvite"("meetingId");
+
+-- CreateIndex
+CREATE INDEX "JoinRequest_meetingId_status_idx" ON "public"."JoinRequest"("meetingId", "status");
+
+-- CreateIndex
+CREATE INDEX "JoinRequest_userId_idx" ON "public"."JoinRequest"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."MeetingInvite" ADD CONSTRAINT "MeetingInvite_meetingId_fkey" FOREIGN KEY ("meetingId") REFERENCES "public"."Meeting"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."MeetingInvite" ADD CONSTRAINT "MeetingInvite_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."JoinRequest" ADD CONSTRAINT "JoinRequest_meetingId_fkey" FOREIGN KEY ("meetingId") REFERENCES "public"."Meeting"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."JoinRequest" ADD CONSTRAINT "JoinRequest_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."JoinRequest" ADD CONSTRAINT "JoinRequest_inviteId_fkey" FOREIGN KEY ("inviteId") REFERENCES "public"."MeetingInvite"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."JoinRequest" ADD CONSTRAINT "JoinRequest_decidedById_fkey" FOREIGN KEY ("decidedById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "public"."NotificationType" AS ENUM ('TTFU_ASSIGNED', 'EVIDENCE_SUBMITTED', 'REVIEW_POSTED', 'STATUS_CHANGED', 'DUE_SOON');
+
+-- CreateTable
+CREATE TABLE "public"."Notification" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "public"."NotificationType" NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT,
+    "link" TEXT NOT NULL,
+    "ttfuId" TEXT,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Notification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Notification_userId_readAt_idx" ON "public"."Notification"("userId", "readAt");
+
+-- CreateIndex
+CREATE INDEX "Notification_userId_createdAt_idx" ON "public"."Notification"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Notification_ttfuId_idx" ON "public"."Notification"("ttfuId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Notification" ADD CONSTRAINT "Notification_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Notification" ADD CONSTRAINT "Notification_ttfuId_fkey" FOREIGN KEY ("ttfuId") REFERENCES "public"."TTFU"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "public"."EmailStatus" AS ENUM ('pending', 'sent', 'failed');
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "locale" TEXT NOT NULL DEFAULT 'id';
+
+-- CreateTable
+CREATE TABLE "public"."EmailOutbox" (
+    "id" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "html" TEXT NOT NULL,
+    "status" "public"."EmailStatus" NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastError" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmailOutbox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EmailOutbox_status_nextAttemptAt_idx" ON "public"."EmailOutbox"("status", "nextAttemptAt");
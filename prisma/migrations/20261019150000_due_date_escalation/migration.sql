@@ -0,0 +1,30 @@
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'OVERDUE';
+ALTER TYPE "public"."NotificationType" ADD VALUE 'ESCALATION';
+
+-- AlterTable
+ALTER TABLE "public"."TTFU" ADD COLUMN     "escalatedToAdminAt" TIMESTAMP(3),
+ADD COLUMN     "escalatedToSpvAt" TIMESTAMP(3),
+ADD COLUMN     "overdueAt" TIMESTAMP(3),
+ADD COLUMN     "reminderSentAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."EscalationPolicy" (
+    "id" TEXT NOT NULL,
+    "meetingId" TEXT NOT NULL,
+    "reminderDaysBefore" INTEGER,
+    "escalateToSpvAfterDays" INTEGER,
+    "escalateToAdminAfterDays" INTEGER,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EscalationPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EscalationPolicy_meetingId_key" ON "public"."EscalationPolicy"("meetingId");
+
+-- CreateIndex
+CREATE INDEX "TTFU_dueDate_idx" ON "public"."TTFU"("dueDate");
+
+-- AddForeignKey
+ALTER TABLE "public"."EscalationPolicy" ADD CONSTRAINT "EscalationPolicy_meetingId_fkey" FOREIGN KEY ("meetingId") REFERENCES "public"."Meeting"("id") ON DELETE CASCADE ON UPDATE CASCADE;
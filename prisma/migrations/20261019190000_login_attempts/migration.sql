@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "public"."LoginOutcome" AS ENUM ('SUCCESS', 'INVALID_CREDENTIALS', 'TWO_FACTOR_INVALID', 'LOCKED', 'DEACTIVATED', 'THROTTLED');
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "failedLoginCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lockedUntil" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."LoginAttempt" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "email" TEXT NOT NULL,
+    "ip" TEXT,
+    "userAgent" TEXT,
+    "outcome" "public"."LoginOutcome" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LoginAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LoginAttempt_userId_createdAt_idx" ON "public"."LoginAttempt"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LoginAttempt_email_createdAt_idx" ON "public"."LoginAttempt"("email", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LoginAttempt_ip_createdAt_idx" ON "public"."LoginAttempt"("ip", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."LoginAttempt" ADD CONSTRAINT "LoginAttempt_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
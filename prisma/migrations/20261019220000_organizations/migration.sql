@@ -0,0 +1,71 @@
+-- CreateTable
+CREATE TABLE "public"."Organization" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Organization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."Department" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Department_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Organization_slug_key" ON "public"."Organization"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Department_organizationId_name_key" ON "public"."Department"("organizationId", "name");
+
+-- Everything that exists so far belongs to one organization. Nobody becomes a super admin here; see `npm run super-admin`.
+INSERT INTO "public"."Organization" ("id", "name", "slug", "updatedAt") VALUES ('default', 'Default', 'default', CURRENT_TIMESTAMP);
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN "organizationId" TEXT NOT NULL DEFAULT 'default',
+ADD COLUMN "departmentId" TEXT,
+ADD COLUMN "superAdmin" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "public"."User" ALTER COLUMN "organizationId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "public"."Meeting" ADD COLUMN "organizationId" TEXT NOT NULL DEFAULT 'default',
+ADD COLUMN "departmentId" TEXT;
+ALTER TABLE "public"."Meeting" ALTER COLUMN "organizationId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "public"."WebhookSubscription" ADD COLUMN "organizationId" TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE "public"."WebhookSubscription" ALTER COLUMN "organizationId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "public"."UserSession" ADD COLUMN "organizationId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Meeting_organizationId_idx" ON "public"."Meeting"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Department" ADD CONSTRAINT "Department_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."User" ADD CONSTRAINT "User_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."User" ADD CONSTRAINT "User_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "public"."Department"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Meeting" ADD CONSTRAINT "Meeting_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Meeting" ADD CONSTRAINT "Meeting_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "public"."Department"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."WebhookSubscription" ADD CONSTRAINT "WebhookSubscription_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."UserSession" ADD CONSTRAINT "UserSession_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE SET NULL ON UPDATE CASCADE;
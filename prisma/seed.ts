@@ -6,6 +6,13 @@ const prisma = new PrismaClient();
 async function main() {
   console.log('🌱 Seeding database...');
 
+  // Create the default organization everyone below belongs to
+  const organization = await prisma.organization.upsert({
+    where: { slug: 'default' },
+    update: {},
+    create: { name: 'Default', slug: 'default' },
+  });
+
   // Create users
   const adminPassword = await bcrypt.hash('admin123', 10);
   const spvPassword = await bcrypt.hash('spv123', 10);
@@ -20,6 +27,8 @@ async function main() {
       name: 'John The Admin',
       passwordHash: adminPassword,
       globalRole: 'ADMIN',
+      superAdmin: true,
+      organizationId: organization.id,
     },
   });
 
@@ -31,6 +40,7 @@ async function main() {
       name: 'Hiroshi The Supervisor',
       passwordHash: spvPassword,
       globalRole: 'SPV',
+      organizationId: organization.id,
     },
   });
 
@@ -42,6 +52,7 @@ async function main() {
       name: 'Kenju The Reviewer',
       passwordHash: reviewerPassword,
       globalRole: 'REVIEWER',
+      organizationId: organization.id,
     },
   });
 
@@ -53,6 +64,7 @@ async function main() {
       name: 'Shino The User',
       passwordHash: userPassword,
       globalRole: 'USER',
+      organizationId: organization.id,
     },
   });
 
@@ -65,6 +77,7 @@ async function main() {
       endTime: new Date('2024-01-15T11:00:00Z'),
       notes: 'Discussion about project progress and upcoming tasks',
       createdById: spv.id,
+      organizationId: organization.id,
       participants: {
         create: [
           { userId: spv.id, role: 'spv' },
@@ -0,0 +1,100 @@
+// Background jobs, run next to the Next.js server: `npm run jobs`
+// `npm run jobs -- --once` runs every job a single time and exits, e.g. from cron.
+import { deliverPendingEmails } from "../src/lib/email";
+import { escalateOverdueTTFUs, flagOverdueTTFUs, sendDueReminders } from "../src/lib/escalation";
+import { isLdapEnabled, syncLdapUsers } from "../src/lib/ldap";
+import { pruneLoginAttempts } from "../src/lib/login-attempts";
+import { Job, runJobsOnce, startScheduler } from "../src/lib/scheduler";
+import { pruneUserSessions } from "../src/lib/user-sessions";
+import { deliverPendingWebhooks } from "../src/lib/webhooks";
+import { prisma } from "../src/lib/prisma";
+
+const jobs: Job[] = [
+  {
+    name: "due-dates",
+    intervalMs: parseInt(process.env.DUE_DATE_JOB_INTERVAL_MS || "300000"),
+    run: async (now) => {
+      const reminded = await sendDueReminders(now);
+      const flagged = await flagOverdueTTFUs(now);
+      const escalated = await escalateOverdueTTFUs(now);
+      if (reminded + flagged + escalated > 0) {
+        return `${reminded} reminder(s), ${flagged} newly overdue, ${escalated} escalation(s)`;
+      }
+    },
+  },
+  {
+    name: "email",
+    intervalMs: parseInt(process.env.EMAIL_POLL_INTERVAL_MS || "15000"),
+    run: async (now) => {
+      const { attempted, sent } = await deliverPendingEmails(20, now);
+      if (attempted > 0) {
+        return `sent ${sent} of ${attempted} queued email(s)`;
+      }
+    },
+  },
+  {
+    name: "webhooks",
+    intervalMs: parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || "10000"),
+    run: async (now) => {
+      const { attempted, delivered } = await deliverPendingWebhooks(20, now);
+      if (attempted > 0) {
+        return `delivered ${delivered} of ${attempted} webhook(s)`;
+      }
+    },
+  },
+  {
+    name: "login-history",
+    intervalMs: 60 * 60 * 1000,
+    run: async (now) => {
+      const pruned = await pruneLoginAttempts(now);
+      if (pruned > 0) {
+        return `pruned ${pruned} old sign-in record(s)`;
+      }
+    },
+  },
+  {
+    name: "sessions",
+    intervalMs: 60 * 60 * 1000,
+    run: async (now) => {
+      const pruned = await pruneUserSessions(now);
+      if (pruned > 0) {
+        return `pruned ${pruned} signed-out or expired session(s)`;
+      }
+    },
+  },
+  ...(isLdapEnabled()
+    ? [
+        {
+          name: "directory-sync",
+          intervalMs: parseInt(process.env.LDAP_SYNC_INTERVAL_MS || "3600000"),
+          run: async (now: Date) => {
+            const { updated, deactivated } = await syncLdapUsers(now);
+            if (updated + deactivated > 0) {
+              return `${updated} user(s) updated, ${deactivated} deactivated`;
+            }
+          },
+        },
+      ]
+    : []),
+];
+
+async function main() {
+  if (process.argv.includes("--once")) {
+    await runJobsOnce(jobs);
+    await prisma.$disconnect();
+    return;
+  }
+
+  console.log(`⏰ Running jobs: ${jobs.map((job) => job.name).join(", ")}`);
+  const stop = startScheduler(jobs);
+
+  for (const signal of ["SIGINT", "SIGTERM"]) {
+    process.on(signal, async () => {
+      stop();
+      await prisma.$disconnect();
+      process.exit(0);
+    });
+  }
+}
+
+main();
@@ -0,0 +1,30 @@
+// Grants or takes away the right to switch organizations: `npm run super-admin -- admin@example.com`
+// `npm run super-admin -- admin@example.com --revoke` takes it away again. Super admins cannot be made from the app
+// until there is one.
+import { prisma } from "../src/lib/prisma";
+
+async function main() {
+  const [email, flag] = process.argv.slice(2);
+  if (!email || (flag && flag !== "--revoke")) {
+    console.error("Usage: npm run super-admin -- <email> [--revoke]");
+    process.exit(1);
+  }
+
+  const superAdmin = flag !== "--revoke";
+  const result = await prisma.user.updateMany({
+    where: { email: email.toLowerCase() },
+    data: { superAdmin },
+  });
+  if (result.count === 0) {
+    console.error(`No user with the email ${email}`);
+    process.exit(1);
+  }
+  console.log(`${email} is ${superAdmin ? "now" : "no longer"} a super admin`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
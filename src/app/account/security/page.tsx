@@ -0,0 +1,231 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { IconArrowLeft, IconShieldCheck, IconShieldOff } from "@tabler/icons-react";
+import { formatDateTime } from "@/lib/utils";
+import { TwoFactorSetup } from "@/components/account/TwoFactorSetup";
+import { BackupCodes } from "@/components/account/BackupCodes";
+import { LoginHistory } from "@/components/account/LoginHistory";
+import { ApiTokensPanel } from "@/components/account/ApiTokensPanel";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: string;
+  required: boolean;
+  backupCodesRemaining: number;
+}
+
+async function fetchTwoFactorStatus() {
+  const response = await fetch("/api/two-factor");
+  if (!response.ok) throw new Error("Failed to fetch two-factor status");
+  return response.json();
+}
+
+export default function SecurityPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) {
+      router.push("/auth/signin");
+    }
+  }, [session, status, router]);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["two-factor"],
+    queryFn: fetchTwoFactorStatus,
+    enabled: !!session,
+  });
+
+  const twoFactor: TwoFactorStatus | undefined = data?.data;
+
+  // Both actions take a current code, so a left-open session alone cannot weaken the account
+  const confirmWithCode = async (url: string) => {
+    setIsBusy(true);
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ code }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        alert(result.details?.[0]?.message || result.error || "Request failed");
+        return;
+      }
+      setCode("");
+      if (result.data.backupCodes) {
+        setBackupCodes(result.data.backupCodes);
+      }
+      queryClient.invalidateQueries({ queryKey: ["two-factor"] });
+    } catch (error) {
+      alert(`An error occurred, ${error}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <button
+              onClick={() => router.push("/dashboard")}
+              className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 mr-4"
+            >
+              <IconArrowLeft className="h-4 w-4" />
+              <span>Back to Dashboard</span>
+            </button>
+            <h1 className="text-2xl font-bold text-gray-900">Account Security</h1>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">Two-factor authentication</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Signing in asks for a code from an authenticator app on your phone as well as your password.
+            </p>
+          </div>
+          <div className="p-6">
+            {isLoading || !twoFactor ? (
+              <div className="flex justify-center">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+              </div>
+            ) : backupCodes ? (
+              <BackupCodes codes={backupCodes} onDone={() => setBackupCodes(null)} />
+            ) : !twoFactor.enabled ? (
+              <div className="space-y-4">
+                <div className="flex items-center space-x-2 text-sm text-gray-700">
+                  <IconShieldOff className="h-5 w-5 text-gray-400" />
+                  <span>
+                    Two-factor authentication is off.
+                    {twoFactor.required && " Your role requires it, so you will be asked to set it up at your next sign-in."}
+                  </span>
+                </div>
+                <TwoFactorSetup
+                  onEnabled={(codes) => {
+                    setBackupCodes(codes);
+                    queryClient.invalidateQueries({ queryKey: ["two-factor"] });
+                  }}
+                />
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex items-center space-x-2 text-sm text-gray-700">
+                  <IconShieldCheck className="h-5 w-5 text-green-600" />
+                  <span>
+                    Enabled {twoFactor.enabledAt && `since ${formatDateTime(twoFactor.enabledAt)}`}.{" "}
+                    {twoFactor.backupCodesRemaining} backup code{twoFactor.backupCodesRemaining === 1 ? "" : "s"} left.
+                  </span>
+                </div>
+                <div>
+                  <label htmlFor="confirm-code" className="block text-sm font-medium text-gray-700 mb-1">
+                    Authentication code or backup code
+                  </label>
+                  <input
+                    id="confirm-code"
+                    type="text"
+                    autoComplete="one-time-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className="w-full max-w-xs border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 tracking-widest"
+                  />
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    type="button"
+                    disabled={isBusy || !code}
+                    onClick={() => confirmWithCode("/api/two-factor/backup-codes")}
+                    className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    New Backup Codes
+                  </button>
+                  {!twoFactor.required && (
+                    <button
+                      type="button"
+                      disabled={isBusy || !code}
+                      onClick={() => confirmWithCode("/api/two-factor/disable")}
+                      className="px-3 py-2 text-sm border border-red-300 rounded-md text-red-700 hover:bg-red-50 disabled:opacity-50"
+                    >
+                      Turn Off
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow px-6 py-4 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Sessions</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              See where you are signed in and sign out browsers or devices you no longer use.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => router.push("/account/sessions")}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 whitespace-nowrap"
+          >
+            Your Sessions
+          </button>
+        </div>
+
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">API tokens</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              For scripts calling the API: send the token as <code>Authorization: Bearer &lt;token&gt;</code>. A token
+              can do what you can, and read tokens only read.
+            </p>
+          </div>
+          <div className="p-6">
+            <ApiTokensPanel />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">Recent sign-ins</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              If you see a sign-in you do not recognise, change your password and turn on two-factor authentication.
+            </p>
+          </div>
+          <div className="px-6 py-2">
+            <LoginHistory userId={session.user.id} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
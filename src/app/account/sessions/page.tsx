@@ -0,0 +1,158 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { IconArrowLeft, IconDevices } from "@tabler/icons-react";
+import { formatDateTime } from "@/lib/utils";
+
+interface UserSession {
+  id: string;
+  ip?: string;
+  userAgent?: string;
+  lastSeenAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+async function fetchSessions() {
+  const response = await fetch("/api/sessions");
+  if (!response.ok) throw new Error("Failed to fetch sessions");
+  return response.json();
+}
+
+export default function SessionsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) {
+      router.push("/auth/signin");
+    }
+  }, [session, status, router]);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["sessions"],
+    queryFn: fetchSessions,
+    enabled: !!session,
+  });
+
+  const sessions: UserSession[] = data?.data || [];
+  const others = sessions.filter((userSession) => !userSession.current);
+
+  const signOut = async (url: string) => {
+    setIsBusy(true);
+    try {
+      const response = await fetch(url, { method: "DELETE" });
+      const result = await response.json();
+      if (!response.ok) {
+        alert(result.error || "Request failed");
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["sessions"] });
+    } catch (error) {
+      alert(`An error occurred, ${error}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <button
+              onClick={() => router.push("/account/security")}
+              className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 mr-4"
+            >
+              <IconArrowLeft className="h-4 w-4" />
+              <span>Back to Security</span>
+            </button>
+            <h1 className="text-2xl font-bold text-gray-900">Your Sessions</h1>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-start justify-between gap-4">
+            <div>
+              <h2 className="text-lg font-medium text-gray-900">Signed-in browsers and devices</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Signing out a device takes effect on its next request. API tokens are managed separately.
+              </p>
+            </div>
+            {others.length > 0 && (
+              <button
+                type="button"
+                disabled={isBusy}
+                onClick={() => signOut("/api/sessions")}
+                className="px-3 py-2 text-sm border border-red-300 rounded-md text-red-700 hover:bg-red-50 disabled:opacity-50 whitespace-nowrap"
+              >
+                Sign Out All Others
+              </button>
+            )}
+          </div>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {sessions.map((userSession) => (
+                <li key={userSession.id} className="px-6 py-3 flex items-center justify-between gap-4 text-sm">
+                  <div className="flex items-start space-x-3 min-w-0">
+                    <IconDevices className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-gray-900 truncate" title={userSession.userAgent}>
+                        {userSession.userAgent || "Unknown browser"}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {userSession.ip || "Unknown address"} · signed in {formatDateTime(userSession.createdAt)} ·
+                        last active {formatDateTime(userSession.lastSeenAt)}
+                      </p>
+                    </div>
+                  </div>
+                  {userSession.current ? (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 whitespace-nowrap">
+                      This device
+                    </span>
+                  ) : (
+                    <button
+                      type="button"
+                      disabled={isBusy}
+                      onClick={() => signOut(`/api/sessions/${userSession.id}`)}
+                      className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50 whitespace-nowrap"
+                    >
+                      Sign Out
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
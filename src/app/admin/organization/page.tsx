@@ -0,0 +1,252 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { IconArrowLeft, IconBuilding, IconPlus, IconTrash } from "@tabler/icons-react";
+import { formatDateTime } from "@/lib/utils";
+
+interface Department {
+  id: string;
+  name: string;
+}
+
+interface Organization {
+  id: string;
+  name: string;
+  slug: string;
+  createdAt: string;
+  current: boolean;
+  departments: Department[];
+}
+
+async function fetchOrganizations() {
+  const response = await fetch("/api/organizations");
+  if (!response.ok) throw new Error("Failed to fetch organizations");
+  return response.json();
+}
+
+export default function OrganizationPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [departmentName, setDepartmentName] = useState("");
+  const [organizationForm, setOrganizationForm] = useState({ name: "", slug: "" });
+  const [isBusy, setIsBusy] = useState(false);
+
+  const isAdmin = session?.user.globalRole === "ADMIN";
+  const isSuperAdmin = !!session?.user.superAdmin;
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) {
+      router.push("/auth/signin");
+      return;
+    }
+    if (!isAdmin) {
+      router.push("/dashboard");
+    }
+  }, [session, status, isAdmin, router]);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["organizations"],
+    queryFn: fetchOrganizations,
+    enabled: isAdmin,
+  });
+
+  const organizations: Organization[] = data?.data || [];
+  const current = organizations.find((organization) => organization.current);
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setIsBusy(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        alert(result.error || "Request failed");
+        return null;
+      }
+      queryClient.invalidateQueries({ queryKey: ["organizations"] });
+      return result;
+    } catch (error) {
+      alert(`An error occurred, ${error}`);
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const addDepartment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!current) return;
+    const created = await request(`/api/organizations/${current.id}/departments`, "POST", { name: departmentName });
+    if (created) {
+      setDepartmentName("");
+    }
+  };
+
+  const deleteDepartment = async (department: Department) => {
+    if (!current) return;
+    if (!confirm(`Delete the ${department.name} department? Its users and meetings stay in the organization.`)) return;
+    await request(`/api/organizations/${current.id}/departments/${department.id}`, "DELETE");
+  };
+
+  const createOrganization = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await request("/api/organizations", "POST", organizationForm);
+    if (created) {
+      setOrganizationForm({ name: "", slug: "" });
+    }
+  };
+
+  if (status === "loading" || (isAdmin && isLoading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session || !isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <button
+              onClick={() => router.push("/dashboard")}
+              className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 mr-4"
+            >
+              <IconArrowLeft className="h-4 w-4" />
+              <span>Back to Dashboard</span>
+            </button>
+            <h1 className="text-2xl font-bold text-gray-900">{current?.name ?? "Organization"}</h1>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">Departments</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Optional groups within the organization for filtering users and meetings.
+            </p>
+          </div>
+          <form onSubmit={addDepartment} className="px-6 py-4 border-b border-gray-200 flex space-x-2">
+            <input
+              type="text"
+              required
+              value={departmentName}
+              onChange={(e) => setDepartmentName(e.target.value)}
+              placeholder="Department name"
+              className="flex-1 border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={isBusy || !departmentName.trim()}
+              className="flex items-center space-x-2 px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              <IconPlus className="h-4 w-4" />
+              <span>Add</span>
+            </button>
+          </form>
+          {!current || current.departments.length === 0 ? (
+            <div className="p-6 text-center">
+              <p className="text-gray-500">No departments yet</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {current.departments.map((department) => (
+                <li key={department.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                  <span className="text-gray-900">{department.name}</span>
+                  <button
+                    type="button"
+                    disabled={isBusy}
+                    onClick={() => deleteDepartment(department)}
+                    className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                    title="Delete department"
+                  >
+                    <IconTrash className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {isSuperAdmin && (
+          <div className="bg-white rounded-lg shadow">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-medium text-gray-900">All Organizations</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Switch between them from the dashboard header. Each has its own admins, users and meetings.
+              </p>
+            </div>
+            <form onSubmit={createOrganization} className="px-6 py-4 border-b border-gray-200 flex space-x-2">
+              <input
+                type="text"
+                required
+                value={organizationForm.name}
+                onChange={(e) => setOrganizationForm({ ...organizationForm, name: e.target.value })}
+                placeholder="Name"
+                className="flex-1 border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <input
+                type="text"
+                required
+                value={organizationForm.slug}
+                onChange={(e) => setOrganizationForm({ ...organizationForm, slug: e.target.value })}
+                placeholder="slug"
+                className="w-48 border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={isBusy}
+                className="flex items-center space-x-2 px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                <IconPlus className="h-4 w-4" />
+                <span>Create</span>
+              </button>
+            </form>
+            <ul className="divide-y divide-gray-100">
+              {organizations.map((organization) => (
+                <li key={organization.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                  <div className="flex items-center space-x-3">
+                    <IconBuilding className="h-5 w-5 text-gray-400" />
+                    <div>
+                      <p className="text-gray-900">{organization.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {organization.slug} · {organization.departments.length} departments · created{" "}
+                        {formatDateTime(organization.createdAt)}
+                      </p>
+                    </div>
+                  </div>
+                  {organization.current && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                      Current
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,507 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { IconArrowLeft, IconSearch, IconUserPlus } from "@tabler/icons-react";
+import { formatDateTime } from "@/lib/utils";
+import { GLOBAL_ROLES } from "@/lib/users";
+import { LoginHistory } from "@/components/account/LoginHistory";
+
+interface ManagedUser {
+  id: string;
+  name: string;
+  email: string;
+  globalRole: string;
+  locale: string;
+  deactivatedAt?: string;
+  totpEnabledAt?: string;
+  lockedUntil?: string;
+  departmentId?: string;
+  invitePending: boolean;
+  createdAt: string;
+}
+
+interface UserForm {
+  name: string;
+  email: string;
+  globalRole: string;
+  locale: string;
+  departmentId: string;
+  password: string;
+}
+
+const EMPTY_FORM: UserForm = { name: "", email: "", globalRole: "USER", locale: "id", departmentId: "", password: "" };
+
+const LOCALES = [
+  { value: "id", label: "Indonesian" },
+  { value: "en", label: "English" },
+];
+
+async function fetchUsers(status: string, search: string) {
+  const params = new URLSearchParams({ status, limit: "200" });
+  if (search) params.append("search", search);
+  const response = await fetch(`/api/users?${params.toString()}`);
+  if (!response.ok) throw new Error("Failed to fetch users");
+  return response.json();
+}
+
+async function fetchOrganizations() {
+  const response = await fetch("/api/organizations");
+  if (!response.ok) throw new Error("Failed to fetch organizations");
+  return response.json();
+}
+
+export default function UsersPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [search, setSearch] = useState("");
+  // null: no form open, "new": create form, otherwise the id of the user being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<UserForm>(EMPTY_FORM);
+  const [isBusy, setIsBusy] = useState(false);
+  // Shown when email is not configured, so the admin can pass the link on themselves
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  // The user whose sign-in history is unfolded
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  const currentUser = session?.user;
+  const isAdmin = currentUser?.globalRole === "ADMIN";
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) {
+      router.push("/auth/signin");
+      return;
+    }
+    if (!isAdmin) {
+      router.push("/dashboard");
+    }
+  }, [session, status, isAdmin, router]);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["users", "admin", statusFilter, search],
+    queryFn: () => fetchUsers(statusFilter, search),
+    enabled: isAdmin,
+  });
+
+  const users: ManagedUser[] = data?.data || [];
+
+  const { data: organizationsData } = useQuery({
+    queryKey: ["organizations"],
+    queryFn: fetchOrganizations,
+    enabled: isAdmin,
+  });
+
+  const departments: Array<{ id: string; name: string }> =
+    organizationsData?.data?.find((organization: { current: boolean }) => organization.current)?.departments || [];
+  const departmentName = (id?: string) => departments.find((department) => department.id === id)?.name;
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setIsBusy(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        alert(result.details?.[0]?.message || result.error || "Request failed");
+        return null;
+      }
+      queryClient.invalidateQueries({ queryKey: ["users"] });
+      if (result.data?.inviteLink) {
+        setInviteLink(result.data.inviteLink);
+      }
+      return result.data ?? {};
+    } catch (error) {
+      alert(`An error occurred, ${error}`);
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const openCreate = () => {
+    setForm(EMPTY_FORM);
+    setEditingId("new");
+  };
+
+  const openEdit = (user: ManagedUser) => {
+    setForm({
+      name: user.name,
+      email: user.email,
+      globalRole: user.globalRole,
+      locale: user.locale,
+      departmentId: user.departmentId ?? "",
+      password: "",
+    });
+    setEditingId(user.id);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const isNew = editingId === "new";
+    // An empty password keeps the current one on edit, and sends an invite on create
+    const { password, departmentId, ...rest } = form;
+    const fields = { ...rest, departmentId: departmentId || null };
+    const saved = await request(
+      isNew ? "/api/users" : `/api/users/${editingId}`,
+      isNew ? "POST" : "PATCH",
+      password ? { ...fields, password } : fields
+    );
+    if (saved) {
+      setEditingId(null);
+    }
+  };
+
+  const resendInvite = async (user: ManagedUser) => {
+    const sent = await request(`/api/users/${user.id}/invite`, "POST");
+    if (sent && !sent.inviteLink) {
+      alert(`A new invite was sent to ${user.email}`);
+    }
+  };
+
+  const signOutEverywhere = async (user: ManagedUser) => {
+    if (!confirm(`Sign ${user.name} out of every browser and device? Their API tokens keep working.`)) return;
+    const result = await request(`/api/users/${user.id}/sessions`, "DELETE");
+    if (result) {
+      alert(`${result.revoked} session(s) signed out`);
+    }
+  };
+
+  const resetTwoFactor = async (user: ManagedUser) => {
+    if (!confirm(`Reset two-factor authentication for ${user.name}? They will need to set it up again with their authenticator app.`)) return;
+    await request(`/api/users/${user.id}/two-factor`, "DELETE");
+  };
+
+  const setActive = async (user: ManagedUser, active: boolean) => {
+    if (!active && !confirm(`Deactivate ${user.name}? They will no longer be able to sign in.`)) return;
+    await request(`/api/users/${user.id}`, active ? "PATCH" : "DELETE", active ? { active: true } : undefined);
+  };
+
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session || !isAdmin) {
+    return null;
+  }
+
+  const userForm = (
+    <form onSubmit={handleSubmit} className="bg-gray-50 border-t border-gray-200 px-6 py-4 grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Name</label>
+        <input
+          type="text"
+          required
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Email</label>
+        <input
+          type="email"
+          required
+          value={form.email}
+          onChange={(e) => setForm({ ...form, email: e.target.value })}
+          className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Role</label>
+          <select
+            value={form.globalRole}
+            onChange={(e) => setForm({ ...form, globalRole: e.target.value })}
+            className="w-full border border-gray-300 rounded-md px-2 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {GLOBAL_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {role}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Email language</label>
+          <select
+            value={form.locale}
+            onChange={(e) => setForm({ ...form, locale: e.target.value })}
+            className="w-full border border-gray-300 rounded-md px-2 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {LOCALES.map((locale) => (
+              <option key={locale.value} value={locale.value}>
+                {locale.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {departments.length > 0 && (
+          <div className="col-span-2">
+            <label className="block text-xs font-medium text-gray-700 mb-1">Department</label>
+            <select
+              value={form.departmentId}
+              onChange={(e) => setForm({ ...form, departmentId: e.target.value })}
+              className="w-full border border-gray-300 rounded-md px-2 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">No department</option>
+              {departments.map((department) => (
+                <option key={department.id} value={department.id}>
+                  {department.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">
+          {editingId === "new" ? "Password" : "New password"}
+        </label>
+        <input
+          type="password"
+          value={form.password}
+          onChange={(e) => setForm({ ...form, password: e.target.value })}
+          placeholder={editingId === "new" ? "Empty: invite by email" : "Leave empty to keep"}
+          autoComplete="new-password"
+          className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={() => setEditingId(null)}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isBusy}
+          className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {editingId === "new" ? "Create User" : "Save"}
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between py-4">
+            <div className="flex items-center">
+              <button
+                onClick={() => router.push("/dashboard")}
+                className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 mr-4"
+              >
+                <IconArrowLeft className="h-4 w-4" />
+                <span>Back to Dashboard</span>
+              </button>
+              <h1 className="text-2xl font-bold text-gray-900">Users</h1>
+            </div>
+            <button
+              onClick={openCreate}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+            >
+              <IconUserPlus className="h-4 w-4" />
+              <span>New User</span>
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {inviteLink && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <p className="text-sm font-medium text-yellow-900">Invite link</p>
+            <p className="text-sm text-yellow-800 mt-1">
+              Email is not configured, so send this single-use link to the user yourself.
+            </p>
+            <code className="block mt-2 p-2 bg-white border rounded text-sm break-all">{inviteLink}</code>
+            <button
+              type="button"
+              onClick={() => setInviteLink(null)}
+              className="mt-2 text-sm text-yellow-900 hover:underline"
+            >
+              Done
+            </button>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200 flex flex-col sm:flex-row gap-4 sm:items-center sm:justify-between">
+            <div className="relative flex-1 max-w-md">
+              <IconSearch className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search by name or email..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10 pr-4 py-2 w-full border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="border border-gray-300 rounded-md px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="all">All users</option>
+              <option value="active">Active</option>
+              <option value="deactivated">Deactivated</option>
+            </select>
+          </div>
+
+          {editingId === "new" && userForm}
+
+          {isLoading ? (
+            <div className="p-6 text-center">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+            </div>
+          ) : users.length === 0 ? (
+            <p className="p-6 text-center text-gray-600">No users found</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {users.map((user) => (
+                <li key={user.id}>
+                  <div className="px-6 py-4 flex items-center justify-between">
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <p className={`text-sm font-medium ${user.deactivatedAt ? "text-gray-500" : "text-gray-900"}`}>
+                          {user.name}
+                        </p>
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                          {user.globalRole}
+                        </span>
+                        {departmentName(user.departmentId) && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                            {departmentName(user.departmentId)}
+                          </span>
+                        )}
+                        {user.invitePending && !user.deactivatedAt && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                            Invited
+                          </span>
+                        )}
+                        {user.totpEnabledAt && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                            2FA
+                          </span>
+                        )}
+                        {user.lockedUntil && new Date(user.lockedUntil) > new Date() && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                            Locked until {formatDateTime(user.lockedUntil)}
+                          </span>
+                        )}
+                        {user.deactivatedAt && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                            Deactivated {formatDateTime(user.deactivatedAt)}
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600">{user.email}</p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {user.invitePending && !user.deactivatedAt && (
+                        <button
+                          type="button"
+                          disabled={isBusy}
+                          onClick={() => resendInvite(user)}
+                          className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Resend Invite
+                        </button>
+                      )}
+                      {user.totpEnabledAt && (
+                        <button
+                          type="button"
+                          disabled={isBusy}
+                          onClick={() => resetTwoFactor(user)}
+                          className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Reset 2FA
+                        </button>
+                      )}
+                      {user.lockedUntil && new Date(user.lockedUntil) > new Date() && (
+                        <button
+                          type="button"
+                          disabled={isBusy}
+                          onClick={() => request(`/api/users/${user.id}/unlock`, "POST")}
+                          className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Unlock
+                        </button>
+                      )}
+                      {!user.deactivatedAt && (
+                        <button
+                          type="button"
+                          disabled={isBusy}
+                          onClick={() => signOutEverywhere(user)}
+                          className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Sign Out
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => setHistoryId(historyId === user.id ? null : user.id)}
+                        className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                      >
+                        Sign-ins
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => openEdit(user)}
+                        className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                      >
+                        Edit
+                      </button>
+                      {user.id !== currentUser?.id && (
+                        <button
+                          type="button"
+                          disabled={isBusy}
+                          onClick={() => setActive(user, !!user.deactivatedAt)}
+                          className={`px-3 py-1 text-sm border rounded-md disabled:opacity-50 ${
+                            user.deactivatedAt
+                              ? "border-green-300 text-green-700 hover:bg-green-50"
+                              : "border-red-300 text-red-700 hover:bg-red-50"
+                          }`}
+                        >
+                          {user.deactivatedAt ? "Reactivate" : "Deactivate"}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {editingId === user.id && userForm}
+                  {historyId === user.id && (
+                    <div className="bg-gray-50 border-t border-gray-200 px-6 py-2">
+                      <LoginHistory userId={user.id} />
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
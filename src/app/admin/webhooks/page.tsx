@@ -0,0 +1,345 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { IconArrowLeft, IconKey, IconPlus, IconTrash, IconWebhook } from "@tabler/icons-react";
+import { formatDateTime } from "@/lib/utils";
+import { DeliveryLog } from "@/components/webhooks/DeliveryLog";
+
+interface Webhook {
+  id: string;
+  url: string;
+  events: string[];
+  description?: string;
+  active: boolean;
+  createdAt: string;
+  createdBy: {
+    id: string;
+    name: string;
+  };
+  lastDelivery: {
+    status: string;
+    responseStatus?: number;
+    createdAt: string;
+  } | null;
+  failedDeliveries: number;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  MEETING_CREATED: "Meeting created",
+  TTFU_CREATED: "TTFU created",
+  TTFU_UPDATED: "TTFU updated",
+  TTFU_STATUS_CHANGED: "TTFU status changed",
+  EVIDENCE_SUBMITTED: "Evidence submitted",
+  REVIEW_CREATED: "Review created",
+};
+
+async function fetchWebhooks() {
+  const response = await fetch("/api/webhooks");
+  if (!response.ok) throw new Error("Failed to fetch webhooks");
+  return response.json();
+}
+
+export default function WebhooksPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [isCreating, setIsCreating] = useState(false);
+  const [form, setForm] = useState({ url: "", description: "", events: Object.keys(EVENT_LABELS) });
+  const [revealedSecret, setRevealedSecret] = useState<{ webhookId: string; secret: string } | null>(null);
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const isAdmin = session?.user.globalRole === "ADMIN";
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) {
+      router.push("/auth/signin");
+      return;
+    }
+    if (!isAdmin) {
+      router.push("/dashboard");
+    }
+  }, [session, status, isAdmin, router]);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["webhooks"],
+    queryFn: fetchWebhooks,
+    enabled: isAdmin,
+  });
+
+  const webhooks: Webhook[] = data?.data || [];
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["webhooks"] });
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setIsBusy(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        alert(result.error || "Request failed");
+        return null;
+      }
+      refresh();
+      return result.data;
+    } catch (error) {
+      alert(`An error occurred, ${error}`);
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await request("/api/webhooks", "POST", {
+      url: form.url,
+      description: form.description || undefined,
+      events: form.events,
+    });
+    if (created) {
+      setRevealedSecret({ webhookId: created.id, secret: created.secret });
+      setForm({ url: "", description: "", events: Object.keys(EVENT_LABELS) });
+      setIsCreating(false);
+    }
+  };
+
+  const toggleEvent = (event: string) => {
+    setForm({
+      ...form,
+      events: form.events.includes(event) ? form.events.filter((e) => e !== event) : [...form.events, event],
+    });
+  };
+
+  const rotateSecret = async (webhook: Webhook) => {
+    if (!confirm("Rotate the secret? The receiver must be updated before it can verify new deliveries.")) return;
+    const updated = await request(`/api/webhooks/${webhook.id}`, "PATCH", { rotateSecret: true });
+    if (updated) {
+      setRevealedSecret({ webhookId: webhook.id, secret: updated.secret });
+    }
+  };
+
+  const deleteWebhook = async (webhook: Webhook) => {
+    if (!confirm(`Delete the webhook for ${webhook.url} and its delivery log?`)) return;
+    await request(`/api/webhooks/${webhook.id}`, "DELETE");
+  };
+
+  if (status === "loading" || (isAdmin && isLoading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session || !isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between py-4">
+            <div className="flex items-center">
+              <button
+                onClick={() => router.push("/dashboard")}
+                className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 mr-4"
+              >
+                <IconArrowLeft className="h-4 w-4" />
+                <span>Back to Dashboard</span>
+              </button>
+              <h1 className="text-2xl font-bold text-gray-900">Webhooks</h1>
+            </div>
+            <button
+              onClick={() => setIsCreating(!isCreating)}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+            >
+              <IconPlus className="h-4 w-4" />
+              <span>New Webhook</span>
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {revealedSecret && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <p className="text-sm font-medium text-yellow-900">Signing secret</p>
+            <p className="text-sm text-yellow-800 mt-1">
+              Copy it now, it will not be shown again. Receivers verify the{" "}
+              <code>X-Webhook-Signature</code> header with it.
+            </p>
+            <code className="block mt-2 p-2 bg-white border rounded text-sm break-all">{revealedSecret.secret}</code>
+            <button
+              type="button"
+              onClick={() => setRevealedSecret(null)}
+              className="mt-2 text-sm text-yellow-900 hover:underline"
+            >
+              Done
+            </button>
+          </div>
+        )}
+
+        {isCreating && (
+          <form onSubmit={handleCreate} className="bg-white rounded-lg shadow p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Payload URL</label>
+              <input
+                type="url"
+                required
+                value={form.url}
+                onChange={(e) => setForm({ ...form, url: e.target.value })}
+                placeholder="https://example.com/hooks/ttfu"
+                className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">Events</span>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                {Object.entries(EVENT_LABELS).map(([event, label]) => (
+                  <label key={event} className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input type="checkbox" checked={form.events.includes(event)} onChange={() => toggleEvent(event)} />
+                    <span>{label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => setIsCreating(false)}
+                className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isBusy || form.events.length === 0}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Create Webhook
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">Subscriptions</h2>
+          </div>
+          {webhooks.length === 0 ? (
+            <div className="p-6 text-center">
+              <IconWebhook className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-500">No webhooks yet</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {webhooks.map((webhook) => (
+                <li key={webhook.id}>
+                  <div className="px-6 py-4">
+                    <div className="flex items-start justify-between">
+                      <div className="min-w-0">
+                        <div className="flex items-center space-x-2">
+                          <p className="text-sm font-medium text-gray-900 break-all">{webhook.url}</p>
+                          {!webhook.active && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                              Disabled
+                            </span>
+                          )}
+                          {webhook.failedDeliveries > 0 && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                              {webhook.failedDeliveries} failed
+                            </span>
+                          )}
+                        </div>
+                        {webhook.description && <p className="text-sm text-gray-600 mt-1">{webhook.description}</p>}
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {webhook.events.map((event) => (
+                            <span key={event} className="px-2 py-0.5 rounded bg-blue-50 text-blue-700 text-xs">
+                              {EVENT_LABELS[event] || event}
+                            </span>
+                          ))}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-2">
+                          Added by {webhook.createdBy.name} on {formatDateTime(webhook.createdAt)}
+                          {webhook.lastDelivery &&
+                            ` • last delivery ${webhook.lastDelivery.status}${
+                              webhook.lastDelivery.responseStatus ? ` (HTTP ${webhook.lastDelivery.responseStatus})` : ""
+                            } ${formatDateTime(webhook.lastDelivery.createdAt)}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-2 ml-4 shrink-0">
+                        <button
+                          type="button"
+                          onClick={() => setOpenLogId(openLogId === webhook.id ? null : webhook.id)}
+                          className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                        >
+                          {openLogId === webhook.id ? "Hide Deliveries" : "Deliveries"}
+                        </button>
+                        <button
+                          type="button"
+                          disabled={isBusy}
+                          onClick={() => request(`/api/webhooks/${webhook.id}`, "PATCH", { active: !webhook.active })}
+                          className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          {webhook.active ? "Disable" : "Enable"}
+                        </button>
+                        <button
+                          type="button"
+                          disabled={isBusy}
+                          onClick={() => rotateSecret(webhook)}
+                          className="p-1.5 text-gray-500 hover:text-gray-900 disabled:opacity-50"
+                          title="Rotate secret"
+                        >
+                          <IconKey className="h-4 w-4" />
+                        </button>
+                        <button
+                          type="button"
+                          disabled={isBusy}
+                          onClick={() => deleteWebhook(webhook)}
+                          className="p-1.5 text-red-500 hover:text-red-700 disabled:opacity-50"
+                          title="Delete webhook"
+                        >
+                          <IconTrash className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                  {openLogId === webhook.id && (
+                    <div className="border-t border-gray-100 bg-gray-50/50">
+                      <DeliveryLog webhookId={webhook.id} />
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
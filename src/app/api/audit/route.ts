@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { AUDIT_ENTITIES, AuditEntity, auditTrailWhere } from "@/lib/audit";
+import { can, loadMeetingResource, loadTTFUResource, PolicyUser } from "@/lib/policy";
+import { z } from "zod";
+
+const auditQuerySchema = z.object({
+  entity: z.enum(AUDIT_ENTITIES),
+  entityId: z.string().min(1, "entityId is required"),
+});
+
+// Access follows the TTFU or meeting the entries belong to; once that is deleted only admins of the organization
+// it belonged to can read them. A user's trail is for admins of that user's organization.
+async function canReadTrail(user: PolicyUser, entity: AuditEntity, entityId: string) {
+  const isAdmin = user.globalRole === "ADMIN";
+
+  if (entity === "USER") {
+    if (!isAdmin) return false;
+    const target = await prisma.user.findFirst({
+      where: { id: entityId, organizationId: user.organizationId },
+      select: { id: true },
+    });
+    return !!target;
+  }
+
+  const latest = await prisma.auditLog.findFirst({
+    where: { entity, entityId },
+    orderBy: { createdAt: "desc" },
+    select: { meetingId: true, ttfuId: true, user: { select: { organizationId: true } } },
+  });
+  const ttfuId = entity === "TTFU" ? entityId : latest?.ttfuId;
+  const meetingId = entity === "MEETING" ? entityId : latest?.meetingId;
+
+  if (ttfuId) {
+    const ttfu = await loadTTFUResource(ttfuId, user);
+    if (ttfu) {
+      return can(user, "ttfu:view", ttfu);
+    }
+  }
+
+  if (meetingId) {
+    const meeting = await loadMeetingResource(meetingId, user);
+    if (meeting) {
+      return can(user, "meeting:view", meeting);
+    }
+  }
+
+  // Deleted, or in another organization: the organization is known from whoever made the last change
+  return isAdmin && latest?.user?.organizationId === user.organizationId;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { entity, entityId } = auditQuerySchema.parse({
+      entity: searchParams.get("entity"),
+      entityId: searchParams.get("entityId"),
+    });
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "50");
+    const skip = (page - 1) * limit;
+
+    if (!(await canReadTrail(session.user, entity, entityId))) {
+      return NextResponse.json(
+        { error: "You do not have access to this audit trail" },
+        { status: 403 }
+      );
+    }
+
+    const where = auditTrailWhere(entity, entityId);
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: {
+          createdAt: "desc",
+        },
+        skip,
+        take: limit,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: entries,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error fetching audit trail:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
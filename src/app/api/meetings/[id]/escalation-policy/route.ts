@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { defaultEscalationSettings, effectiveEscalationSettings } from "@/lib/escalation";
+import { can, loadMeetingResource } from "@/lib/policy";
+import { z } from "zod";
+
+// null switches a step off for this meeting
+const days = z.number().int().min(0).max(365).nullable();
+
+const escalationPolicySchema = z.object({
+  reminderDaysBefore: days,
+  escalateToSpvAfterDays: days,
+  escalateToAdminAfterDays: days,
+});
+
+async function policyResponse(meetingId: string) {
+  const policy = await prisma.escalationPolicy.findUnique({ where: { meetingId } });
+  return NextResponse.json({
+    success: true,
+    data: {
+      policy,
+      defaults: defaultEscalationSettings(),
+      effective: effectiveEscalationSettings(policy),
+    },
+  });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const resolvedParams = await params;
+    const meeting = await loadMeetingResource(resolvedParams.id, session.user);
+
+    if (!meeting) {
+      return NextResponse.json(
+        { error: "Meeting not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, "meeting:view", meeting)) {
+      return NextResponse.json(
+        { error: "You do not have access to this meeting" },
+        { status: 403 }
+      );
+    }
+
+    return policyResponse(meeting.id);
+  } catch (error) {
+    console.error("Error fetching escalation policy:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const resolvedParams = await params;
+    const body = await request.json();
+    const validatedData = escalationPolicySchema.parse(body);
+
+    const meeting = await loadMeetingResource(resolvedParams.id, session.user);
+
+    if (!meeting) {
+      return NextResponse.json(
+        { error: "Meeting not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, "meeting:update", meeting)) {
+      return NextResponse.json(
+        { error: "Only the meeting creator, meeting SPVs and admins can change the escalation policy" },
+        { status: 403 }
+      );
+    }
+
+    await prisma.escalationPolicy.upsert({
+      where: { meetingId: meeting.id },
+      create: { meetingId: meeting.id, ...validatedData },
+      update: validatedData,
+    });
+
+    return policyResponse(meeting.id);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating escalation policy:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Drops the meeting's own policy, so the defaults apply again
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const resolvedParams = await params;
+    const meeting = await loadMeetingResource(resolvedParams.id, session.user);
+
+    if (!meeting) {
+      return NextResponse.json(
+        { error: "Meeting not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, "meeting:update", meeting)) {
+      return NextResponse.json(
+        { error: "Only the meeting creator, meeting SPVs and admins can change the escalation policy" },
+        { status: 403 }
+      );
+    }
+
+    await prisma.escalationPolicy.deleteMany({ where: { meetingId: meeting.id } });
+
+    return policyResponse(meeting.id);
+  } catch (error) {
+    console.error("Error resetting escalation policy:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
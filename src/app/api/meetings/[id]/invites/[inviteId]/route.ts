@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { can, loadMeetingResource } from "@/lib/policy";
+
+// Revoked invites are kept so pending join requests still point at their invite
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; inviteId: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const resolvedParams = await params;
+    const meeting = await loadMeetingResource(resolvedParams.id, session.user);
+
+    if (!meeting) {
+      return NextResponse.json(
+        { error: "Meeting not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, "meeting:manageParticipants", meeting)) {
+      return NextResponse.json(
+        { error: "Only the meeting creator, meeting SPVs and admins can manage invites" },
+        { status: 403 }
+      );
+    }
+
+    const invite = await prisma.meetingInvite.findFirst({
+      where: { id: resolvedParams.inviteId, meetingId: meeting.id },
+    });
+
+    if (!invite) {
+      return NextResponse.json(
+        { error: "Invite not found" },
+        { status: 404 }
+      );
+    }
+
+    const revoked = await prisma.meetingInvite.update({
+      where: { id: invite.id },
+      data: { revokedAt: invite.revokedAt ?? new Date() },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: revoked,
+    });
+  } catch (error) {
+    console.error("Error revoking invite:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
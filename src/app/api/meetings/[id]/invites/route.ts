@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { generateInviteCode, isInviteActive } from "@/lib/invites";
+import { can, loadMeetingResource } from "@/lib/policy";
+import { z } from "zod";
+
+const createInviteSchema = z.object({
+  role: z.enum(["spv", "reviewer", "participant"]).default("participant"),
+  requiresApproval: z.boolean().default(false),
+  expiresAt: z.string().optional(),
+  maxUses: z.number().int().positive().optional(),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const resolvedParams = await params;
+    const meeting = await loadMeetingResource(resolvedParams.id, session.user);
+
+    if (!meeting) {
+      return NextResponse.json(
+        { error: "Meeting not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, "meeting:manageParticipants", meeting)) {
+      return NextResponse.json(
+        { error: "Only the meeting creator, meeting SPVs and admins can manage invites" },
+        { status: 403 }
+      );
+    }
+
+    const invites = await prisma.meetingInvite.findMany({
+      where: { meetingId: meeting.id, revokedAt: null },
+      include: {
+        createdBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: "desc",
+      },
+    });
+
+    const now = new Date();
+
+    return NextResponse.json({
+      success: true,
+      data: invites.map((invite) => ({ ...invite, active: isInviteActive(invite, now) })),
+    });
+  } catch (error) {
+    console.error("Error fetching invites:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const resolvedParams = await params;
+    const body = await request.json();
+    const validatedData = createInviteSchema.parse(body);
+
+    const meeting = await loadMeetingResource(resolvedParams.id, session.user);
+
+    if (!meeting) {
+      return NextResponse.json(
+        { error: "Meeting not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, "meeting:manageParticipants", meeting)) {
+      return NextResponse.json(
+        { error: "Only the meeting creator, meeting SPVs and admins can manage invites" },
+        { status: 403 }
+      );
+    }
+
+    const expiresAt = validatedData.expiresAt ? new Date(validatedData.expiresAt) : null;
+    if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt <= new Date())) {
+      return NextResponse.json(
+        { error: "Expiry must be a date in the future" },
+        { status: 400 }
+      );
+    }
+
+    const invite = await prisma.meetingInvite.create({
+      data: {
+        meetingId: meeting.id,
+        code: generateInviteCode(),
+        role: validatedData.role,
+        requiresApproval: validatedData.requiresApproval,
+        expiresAt,
+        maxUses: validatedData.maxUses,
+        createdById: session.user.id,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: invite,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error creating invite:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { addParticipantFromInvite, canJoinAs } from "@/lib/invites";
+import { can, loadMeetingResource } from "@/lib/policy";
+import { z } from "zod";
+
+const decideJoinRequestSchema = z.object({
+  decision: z.enum(["approve", "deny"]),
+});
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; requestId: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const resolvedParams = await params;
+    const body = await request.json();
+    const validatedData = decideJoinRequestSchema.parse(body);
+
+    const meeting = await loadMeetingResource(resolvedParams.id, session.user);
+
+    if (!meeting) {
+      return NextResponse.json(
+        { error: "Meeting not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, "meeting:manageParticipants", meeting)) {
+      return NextResponse.json(
+        { error: "Only the meeting creator, meeting SPVs and admins can manage join requests" },
+        { status: 403 }
+      );
+    }
+
+    const joinRequest = await prisma.joinRequest.findFirst({
+      where: { id: resolvedParams.requestId, meetingId: meeting.id },
+      include: { user: { select: { id: true, globalRole: true, deactivatedAt: true } } },
+    });
+
+    if (!joinRequest) {
+      return NextResponse.json(
+        { error: "Join request not found" },
+        { status: 404 }
+      );
+    }
+
+    if (joinRequest.status !== "pending") {
+      return NextResponse.json(
+        { error: `This request was already ${joinRequest.status}` },
+        { status: 409 }
+      );
+    }
+
+    const approve = validatedData.decision === "approve";
+
+    if (approve) {
+      if (joinRequest.user.deactivatedAt) {
+        return NextResponse.json(
+          { error: "Deactivated users cannot be added to a meeting" },
+          { status: 400 }
+        );
+      }
+
+      // The requester's global role may have changed since the invite was redeemed
+      if (!canJoinAs(joinRequest.user.globalRole, joinRequest.role)) {
+        return NextResponse.json(
+          { error: `This user cannot join a meeting as ${joinRequest.role}` },
+          { status: 400 }
+        );
+      }
+
+      if (meeting.participants.some((p) => p.userId === joinRequest.userId)) {
+        return NextResponse.json(
+          { error: "User is already a participant in this meeting" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const decided = await prisma.$transaction(async (tx) => {
+      // Only the first of two managers deciding at once gets to; the other is told it was already decided
+      const claimed = await tx.joinRequest.updateMany({
+        where: { id: joinRequest.id, status: "pending" },
+        data: {
+          status: approve ? "approved" : "denied",
+          decidedById: session.user.id,
+          decidedAt: new Date(),
+        },
+      });
+      if (claimed.count === 0) {
+        return null;
+      }
+      const updated = await tx.joinRequest.findUniqueOrThrow({ where: { id: joinRequest.id } });
+
+      if (approve) {
+        await addParticipantFromInvite(tx, {
+          meetingId: meeting.id,
+          userId: joinRequest.userId,
+          role: joinRequest.role,
+          actorId: session.user.id,
+          details: { inviteId: joinRequest.inviteId, joinRequestId: joinRequest.id },
+        });
+      }
+
+      return updated;
+    });
+
+    if (!decided) {
+      return NextResponse.json(
+        { error: "This request was already decided" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: decided,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error deciding join request:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
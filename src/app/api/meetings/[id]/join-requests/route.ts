@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { can, loadMeetingResource } from "@/lib/policy";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const resolvedParams = await params;
+    const meeting = await loadMeetingResource(resolvedParams.id, session.user);
+
+    if (!meeting) {
+      return NextResponse.json(
+        { error: "Meeting not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, "meeting:manageParticipants", meeting)) {
+      return NextResponse.json(
+        { error: "Only the meeting creator, meeting SPVs and admins can manage join requests" },
+        { status: 403 }
+      );
+    }
+
+    const requests = await prisma.joinRequest.findMany({
+      where: { meetingId: meeting.id, status: "pending" },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            globalRole: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: "asc",
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: requests,
+    });
+  } catch (error) {
+    console.error("Error fetching join requests:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,275 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import {
+  findOpenTTFUsOf,
+  reassignOpenTTFUs,
+  REVIEWER_ROLES,
+  validateAssignment,
+} from "@/lib/assignment";
+import { can, loadMeetingResource } from "@/lib/policy";
+import { canJoinAs } from "@/lib/invites";
+import { z } from "zod";
+
+const updateParticipantSchema = z.object({
+  role: z.enum(["spv", "reviewer", "participant"]),
+});
+
+const userSelect = {
+  id: true,
+  name: true,
+  email: true,
+  globalRole: true,
+};
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const resolvedParams = await params;
+    const body = await request.json();
+    const validatedData = updateParticipantSchema.parse(body);
+
+    const meeting = await loadMeetingResource(resolvedParams.id, session.user);
+
+    if (!meeting) {
+      return NextResponse.json(
+        { error: "Meeting not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, "meeting:manageParticipants", meeting)) {
+      return NextResponse.json(
+        { error: "Only the meeting creator, meeting SPVs and admins can manage participants" },
+        { status: 403 }
+      );
+    }
+
+    const existingParticipant = await prisma.meetingParticipant.findUnique({
+      where: {
+        meetingId_userId: {
+          meetingId: meeting.id,
+          userId: resolvedParams.userId,
+        },
+      },
+      include: { user: { select: { globalRole: true } } },
+    });
+
+    if (!existingParticipant) {
+      return NextResponse.json(
+        { error: "Participant not found" },
+        { status: 404 }
+      );
+    }
+
+    // The meeting role carries SPV and reviewer rights, so it is capped by the global role as for invites
+    if (!canJoinAs(existingParticipant.user.globalRole, validatedData.role)) {
+      return NextResponse.json(
+        { error: `This user cannot join a meeting as ${validatedData.role}` },
+        { status: 400 }
+      );
+    }
+
+    // A participant demoted out of the reviewer roles cannot keep reviewing open TTFUs
+    if (!REVIEWER_ROLES.includes(validatedData.role)) {
+      const reviewing = (await findOpenTTFUsOf(meeting.id, resolvedParams.userId)).filter(
+        (ttfu) => ttfu.reviewerId === resolvedParams.userId
+      );
+      if (reviewing.length > 0) {
+        return NextResponse.json(
+          {
+            error: `This participant still reviews ${reviewing.length} open TTFU(s). Reassign them before changing the role.`,
+            ttfus: reviewing,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const participant = await prisma.$transaction(async (tx) => {
+      const updated = await tx.meetingParticipant.update({
+        where: { id: existingParticipant.id },
+        data: { role: validatedData.role },
+        include: { user: { select: userSelect } },
+      });
+
+      await recordAudit(tx, {
+        userId: session.user.id,
+        action: "PARTICIPANT_UPDATE",
+        entity: "PARTICIPANT",
+        entityId: updated.id,
+        meetingId: meeting.id,
+        before: existingParticipant,
+        after: updated,
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: participant,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating participant:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Open TTFUs owned by the participant must be handed over via
+// ?reassignAssigneeTo=<userId>&reassignReviewerTo=<userId>, otherwise the removal is refused. Only meeting
+// managers choose who takes them over; anyone else has to hand them back before leaving.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const resolvedParams = await params;
+    const meeting = await loadMeetingResource(resolvedParams.id, session.user);
+
+    if (!meeting) {
+      return NextResponse.json(
+        { error: "Meeting not found" },
+        { status: 404 }
+      );
+    }
+
+    // Anyone may leave a meeting; removing someone else needs a meeting manager
+    const isSelf = resolvedParams.userId === session.user.id;
+    const canManage = can(session.user, "meeting:manageParticipants", meeting);
+    if (!isSelf && !canManage) {
+      return NextResponse.json(
+        { error: "Only the meeting creator, meeting SPVs and admins can manage participants" },
+        { status: 403 }
+      );
+    }
+
+    const existingParticipant = await prisma.meetingParticipant.findUnique({
+      where: {
+        meetingId_userId: {
+          meetingId: meeting.id,
+          userId: resolvedParams.userId,
+        },
+      },
+    });
+
+    if (!existingParticipant) {
+      return NextResponse.json(
+        { error: "Participant not found" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const reassignAssigneeTo = searchParams.get("reassignAssigneeTo") || undefined;
+    const reassignReviewerTo = searchParams.get("reassignReviewerTo") || undefined;
+
+    if (!canManage && (reassignAssigneeTo || reassignReviewerTo)) {
+      return NextResponse.json(
+        { error: "Only the meeting creator, meeting SPVs and admins can choose who takes over open TTFUs" },
+        { status: 403 }
+      );
+    }
+
+    const openTTFUs = await findOpenTTFUsOf(meeting.id, resolvedParams.userId);
+    const needsAssignee = openTTFUs.some((ttfu) => ttfu.assigneeId === resolvedParams.userId);
+    const needsReviewer = openTTFUs.some((ttfu) => ttfu.reviewerId === resolvedParams.userId);
+
+    if (!canManage && openTTFUs.length > 0) {
+      return NextResponse.json(
+        {
+          error: `You still own ${openTTFUs.length} open TTFU(s). Ask a meeting manager to reassign them before you leave.`,
+          ttfus: openTTFUs,
+        },
+        { status: 409 }
+      );
+    }
+
+    if ((needsAssignee && !reassignAssigneeTo) || (needsReviewer && !reassignReviewerTo)) {
+      return NextResponse.json(
+        {
+          error: `This participant still owns ${openTTFUs.length} open TTFU(s). Choose who takes them over before removing them.`,
+          ttfus: openTTFUs,
+          needsAssignee,
+          needsReviewer,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (reassignAssigneeTo === resolvedParams.userId || reassignReviewerTo === resolvedParams.userId) {
+      return NextResponse.json(
+        { error: "Open TTFUs must be reassigned to someone else" },
+        { status: 400 }
+      );
+    }
+
+    const assignmentError = await validateAssignment(meeting.id, {
+      assigneeId: needsAssignee ? reassignAssigneeTo : undefined,
+      reviewerId: needsReviewer ? reassignReviewerTo : undefined,
+    });
+    if (assignmentError) {
+      return NextResponse.json({ error: assignmentError }, { status: 400 });
+    }
+
+    const reassigned = await prisma.$transaction(async (tx) => {
+      const count = await reassignOpenTTFUs(tx, {
+        meetingId: meeting.id,
+        fromUserId: resolvedParams.userId,
+        assigneeId: needsAssignee ? reassignAssigneeTo : undefined,
+        reviewerId: needsReviewer ? reassignReviewerTo : undefined,
+        changedById: session.user.id,
+        note: "Previous owner was removed from the meeting",
+      });
+
+      await tx.meetingParticipant.delete({ where: { id: existingParticipant.id } });
+      await recordAudit(tx, {
+        userId: session.user.id,
+        action: "PARTICIPANT_DELETE",
+        entity: "PARTICIPANT",
+        entityId: existingParticipant.id,
+        meetingId: meeting.id,
+        before: existingParticipant,
+      });
+
+      return count;
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        userId: resolvedParams.userId,
+        reassigned,
+      },
+    });
+  } catch (error) {
+    console.error("Error removing participant:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
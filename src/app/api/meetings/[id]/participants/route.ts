@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { can, loadMeetingResource } from "@/lib/policy";
+import { canJoinAs } from "@/lib/invites";
+import { z } from "zod";
+
+const addParticipantSchema = z.object({
+  userId: z.string().min(1, "User is required"),
+  role: z.enum(["spv", "reviewer", "participant"]),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const resolvedParams = await params;
+    const body = await request.json();
+    const validatedData = addParticipantSchema.parse(body);
+
+    const meeting = await loadMeetingResource(resolvedParams.id, session.user);
+
+    if (!meeting) {
+      return NextResponse.json(
+        { error: "Meeting not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, "meeting:manageParticipants", meeting)) {
+      return NextResponse.json(
+        { error: "Only the meeting creator, meeting SPVs and admins can manage participants" },
+        { status: 403 }
+      );
+    }
+
+    const user = await prisma.user.findFirst({
+      where: { id: validatedData.userId, organizationId: meeting.organizationId },
+      select: { id: true, globalRole: true, deactivatedAt: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    if (user.deactivatedAt) {
+      return NextResponse.json(
+        { error: "Deactivated users cannot be added to a meeting" },
+        { status: 400 }
+      );
+    }
+
+    // The meeting role carries SPV and reviewer rights, so it is capped by the global role as for invites
+    if (!canJoinAs(user.globalRole, validatedData.role)) {
+      return NextResponse.json(
+        { error: `This user cannot join a meeting as ${validatedData.role}` },
+        { status: 400 }
+      );
+    }
+
+    if (meeting.participants.some((p) => p.userId === validatedData.userId)) {
+      return NextResponse.json(
+        { error: "User is already a participant in this meeting" },
+        { status: 400 }
+      );
+    }
+
+    const participant = await prisma.$transaction(async (tx) => {
+      const created = await tx.meetingParticipant.create({
+        data: {
+          meetingId: meeting.id,
+          userId: validatedData.userId,
+          role: validatedData.role,
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              globalRole: true,
+            },
+          },
+        },
+      });
+
+      await recordAudit(tx, {
+        userId: session.user.id,
+        action: "PARTICIPANT_CREATE",
+        entity: "PARTICIPANT",
+        entityId: created.id,
+        meetingId: meeting.id,
+        after: created,
+      });
+
+      return created;
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: participant,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error adding participant:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
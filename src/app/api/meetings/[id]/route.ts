@@ -1,20 +1,61 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth/next";
-import { authOptions } from "@/lib/auth";
+import { requireSession } from "@/lib/session";
 import { prisma } from "@/lib/prisma";
+import { removeStoredFiles } from "@/lib/storage";
+import { recordAudit } from "@/lib/audit";
+import { can, loadMeetingResource } from "@/lib/policy";
+import { isOrganizationDepartment } from "@/lib/organizations";
+import { isValidDate } from "@/lib/utils";
+import { z } from "zod";
+
+const updateMeetingSchema = z.object({
+  title: z.string().min(1, "Title is required").optional(),
+  date: z.string().min(1, "Date is required").optional(),
+  startTime: z.string().min(1, "Start time is required").optional(),
+  endTime: z.string().min(1, "End time is required").optional(),
+  notes: z.string().optional(),
+  departmentId: z.string().nullable().optional(),
+}).refine((data) => {
+  const provided = [data.date, data.startTime, data.endTime].filter((value) => value !== undefined);
+  return provided.length === 0 || provided.length === 3;
+}, {
+  message: "Date, start time and end time must be updated together",
+  path: ["date"],
+}).refine((data) => {
+  if (!data.date || !data.startTime || !data.endTime) return true;
+  return [data.date, `${data.date}T${data.startTime}`, `${data.date}T${data.endTime}`].every(isValidDate);
+}, {
+  message: "Date, start time and end time must be a valid date and times",
+  path: ["date"],
+});
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const session = await getServerSession(authOptions as any) as { user: { id: string } } | null;
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
     }
 
     const resolvedParams = await params;
+    const resource = await loadMeetingResource(resolvedParams.id, session.user);
+
+    if (!resource) {
+      return NextResponse.json(
+        { error: "Meeting not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, "meeting:view", resource)) {
+      return NextResponse.json(
+        { error: "Only participants of this meeting can view it" },
+        { status: 403 }
+      );
+    }
+
     const meeting = await prisma.meeting.findUnique({
       where: {
         id: resolvedParams.id,
@@ -64,6 +105,11 @@ export async function GET(
                 type: true,
                 description: true,
                 createdAt: true,
+                _count: {
+                  select: {
+                    reviews: true,
+                  },
+                },
               },
             },
           },
@@ -93,3 +139,190 @@ export async function GET(
     );
   }
 }
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const resolvedParams = await params;
+    const body = await request.json();
+    const validatedData = updateMeetingSchema.parse(body);
+
+    const existingMeeting = await loadMeetingResource(resolvedParams.id, session.user);
+
+    if (!existingMeeting) {
+      return NextResponse.json(
+        { error: "Meeting not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, "meeting:update", existingMeeting)) {
+      return NextResponse.json(
+        { error: "Only the meeting creator, meeting SPVs and admins can edit this meeting" },
+        { status: 403 }
+      );
+    }
+
+    if (
+      validatedData.departmentId &&
+      !(await isOrganizationDepartment(existingMeeting.organizationId, validatedData.departmentId))
+    ) {
+      return NextResponse.json(
+        { error: "Department not found" },
+        { status: 400 }
+      );
+    }
+
+    const data: Record<string, unknown> = {};
+    if (validatedData.title !== undefined) data.title = validatedData.title;
+    if (validatedData.notes !== undefined) data.notes = validatedData.notes || null;
+    if (validatedData.departmentId !== undefined) data.departmentId = validatedData.departmentId;
+    if (validatedData.date && validatedData.startTime && validatedData.endTime) {
+      data.date = new Date(validatedData.date);
+      data.startTime = new Date(`${validatedData.date}T${validatedData.startTime}`);
+      data.endTime = new Date(`${validatedData.date}T${validatedData.endTime}`);
+    }
+
+    const meeting = await prisma.$transaction(async (tx) => {
+      const before = await tx.meeting.findUniqueOrThrow({ where: { id: resolvedParams.id } });
+      const updated = await tx.meeting.update({
+        where: { id: resolvedParams.id },
+        data,
+        include: {
+          createdBy: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              globalRole: true,
+            },
+          },
+          participants: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  email: true,
+                  globalRole: true,
+                },
+              },
+            },
+          },
+        },
+      });
+
+      await recordAudit(tx, {
+        userId: session.user.id,
+        action: "MEETING_UPDATE",
+        entity: "MEETING",
+        entityId: updated.id,
+        meetingId: updated.id,
+        before,
+        after: updated,
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: meeting,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating meeting:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const resolvedParams = await params;
+    const existingMeeting = await loadMeetingResource(resolvedParams.id, session.user);
+
+    if (!existingMeeting) {
+      return NextResponse.json(
+        { error: "Meeting not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, "meeting:delete", existingMeeting)) {
+      return NextResponse.json(
+        { error: "Only the meeting creator, meeting SPVs and admins can delete this meeting" },
+        { status: 403 }
+      );
+    }
+
+    // Count what the cascade takes with it before it is gone
+    const [deleted, files] = await prisma.$transaction(async (tx) => {
+      const where = { ttfu: { meetingId: resolvedParams.id } };
+      const [participants, ttfus, evidences, reviews, files] = await Promise.all([
+        tx.meetingParticipant.count({ where: { meetingId: resolvedParams.id } }),
+        tx.tTFU.count({ where: { meetingId: resolvedParams.id } }),
+        tx.evidence.count({ where }),
+        tx.review.count({ where: { evidence: where } }),
+        tx.evidence.findMany({
+          where: { ...where, type: "file", filePath: { not: null } },
+          select: { filePath: true },
+        }),
+      ]);
+
+      const meeting = await tx.meeting.delete({ where: { id: resolvedParams.id } });
+      const deleted = { participants, ttfus, evidences, reviews };
+
+      await recordAudit(tx, {
+        userId: session.user.id,
+        action: "MEETING_DELETE",
+        entity: "MEETING",
+        entityId: meeting.id,
+        meetingId: meeting.id,
+        before: meeting,
+        details: { deleted },
+      });
+
+      return [deleted, files] as const;
+    });
+
+    await removeStoredFiles(files.map((file) => file.filePath!));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: existingMeeting.id,
+        deleted,
+      },
+    });
+  } catch (error) {
+    console.error("Error deleting meeting:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
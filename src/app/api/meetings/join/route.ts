@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { addParticipantFromInvite, canJoinAs, claimInviteUse, findActiveInvite } from "@/lib/invites";
+import { z } from "zod";
+
+const joinMeetingSchema = z.object({
+  code: z.string().trim().min(1, "Invite code is required"),
+});
+
+const INVALID_CODE = "This invite code is invalid or has expired";
+
+// Preview of the meeting behind a code, so the user knows what they are joining
+export async function GET(request: NextRequest) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const invite = await findActiveInvite(searchParams.get("code") || "", session.user.organizationId);
+
+    if (!invite) {
+      return NextResponse.json({ error: INVALID_CODE }, { status: 404 });
+    }
+
+    const [participant, pendingRequest] = await Promise.all([
+      prisma.meetingParticipant.findUnique({
+        where: {
+          meetingId_userId: {
+            meetingId: invite.meetingId,
+            userId: session.user.id,
+          },
+        },
+        select: { id: true },
+      }),
+      prisma.joinRequest.findFirst({
+        where: { meetingId: invite.meetingId, userId: session.user.id, status: "pending" },
+        select: { id: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        meeting: invite.meeting,
+        role: invite.role,
+        requiresApproval: invite.requiresApproval,
+        expiresAt: invite.expiresAt,
+        canJoin: canJoinAs(session.user.globalRole, invite.role),
+        alreadyJoined: !!participant,
+        pendingRequest: !!pendingRequest,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching invite:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const body = await request.json();
+    const validatedData = joinMeetingSchema.parse(body);
+
+    const invite = await findActiveInvite(validatedData.code, session.user.organizationId);
+
+    if (!invite) {
+      return NextResponse.json({ error: INVALID_CODE }, { status: 404 });
+    }
+
+    if (!canJoinAs(session.user.globalRole, invite.role)) {
+      return NextResponse.json(
+        { error: `Your account cannot join a meeting as ${invite.role}` },
+        { status: 403 }
+      );
+    }
+
+    const existingParticipant = await prisma.meetingParticipant.findUnique({
+      where: {
+        meetingId_userId: {
+          meetingId: invite.meetingId,
+          userId: session.user.id,
+        },
+      },
+    });
+
+    if (existingParticipant) {
+      return NextResponse.json(
+        { error: "Already a participant in this meeting" },
+        { status: 400 }
+      );
+    }
+
+    if (invite.requiresApproval) {
+      const pendingRequest = await prisma.joinRequest.findFirst({
+        where: { meetingId: invite.meetingId, userId: session.user.id, status: "pending" },
+      });
+
+      if (pendingRequest) {
+        return NextResponse.json(
+          { error: "Your request to join this meeting is still pending" },
+          { status: 400 }
+        );
+      }
+
+      const joinRequest = await prisma.$transaction(async (tx) => {
+        if (!(await claimInviteUse(tx, invite))) {
+          return null;
+        }
+        return tx.joinRequest.create({
+          data: {
+            meetingId: invite.meetingId,
+            userId: session.user.id,
+            inviteId: invite.id,
+            role: invite.role,
+          },
+        });
+      });
+
+      if (!joinRequest) {
+        return NextResponse.json({ error: INVALID_CODE }, { status: 404 });
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: { status: joinRequest.status, meetingId: invite.meetingId, request: joinRequest },
+        },
+        { status: 202 }
+      );
+    }
+
+    const participant = await prisma.$transaction(async (tx) => {
+      if (!(await claimInviteUse(tx, invite))) {
+        return null;
+      }
+      return addParticipantFromInvite(tx, {
+        meetingId: invite.meetingId,
+        userId: session.user.id,
+        role: invite.role,
+        actorId: session.user.id,
+        details: { inviteId: invite.id },
+      });
+    });
+
+    if (!participant) {
+      return NextResponse.json({ error: INVALID_CODE }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { status: "joined", meetingId: invite.meetingId, participant },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error joining meeting:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth/next";
-import { authOptions } from "@/lib/auth";
+import { requireSession } from "@/lib/session";
 import { prisma } from "@/lib/prisma";
+import { visibleMeetingsWhere } from "@/lib/policy";
+import { areOrganizationUsers, isOrganizationDepartment } from "@/lib/organizations";
+import { recordAudit } from "@/lib/audit";
+import { emitMeetingCreated, meetingInclude } from "@/lib/webhooks";
+import { isValidDate } from "@/lib/utils";
+import { meetingDateFilter } from "@/lib/filters";
 import { z } from "zod";
 
 const createMeetingSchema = z.object({
@@ -10,67 +15,45 @@ const createMeetingSchema = z.object({
   startTime: z.string().min(1, "Start time is required"),
   endTime: z.string().min(1, "End time is required"),
   notes: z.string().optional(),
+  departmentId: z.string().nullable().optional(),
   participants: z.array(z.object({
     userId: z.string(),
     role: z.enum(["spv", "reviewer", "participant"])
   }))
+}).refine((data) => {
+  return [data.date, `${data.date}T${data.startTime}`, `${data.date}T${data.endTime}`].every(isValidDate);
+}, {
+  message: "Date, start time and end time must be a valid date and times",
+  path: ["date"],
 });
 
 export async function GET(request: NextRequest) {
   try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const session = await getServerSession(authOptions as any) as { user: { id: string } } | null;
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
     }
 
     const { searchParams } = new URL(request.url);
-    const fromDate = searchParams.get("fromDate");
-    const toDate = searchParams.get("toDate");
+    const date = meetingDateFilter(searchParams);
+    const departmentId = searchParams.get("departmentId");
     const page = parseInt(searchParams.get("page") || "1");
     const limit = parseInt(searchParams.get("limit") || "10");
     const skip = (page - 1) * limit;
 
-    const where: Record<string, unknown> = {};
+    const where: Record<string, unknown> = { ...visibleMeetingsWhere(session.user) };
     
-    if (fromDate && toDate) {
-      where.date = {
-        gte: new Date(fromDate),
-        lte: new Date(toDate),
-      };
+    if (date) {
+      where.date = date;
+    }
+    if (departmentId) {
+      where.departmentId = departmentId;
     }
 
     const [meetings, total] = await Promise.all([
       prisma.meeting.findMany({
         where,
-        include: {
-          createdBy: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              globalRole: true,
-            },
-          },
-          participants: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  name: true,
-                  email: true,
-                  globalRole: true,
-                },
-              },
-            },
-          },
-          ttfus: {
-            select: {
-              id: true,
-              status: true,
-            },
-          },
-        },
+        include: meetingInclude,
         orderBy: {
           date: "desc",
         },
@@ -93,6 +76,13 @@ export async function GET(request: NextRequest) {
       },
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
     console.error("Error fetching meetings:", error);
     return NextResponse.json(
       { error: "Internal server error" },
@@ -103,52 +93,91 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const session = await getServerSession(authOptions as any) as { user: { id: string } } | null;
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
     }
 
     const body = await request.json();
     const validatedData = createMeetingSchema.parse(body);
+    const { organizationId } = session.user;
 
-    const meeting = await prisma.meeting.create({
-      data: {
-        title: validatedData.title,
-        date: new Date(validatedData.date),
-        startTime: new Date(`${validatedData.date}T${validatedData.startTime}`),
-        endTime: new Date(`${validatedData.date}T${validatedData.endTime}`),
-        notes: validatedData.notes,
-        createdById: session.user.id,
-        participants: {
-          create: validatedData.participants.map((participant) => ({
-            userId: participant.userId,
-            role: participant.role,
-          })),
-        },
-      },
-      include: {
-        createdBy: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            globalRole: true,
+    if (!(await areOrganizationUsers(organizationId, validatedData.participants.map((p) => p.userId)))) {
+      return NextResponse.json(
+        { error: "Participants must belong to your organization" },
+        { status: 400 }
+      );
+    }
+    if (validatedData.departmentId && !(await isOrganizationDepartment(organizationId, validatedData.departmentId))) {
+      return NextResponse.json(
+        { error: "Department not found" },
+        { status: 400 }
+      );
+    }
+
+    const meeting = await prisma.$transaction(async (tx) => {
+      const created = await tx.meeting.create({
+        data: {
+          title: validatedData.title,
+          date: new Date(validatedData.date),
+          startTime: new Date(`${validatedData.date}T${validatedData.startTime}`),
+          endTime: new Date(`${validatedData.date}T${validatedData.endTime}`),
+          notes: validatedData.notes,
+          createdById: session.user.id,
+          organizationId,
+          departmentId: validatedData.departmentId ?? null,
+          participants: {
+            create: validatedData.participants.map((participant) => ({
+              userId: participant.userId,
+              role: participant.role,
+            })),
           },
         },
-        participants: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-                globalRole: true,
+        include: {
+          createdBy: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              globalRole: true,
+            },
+          },
+          participants: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  email: true,
+                  globalRole: true,
+                },
               },
             },
           },
         },
-      },
+      });
+
+      await recordAudit(tx, {
+        userId: session.user.id,
+        action: "MEETING_CREATE",
+        entity: "MEETING",
+        entityId: created.id,
+        meetingId: created.id,
+        after: created,
+      });
+      for (const participant of created.participants) {
+        await recordAudit(tx, {
+          userId: session.user.id,
+          action: "PARTICIPANT_CREATE",
+          entity: "PARTICIPANT",
+          entityId: participant.id,
+          meetingId: created.id,
+          after: participant,
+        });
+      }
+      await emitMeetingCreated(tx, created.id);
+
+      return created;
     });
 
     return NextResponse.json({
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const { count } = await prisma.notification.updateMany({
+      where: { userId: session.user.id, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { updated: count },
+    });
+  } catch (error) {
+    console.error("Error marking notifications as read:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+
+// Users and meetings of the department stay in the organization, just without a department
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; departmentId: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const { id, departmentId } = await params;
+    if (id !== session.user.organizationId) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    if (session.user.globalRole !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Only admins can manage departments" },
+        { status: 403 }
+      );
+    }
+
+    const deleted = await prisma.department.deleteMany({
+      where: { id: departmentId, organizationId: id },
+    });
+
+    if (deleted.count === 0) {
+      return NextResponse.json(
+        { error: "Department not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error("Error deleting department:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
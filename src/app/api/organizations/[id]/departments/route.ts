@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { departmentSelect } from "@/lib/organizations";
+import { z } from "zod";
+
+const createDepartmentSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+});
+
+// Departments of the organization the user is acting in; any other id is not found
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const { id } = await params;
+    if (id !== session.user.organizationId) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    const departments = await prisma.department.findMany({
+      where: { organizationId: id },
+      select: departmentSelect,
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: departments,
+    });
+  } catch (error) {
+    console.error("Error fetching departments:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const { id } = await params;
+    if (id !== session.user.organizationId) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    if (session.user.globalRole !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Only admins can manage departments" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = createDepartmentSchema.parse(body);
+
+    const existing = await prisma.department.findUnique({
+      where: { organizationId_name: { organizationId: id, name: validatedData.name } },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: "A department with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    const department = await prisma.department.create({
+      data: { organizationId: id, name: validatedData.name },
+      select: departmentSelect,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: department,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error creating department:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { organizationSelect } from "@/lib/organizations";
+import { z } from "zod";
+
+const createOrganizationSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  slug: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug may only contain lowercase letters, digits and dashes"),
+});
+
+// The organization the user is acting in with its departments; super admins get every organization
+export async function GET(request: NextRequest) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const organizations = await prisma.organization.findMany({
+      where: session.user.superAdmin ? {} : { id: session.user.organizationId },
+      select: organizationSelect,
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: organizations.map((organization) => ({
+        ...organization,
+        current: organization.id === session.user.organizationId,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching organizations:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    if (!session.user.superAdmin) {
+      return NextResponse.json(
+        { error: "Only super admins can create organizations" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = createOrganizationSchema.parse(body);
+
+    const existing = await prisma.organization.findUnique({
+      where: { slug: validatedData.slug },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: "An organization with this slug already exists" },
+        { status: 409 }
+      );
+    }
+
+    const organization = await prisma.organization.create({
+      data: validatedData,
+      select: organizationSelect,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: organization,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error creating organization:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+
+const switchOrganizationSchema = z.object({
+  organizationId: z.string().min(1, "Organization is required"),
+});
+
+// Moves this browser session into another organization. The switch is stored on the session, so other
+// devices stay where they are; it applies from the next request.
+export async function POST(request: NextRequest) {
+  try {
+    const { session, response } = await requireSession(request, { allowApiTokens: false });
+    if (response) {
+      return response;
+    }
+
+    if (!session.user.superAdmin || !session.sessionId) {
+      return NextResponse.json(
+        { error: "Only super admins can switch organizations" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { organizationId } = switchOrganizationSchema.parse(body);
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { id: true, name: true },
+    });
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.userSession.update({
+      where: { id: session.sessionId },
+      data: { organizationId: organization.id },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: organization,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error switching organization:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isPasswordLoginEnabled } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { isEmailEnabled } from "@/lib/email";
+import { sendPasswordReset } from "@/lib/passwords";
+import { clientIp, rateLimitAll } from "@/lib/rate-limit";
+import { z } from "zod";
+
+const forgotPasswordSchema = z.object({
+  email: z.email("Invalid email address").transform((email) => email.toLowerCase()),
+});
+
+const MINUTE = 60 * 1000;
+
+// The answer is the same whether or not the address has an account
+const SENT_MESSAGE = "If an active account uses this email, a reset link is on its way.";
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isPasswordLoginEnabled()) {
+      return NextResponse.json(
+        { error: "App passwords are turned off. Sign in with your company account." },
+        { status: 404 }
+      );
+    }
+
+    if (!isEmailEnabled()) {
+      return NextResponse.json(
+        { error: "Password reset by email is not available. Ask an administrator to reset your password." },
+        { status: 503 }
+      );
+    }
+
+    const body = await request.json();
+    const { email } = forgotPasswordSchema.parse(body);
+
+    const limit = rateLimitAll([
+      [`forgot-password:ip:${clientIp(request)}`, 5, 15 * MINUTE],
+      [`forgot-password:email:${email}`, 3, 60 * MINUTE],
+    ]);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: "Too many requests. Please try again later." },
+        { status: 429, headers: { "Retry-After": String(limit.retryAfterSeconds) } }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, name: true, email: true, locale: true, deactivatedAt: true },
+    });
+
+    if (user && !user.deactivatedAt) {
+      await prisma.$transaction((tx) => sendPasswordReset(tx, user));
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { message: SENT_MESSAGE },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error requesting password reset:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
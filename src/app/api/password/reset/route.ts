@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from "next/server";
+import { hashPassword, isPasswordLoginEnabled } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { revokeUserSessions } from "@/lib/user-sessions";
+import { consumePasswordToken, findPasswordToken } from "@/lib/passwords";
+import { clientIp, rateLimit } from "@/lib/rate-limit";
+import { passwordProblems, passwordSchema } from "@/lib/users";
+import { z } from "zod";
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+  password: passwordSchema,
+});
+
+const MINUTE = 60 * 1000;
+
+const INVALID_LINK = "This link is invalid or has expired";
+
+function tooManyRequests(retryAfterSeconds: number) {
+  return NextResponse.json(
+    { error: "Too many requests. Please try again later." },
+    { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+  );
+}
+
+function passwordLoginDisabled() {
+  return NextResponse.json(
+    { error: "App passwords are turned off. Sign in with your company account." },
+    { status: 404 }
+  );
+}
+
+async function loadTokenUser(userId: string) {
+  return prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, name: true, email: true, deactivatedAt: true },
+  });
+}
+
+// Lets the page greet the user and word itself as an invite or a reset
+export async function GET(request: NextRequest) {
+  try {
+    if (!isPasswordLoginEnabled()) {
+      return passwordLoginDisabled();
+    }
+
+    const limit = rateLimit(`reset-password:ip:${clientIp(request)}`, 30, 15 * MINUTE);
+    if (!limit.allowed) {
+      return tooManyRequests(limit.retryAfterSeconds);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const found = await findPasswordToken(prisma, searchParams.get("token") || "");
+    const user = found ? await loadTokenUser(found.userId) : null;
+
+    if (!found || !user || user.deactivatedAt) {
+      return NextResponse.json({ error: INVALID_LINK }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        purpose: found.purpose,
+        expires: found.expires,
+        name: user.name,
+        email: user.email,
+      },
+    });
+  } catch (error) {
+    console.error("Error checking password link:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isPasswordLoginEnabled()) {
+      return passwordLoginDisabled();
+    }
+
+    const limit = rateLimit(`reset-password:ip:${clientIp(request)}`, 30, 15 * MINUTE);
+    if (!limit.allowed) {
+      return tooManyRequests(limit.retryAfterSeconds);
+    }
+
+    const body = await request.json();
+    const { token, password } = resetPasswordSchema.parse(body);
+
+    // Checked before the token is used up, so a rejected password does not cost the link
+    const found = await findPasswordToken(prisma, token);
+    const user = found ? await loadTokenUser(found.userId) : null;
+
+    if (!found || !user || user.deactivatedAt) {
+      return NextResponse.json({ error: INVALID_LINK }, { status: 404 });
+    }
+
+    const problems = passwordProblems(password, user);
+    if (problems.length > 0) {
+      return NextResponse.json({ error: problems[0], details: problems }, { status: 400 });
+    }
+
+    const passwordHash = await hashPassword(password);
+
+    const consumed = await prisma.$transaction(async (tx) => {
+      const claimed = await consumePasswordToken(tx, token);
+      if (!claimed || claimed.userId !== user.id) {
+        return null;
+      }
+
+      // Proving control of the mailbox also lifts a sign-in lockout
+      await tx.user.update({
+        where: { id: user.id },
+        data: { passwordHash, failedLoginCount: 0, lockedUntil: null },
+      });
+      // Whoever knew the old password is signed out as well
+      await revokeUserSessions(tx, user.id);
+      await recordAudit(tx, {
+        userId: user.id,
+        action: "USER_UPDATE",
+        entity: "USER",
+        entityId: user.id,
+        details: claimed.purpose === "invite" ? { inviteAccepted: true } : { passwordReset: true },
+      });
+
+      return claimed;
+    });
+
+    if (!consumed) {
+      return NextResponse.json({ error: INVALID_LINK }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { email: user.email },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error resetting password:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
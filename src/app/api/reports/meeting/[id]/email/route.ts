@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { buildMeetingReport } from "@/lib/reports";
+import { appUrl, enqueueEmail, isEmailEnabled } from "@/lib/email";
+import { can, loadMeetingResource } from "@/lib/policy";
+
+// Queues the recap for the creator and every participant
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    if (!isEmailEnabled()) {
+      return NextResponse.json(
+        { error: "Email delivery is not configured" },
+        { status: 503 }
+      );
+    }
+
+    const resolvedParams = await params;
+    const meeting = await loadMeetingResource(resolvedParams.id, session.user);
+
+    if (!meeting) {
+      return NextResponse.json(
+        { error: "Meeting not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, "meeting:update", meeting)) {
+      return NextResponse.json(
+        { error: "Only the meeting creator, meeting SPVs and admins can send the recap" },
+        { status: 403 }
+      );
+    }
+
+    const report = await buildMeetingReport(resolvedParams.id);
+
+    if (!report) {
+      return NextResponse.json(
+        { error: "Meeting not found" },
+        { status: 404 }
+      );
+    }
+
+    const recipients = await prisma.user.findMany({
+      where: {
+        id: { in: [meeting.createdById, ...meeting.participants.map((p) => p.userId)] },
+        deactivatedAt: null,
+      },
+      select: { email: true, locale: true },
+    });
+
+    await enqueueEmail(prisma, recipients, {
+      name: "meetingRecap",
+      meetingTitle: report.meeting.title,
+      date: report.meeting.date,
+      ttfus: report.totals.ttfus,
+      overdue: report.totals.overdue,
+      byStatus: report.byStatus,
+      link: appUrl(`/meetings/${meeting.id}`),
+      pdfLink: appUrl(`/api/reports/meeting/${meeting.id}/pdf`),
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { queued: recipients.length },
+    });
+  } catch (error) {
+    console.error("Error sending meeting recap:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
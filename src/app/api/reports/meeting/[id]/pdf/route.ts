@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { buildMeetingReport } from "@/lib/reports";
+import { downloadHeaders, recapFileName, renderMeetingRecapPdf } from "@/lib/export";
+import { can, loadMeetingResource } from "@/lib/policy";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const resolvedParams = await params;
+    const meeting = await loadMeetingResource(resolvedParams.id, session.user);
+
+    if (!meeting) {
+      return NextResponse.json(
+        { error: "Meeting not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, "meeting:view", meeting)) {
+      return NextResponse.json(
+        { error: "You do not have access to this meeting" },
+        { status: 403 }
+      );
+    }
+
+    const report = await buildMeetingReport(resolvedParams.id);
+
+    if (!report) {
+      return NextResponse.json(
+        { error: "Meeting not found" },
+        { status: 404 }
+      );
+    }
+
+    const pdf = await renderMeetingRecapPdf(report);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        ...downloadHeaders(recapFileName(report.meeting, "pdf"), "application/pdf"),
+        "Content-Length": String(pdf.length),
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting meeting recap PDF:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
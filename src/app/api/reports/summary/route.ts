@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { requireSession } from "@/lib/session";
+import { buildStatusSummary } from "@/lib/reports";
+import { visibleMeetingsWhere } from "@/lib/policy";
+import { meetingDateFilter } from "@/lib/filters";
+import { z } from "zod";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const date = meetingDateFilter(searchParams);
+
+    const where: Prisma.MeetingWhereInput = { ...visibleMeetingsWhere(session.user) };
+    if (date) {
+      where.date = date;
+    }
+
+    const summary = await buildStatusSummary(where);
+
+    return NextResponse.json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error building report summary:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { activeSessionWhere, userSessionSelect } from "@/lib/user-sessions";
+
+// Signs out one of your browsers or devices; its next request finds itself signed out
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request, { allowApiTokens: false });
+    if (response) {
+      return response;
+    }
+
+    const { id } = await params;
+    const existing = await prisma.userSession.findFirst({
+      where: { id, userId: session.user.id, ...activeSessionWhere() },
+      select: userSessionSelect,
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.userSession.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+      });
+
+      await recordAudit(tx, {
+        userId: session.user.id,
+        action: "USER_UPDATE",
+        entity: "USER",
+        entityId: session.user.id,
+        details: { sessionsSignedOut: 1 },
+      });
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { ...existing, current: id === session.sessionId },
+    });
+  } catch (error) {
+    console.error("Error signing out session:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
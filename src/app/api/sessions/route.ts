@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { activeSessionWhere, revokeUserSessions, userSessionSelect } from "@/lib/user-sessions";
+
+// Your signed-in browsers and devices, most recently used first
+export async function GET(request: NextRequest) {
+  try {
+    // Only a browser session has a "this device"
+    const { session, response } = await requireSession(request, { allowApiTokens: false });
+    if (response) {
+      return response;
+    }
+
+    const sessions = await prisma.userSession.findMany({
+      where: { userId: session.user.id, ...activeSessionWhere() },
+      select: userSessionSelect,
+      orderBy: { lastSeenAt: "desc" },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: sessions.map((userSession) => ({ ...userSession, current: userSession.id === session.sessionId })),
+    });
+  } catch (error) {
+    console.error("Error fetching sessions:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Signs out every other browser and device, keeping this one
+export async function DELETE(request: NextRequest) {
+  try {
+    const { session, response } = await requireSession(request, { allowApiTokens: false });
+    if (response) {
+      return response;
+    }
+
+    const revoked = await prisma.$transaction(async (tx) => {
+      const count = await revokeUserSessions(tx, session.user.id, { exceptId: session.sessionId });
+      if (count > 0) {
+        await recordAudit(tx, {
+          userId: session.user.id,
+          action: "USER_UPDATE",
+          entity: "USER",
+          entityId: session.user.id,
+          details: { sessionsSignedOut: count },
+        });
+      }
+      return count;
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { revoked },
+    });
+  } catch (error) {
+    console.error("Error signing out other sessions:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { apiTokenSelect } from "@/lib/api-tokens";
+
+// Revokes the token; it stays in the list so its last use remains visible
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // A token may revoke itself, e.g. from a script that is being retired
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const { id } = await params;
+    const existing = await prisma.apiToken.findFirst({
+      where: { id, userId: session.user.id },
+      select: apiTokenSelect,
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "API token not found" },
+        { status: 404 }
+      );
+    }
+
+    if (existing.revokedAt) {
+      return NextResponse.json({
+        success: true,
+        data: existing,
+      });
+    }
+
+    const token = await prisma.$transaction(async (tx) => {
+      const revoked = await tx.apiToken.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+        select: apiTokenSelect,
+      });
+
+      await recordAudit(tx, {
+        userId: session.user.id,
+        action: "USER_UPDATE",
+        entity: "USER",
+        entityId: session.user.id,
+        details: { apiTokenRevoked: revoked.name },
+      });
+
+      return revoked;
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: token,
+    });
+  } catch (error) {
+    console.error("Error revoking API token:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
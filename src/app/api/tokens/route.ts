@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { API_TOKEN_SCOPES, apiTokenSelect, generateApiToken } from "@/lib/api-tokens";
+import { z } from "zod";
+
+const createTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scope: z.enum(API_TOKEN_SCOPES).default("read"),
+  // Omitted or null: the token never expires
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+// Your own tokens, including revoked and expired ones, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const { session, response } = await requireSession(request, { allowApiTokens: false });
+    if (response) {
+      return response;
+    }
+
+    const tokens = await prisma.apiToken.findMany({
+      where: { userId: session.user.id },
+      select: apiTokenSelect,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: tokens,
+    });
+  } catch (error) {
+    console.error("Error fetching API tokens:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// The token itself is only in this response
+export async function POST(request: NextRequest) {
+  try {
+    // A token could otherwise mint longer-lived or wider tokens for itself
+    const { session, response } = await requireSession(request, { allowApiTokens: false });
+    if (response) {
+      return response;
+    }
+
+    const body = await request.json();
+    const validatedData = createTokenSchema.parse(body);
+    const { token, tokenHash, prefix } = generateApiToken();
+    const expiresAt = validatedData.expiresInDays
+      ? new Date(Date.now() + validatedData.expiresInDays * 24 * 60 * 60 * 1000)
+      : null;
+
+    const created = await prisma.$transaction(async (tx) => {
+      const apiToken = await tx.apiToken.create({
+        data: {
+          userId: session.user.id,
+          name: validatedData.name,
+          scope: validatedData.scope,
+          tokenHash,
+          prefix,
+          expiresAt,
+        },
+        select: apiTokenSelect,
+      });
+
+      await recordAudit(tx, {
+        userId: session.user.id,
+        action: "USER_UPDATE",
+        entity: "USER",
+        entityId: session.user.id,
+        details: { apiTokenCreated: apiToken.name, scope: apiToken.scope },
+      });
+
+      return apiToken;
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { ...created, token },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error creating API token:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
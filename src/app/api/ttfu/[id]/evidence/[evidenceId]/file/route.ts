@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { getStorage } from "@/lib/storage";
+import { can, loadTTFUResource } from "@/lib/policy";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; evidenceId: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const resolvedParams = await params;
+    const ttfu = await loadTTFUResource(resolvedParams.id, session.user);
+
+    if (!ttfu) {
+      return NextResponse.json(
+        { error: "TTFU not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, "evidence:view", ttfu)) {
+      return NextResponse.json(
+        { error: "You do not have access to this TTFU" },
+        { status: 403 }
+      );
+    }
+
+    const evidence = await prisma.evidence.findFirst({
+      where: {
+        id: resolvedParams.evidenceId,
+        ttfuId: resolvedParams.id,
+      },
+    });
+
+    if (!evidence || evidence.type !== "file" || !evidence.filePath) {
+      return NextResponse.json(
+        { error: "Evidence file not found" },
+        { status: 404 }
+      );
+    }
+
+    const object = await getStorage().get(evidence.filePath);
+    if (!object) {
+      return NextResponse.json(
+        { error: "Evidence file not found" },
+        { status: 404 }
+      );
+    }
+
+    const fileName = evidence.fileName || "evidence";
+    const headers: Record<string, string> = {
+      "Content-Type": evidence.mimeType || object.contentType || "application/octet-stream",
+      "Content-Disposition": `inline; filename="${fileName.replace(/["\\\r\n]/g, "_")}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      "Cache-Control": "private, no-store",
+      "X-Content-Type-Options": "nosniff",
+    };
+    if (object.size !== undefined) {
+      headers["Content-Length"] = String(object.size);
+    }
+
+    return new NextResponse(object.body, { headers });
+  } catch (error) {
+    console.error("Error downloading evidence file:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
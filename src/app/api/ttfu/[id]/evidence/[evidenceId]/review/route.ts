@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth/next";
-import { authOptions } from "@/lib/auth";
+import { requireSession } from "@/lib/session";
 import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { notifyReviewPosted } from "@/lib/notifications";
+import { emitReviewCreated, emitTTFUStatusChanged } from "@/lib/webhooks";
+import { can, loadTTFUResource } from "@/lib/policy";
+import { REVIEW_OUTCOMES } from "@/lib/workflow";
 import { z } from "zod";
 
 const createReviewSchema = z.object({
@@ -14,46 +18,40 @@ export async function POST(
   { params }: { params: Promise<{ id: string; evidenceId: string }> }
 ) {
   try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const session = await getServerSession(authOptions as any) as { user: { id: string; globalRole: string } } | null;
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
     }
 
     const resolvedParams = await params;
     const body = await request.json();
     const validatedData = createReviewSchema.parse(body);
 
-    // Check if user is reviewer or admin
-    if (session.user.globalRole !== "REVIEWER" && session.user.globalRole !== "ADMIN") {
-      return NextResponse.json(
-        { error: "Only reviewers and admins can review evidence" },
-        { status: 403 }
-      );
-    }
-
-    // Check if evidence exists
-    const evidence = await prisma.evidence.findUnique({
-      where: { id: resolvedParams.evidenceId },
-      include: {
-        ttfu: {
-          select: {
-            id: true,
-            reviewerId: true,
+    // The TTFU comes first so evidence outside the user's organization or sight reads the same as missing evidence
+    const ttfu = await loadTTFUResource(resolvedParams.id, session.user);
+    const evidence = ttfu && can(session.user, "evidence:view", ttfu)
+      ? await prisma.evidence.findFirst({
+          where: {
+            id: resolvedParams.evidenceId,
+            ttfuId: ttfu.id,
           },
-        },
-      },
-    });
+          select: { id: true },
+        })
+      : null;
 
-    if (!evidence) {
+    if (!ttfu || !evidence) {
       return NextResponse.json(
         { error: "Evidence not found" },
         { status: 404 }
       );
     }
 
-    // Allow any REVIEWER or ADMIN to review evidence (not just the assigned reviewer)
-    // This gives more flexibility for review process
+    if (!can(session.user, "evidence:review", ttfu)) {
+      return NextResponse.json(
+        { error: "Only the assigned reviewer or an admin can review this evidence" },
+        { status: 403 }
+      );
+    }
 
     // Check if review already exists
     const existingReview = await prisma.review.findFirst({
@@ -70,22 +68,63 @@ export async function POST(
       );
     }
 
-    const review = await prisma.review.create({
-      data: {
-        evidenceId: resolvedParams.evidenceId,
-        reviewerId: session.user.id,
-        status: validatedData.status,
-        comment: validatedData.comment || null,
-      },
-      include: {
-        reviewer: {
-          select: {
-            id: true,
-            name: true,
-            globalRole: true,
+    const review = await prisma.$transaction(async (tx) => {
+      const created = await tx.review.create({
+        data: {
+          evidenceId: resolvedParams.evidenceId,
+          reviewerId: session.user.id,
+          status: validatedData.status,
+          comment: validatedData.comment || null,
+        },
+        include: {
+          reviewer: {
+            select: {
+              id: true,
+              name: true,
+              globalRole: true,
+            },
           },
         },
-      },
+      });
+
+      await recordAudit(tx, {
+        userId: session.user.id,
+        action: "REVIEW_CREATE",
+        entity: "REVIEW",
+        entityId: created.id,
+        meetingId: ttfu.meetingId,
+        ttfuId: ttfu.id,
+        after: created,
+      });
+
+      // Only the assigned reviewer's verdict moves the TTFU
+      const nextStatus = REVIEW_OUTCOMES[created.status];
+      const moves = created.reviewerId === ttfu.reviewerId && ttfu.status !== nextStatus;
+      if (moves) {
+        await tx.tTFU.update({
+          where: { id: ttfu.id },
+          data: { status: nextStatus },
+        });
+        await recordAudit(tx, {
+          userId: session.user.id,
+          action: "TTFU_STATUS_CHANGE",
+          entity: "TTFU",
+          entityId: ttfu.id,
+          meetingId: ttfu.meetingId,
+          ttfuId: ttfu.id,
+          before: { status: ttfu.status },
+          after: { status: nextStatus },
+          details: { reviewId: created.id },
+        });
+      }
+
+      await notifyReviewPosted(tx, ttfu, created, moves ? nextStatus : null, session.user.id);
+      await emitReviewCreated(tx, ttfu.id, created.evidenceId, created);
+      if (moves) {
+        await emitTTFUStatusChanged(tx, ttfu.id, ttfu.status, nextStatus);
+      }
+
+      return created;
     });
 
     return NextResponse.json({
@@ -113,7 +152,7 @@ export async function POST(
     console.error("Error creating review:", error);
     console.error("Error stack:", error instanceof Error ? error.stack : "No stack trace");
     return NextResponse.json(
-      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { error: "Internal server error" },
       { status: 500 }
     );
   }
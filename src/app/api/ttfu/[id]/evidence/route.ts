@@ -1,43 +1,37 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth/next";
-import { authOptions } from "@/lib/auth";
+import { requireSession } from "@/lib/session";
 import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { notifyEvidenceSubmitted } from "@/lib/notifications";
+import { emitEvidenceSubmitted, emitTTFUStatusChanged } from "@/lib/webhooks";
+import { getStorage, validateUpload, buildEvidenceKey, removeStoredFiles, uploadContentType } from "@/lib/storage";
+import { can, loadTTFUResource } from "@/lib/policy";
 import { z } from "zod";
 
+// JSON bodies carry link evidence; file evidence is uploaded as multipart/form-data
 const createEvidenceSchema = z.object({
-  type: z.enum(["link", "file"]),
-  url: z.string().url().optional(),
-  filePath: z.string().optional(),
+  type: z.literal("link"),
+  url: z.string().url("URL is required for link evidence"),
   description: z.string().optional(),
-}).refine((data) => {
-  if (data.type === "link") {
-    return data.url && data.url.length > 0;
-  }
-  return true;
-}, {
-  message: "URL is required for link evidence",
-  path: ["url"],
 });
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  // Set once the upload is stored, so a failure after that does not leave the file behind
+  let storedKey: string | null = null;
+
   try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const session = await getServerSession(authOptions as any) as { user: { id: string } } | null;
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
     }
 
     const resolvedParams = await params;
-    const body = await request.json();
-    const validatedData = createEvidenceSchema.parse(body);
 
     // Check if TTFU exists
-    const ttfu = await prisma.tTFU.findUnique({
-      where: { id: resolvedParams.id },
-    });
+    const ttfu = await loadTTFUResource(resolvedParams.id, session.user);
 
     if (!ttfu) {
       return NextResponse.json(
@@ -46,50 +40,135 @@ export async function POST(
       );
     }
 
-    // Validate evidence data based on type
-    if (validatedData.type === "link" && !validatedData.url) {
+    if (!can(session.user, "evidence:create", ttfu)) {
       return NextResponse.json(
-        { error: "URL is required for link evidence" },
-        { status: 400 }
+        { error: "Only the assignee can submit evidence for this TTFU" },
+        { status: 403 }
       );
     }
 
-    if (validatedData.type === "file" && !validatedData.filePath) {
-      return NextResponse.json(
-        { error: "File path is required for file evidence" },
-        { status: 400 }
-      );
+    let data: {
+      type: "link" | "file";
+      url?: string;
+      filePath?: string;
+      fileName?: string;
+      mimeType?: string;
+      fileSize?: number;
+      description?: string;
+    };
+
+    if (request.headers.get("content-type")?.startsWith("multipart/form-data")) {
+      const formData = await request.formData();
+      const file = formData.get("file");
+      const description = formData.get("description");
+
+      if (!(file instanceof File)) {
+        return NextResponse.json(
+          { error: "File is required for file evidence" },
+          { status: 400 }
+        );
+      }
+
+      const uploadError = validateUpload(file);
+      if (uploadError) {
+        return NextResponse.json({ error: uploadError }, { status: 400 });
+      }
+
+      const bytes = Buffer.from(await file.arrayBuffer());
+      const contentType = uploadContentType(file.type, bytes);
+      if (!contentType) {
+        return NextResponse.json(
+          { error: `File type ${file.type || "unknown"} is not allowed, or the file's content does not match it` },
+          { status: 400 }
+        );
+      }
+
+      const key = buildEvidenceKey(ttfu.id, file.name);
+      await getStorage().put(key, bytes, contentType);
+      storedKey = key;
+
+      data = {
+        type: "file",
+        filePath: key,
+        fileName: file.name,
+        mimeType: contentType,
+        fileSize: file.size,
+        description: typeof description === "string" ? description : undefined,
+      };
+    } else {
+      const body = await request.json();
+      data = createEvidenceSchema.parse(body);
     }
 
-    const evidence = await prisma.evidence.create({
-      data: {
-        ttfuId: resolvedParams.id,
-        type: validatedData.type,
-        url: validatedData.url || null,
-        filePath: validatedData.filePath || null,
-        description: validatedData.description || null,
-        submittedById: session.user.id,
-      },
-      include: {
-        submittedBy: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            globalRole: true,
-          },
+    const evidence = await prisma.$transaction(async (tx) => {
+      const created = await tx.evidence.create({
+        data: {
+          ttfuId: resolvedParams.id,
+          type: data.type,
+          url: data.url || null,
+          filePath: data.filePath || null,
+          fileName: data.fileName || null,
+          mimeType: data.mimeType || null,
+          fileSize: data.fileSize ?? null,
+          description: data.description || null,
+          submittedById: session.user.id,
         },
-        reviews: {
-          include: {
-            reviewer: {
-              select: {
-                id: true,
-                name: true,
+        include: {
+          submittedBy: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              globalRole: true,
+            },
+          },
+          reviews: {
+            include: {
+              reviewer: {
+                select: {
+                  id: true,
+                  name: true,
+                },
               },
             },
           },
         },
-      },
+      });
+
+      await recordAudit(tx, {
+        userId: session.user.id,
+        action: "EVIDENCE_CREATE",
+        entity: "EVIDENCE",
+        entityId: created.id,
+        meetingId: ttfu.meetingId,
+        ttfuId: created.ttfuId,
+        after: created,
+      });
+
+      // The first evidence starts the work
+      const started = await tx.tTFU.updateMany({
+        where: { id: ttfu.id, status: "OPEN" },
+        data: { status: "IN_PROGRESS" },
+      });
+      if (started.count > 0) {
+        await recordAudit(tx, {
+          userId: session.user.id,
+          action: "TTFU_STATUS_CHANGE",
+          entity: "TTFU",
+          entityId: ttfu.id,
+          meetingId: ttfu.meetingId,
+          ttfuId: ttfu.id,
+          before: { status: "OPEN" },
+          after: { status: "IN_PROGRESS" },
+          details: { evidenceId: created.id },
+        });
+        await emitTTFUStatusChanged(tx, ttfu.id, "OPEN", "IN_PROGRESS");
+      }
+
+      await notifyEvidenceSubmitted(tx, ttfu, created, session.user.id);
+      await emitEvidenceSubmitted(tx, ttfu.id, created);
+
+      return created;
     });
 
     return NextResponse.json({
@@ -97,6 +176,10 @@ export async function POST(
       data: evidence,
     });
   } catch (error) {
+    if (storedKey) {
+      await removeStoredFiles([storedKey]);
+    }
+
     if (error instanceof z.ZodError) {
       console.error("Validation error:", error.issues);
       return NextResponse.json(
@@ -117,7 +200,7 @@ export async function POST(
     console.error("Error creating evidence:", error);
     console.error("Error stack:", error instanceof Error ? error.stack : "No stack trace");
     return NextResponse.json(
-      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { error: "Internal server error" },
       { status: 500 }
     );
   }
@@ -1,21 +1,53 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth/next";
-import { authOptions } from "@/lib/auth";
+import { requireSession } from "@/lib/session";
 import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { notifyAssigned, notifyStatusChanged } from "@/lib/notifications";
+import { emitTTFUStatusChanged, emitTTFUUpdated } from "@/lib/webhooks";
+import { removeStoredFiles } from "@/lib/storage";
+import { validateAssignment } from "@/lib/assignment";
+import { canTransition, isAssigneeTransition } from "@/lib/workflow";
+import { can, loadTTFUResource } from "@/lib/policy";
+import { isValidDate } from "@/lib/utils";
 import { z } from "zod";
 
+const updateTTFUSchema = z.object({
+  title: z.string().min(1, "Title is required").optional(),
+  description: z.string().nullable().optional(),
+  assigneeId: z.string().min(1).optional(),
+  reviewerId: z.string().min(1).optional(),
+  // An empty due date means none
+  dueDate: z.string().refine((value) => value === "" || isValidDate(value), "Invalid due date").nullable().optional(),
+  status: z.enum(["OPEN", "IN_PROGRESS", "DONE", "REJECTED"]).optional(),
+  notes: z.string().optional(),
+});
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const session = await getServerSession(authOptions as any) as { user: { id: string } } | null;
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
     }
 
     const resolvedParams = await params;
+    const resource = await loadTTFUResource(resolvedParams.id, session.user);
+
+    if (!resource) {
+      return NextResponse.json(
+        { error: "TTFU not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, "ttfu:view", resource)) {
+      return NextResponse.json(
+        { error: "You do not have access to this TTFU" },
+        { status: 403 }
+      );
+    }
 
     const ttfu = await prisma.tTFU.findUnique({
       where: {
@@ -27,6 +59,20 @@ export async function GET(
             id: true,
             title: true,
             date: true,
+            createdById: true,
+            participants: {
+              select: {
+                userId: true,
+                role: true,
+                user: {
+                  select: {
+                    id: true,
+                    name: true,
+                    email: true,
+                  },
+                },
+              },
+            },
           },
         },
         assignee: {
@@ -69,6 +115,31 @@ export async function GET(
             createdAt: "desc",
           },
         },
+        reassignments: {
+          include: {
+            fromUser: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+            toUser: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+            changedBy: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+          orderBy: {
+            createdAt: "desc",
+          },
+        },
       },
     });
 
@@ -97,27 +168,17 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const session = await getServerSession(authOptions as any) as { user: { id: string } } | null;
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
     }
 
     const resolvedParams = await params;
     const body = await request.json();
-
-    // Validate input
-    const updateSchema = z.object({
-      status: z.enum(["OPEN", "IN_PROGRESS", "DONE", "REJECTED"]),
-      notes: z.string().optional(),
-    });
-
-    const validatedData = updateSchema.parse(body);
+    const validatedData = updateTTFUSchema.parse(body);
 
     // Check if TTFU exists
-    const existingTTFU = await prisma.tTFU.findUnique({
-      where: { id: resolvedParams.id },
-    });
+    const existingTTFU = await loadTTFUResource(resolvedParams.id, session.user);
 
     if (!existingTTFU) {
       return NextResponse.json(
@@ -126,61 +187,174 @@ export async function PATCH(
       );
     }
 
-    // Update TTFU status
-    const updatedTTFU = await prisma.tTFU.update({
-      where: { id: resolvedParams.id },
-      data: {
-        status: validatedData.status,
-      },
-      include: {
-        meeting: {
-          select: {
-            id: true,
-            title: true,
-            date: true,
+    // Assignee and reviewer may move the status; everything else needs a meeting manager
+    const { status, notes, ...fields } = validatedData;
+
+    if (Object.keys(fields).length > 0 && !can(session.user, "ttfu:update", existingTTFU)) {
+      return NextResponse.json(
+        { error: "Only the meeting creator, meeting SPVs and admins can edit this TTFU" },
+        { status: 403 }
+      );
+    }
+
+    if (status !== undefined && !can(session.user, "ttfu:changeStatus", existingTTFU)) {
+      return NextResponse.json(
+        { error: "Only the assignee, reviewer or a meeting manager can change the status" },
+        { status: 403 }
+      );
+    }
+
+    if (
+      status !== undefined &&
+      !isAssigneeTransition(existingTTFU.status, status) &&
+      !can(session.user, "ttfu:decide", existingTTFU)
+    ) {
+      return NextResponse.json(
+        { error: "Only the reviewer or a meeting manager can close or reopen a TTFU" },
+        { status: 403 }
+      );
+    }
+
+    if (status !== undefined && !canTransition(existingTTFU.status, status)) {
+      return NextResponse.json(
+        { error: `Cannot change status from ${existingTTFU.status} to ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const reassignments: Array<{ role: "assignee" | "reviewer"; fromUserId: string; toUserId: string }> = [];
+    if (fields.assigneeId && fields.assigneeId !== existingTTFU.assigneeId) {
+      reassignments.push({ role: "assignee", fromUserId: existingTTFU.assigneeId, toUserId: fields.assigneeId });
+    }
+    if (fields.reviewerId && fields.reviewerId !== existingTTFU.reviewerId) {
+      reassignments.push({ role: "reviewer", fromUserId: existingTTFU.reviewerId, toUserId: fields.reviewerId });
+    }
+
+    const assignmentError = await validateAssignment(existingTTFU.meetingId, {
+      assigneeId: reassignments.find((r) => r.role === "assignee")?.toUserId,
+      reviewerId: reassignments.find((r) => r.role === "reviewer")?.toUserId,
+    });
+    if (assignmentError) {
+      return NextResponse.json({ error: assignmentError }, { status: 400 });
+    }
+
+    const data: Record<string, unknown> = {};
+    if (fields.title !== undefined) data.title = fields.title;
+    if (fields.description !== undefined) data.description = fields.description || null;
+    if (fields.assigneeId !== undefined) data.assigneeId = fields.assigneeId;
+    if (fields.reviewerId !== undefined) data.reviewerId = fields.reviewerId;
+    if (fields.dueDate !== undefined) data.dueDate = fields.dueDate ? new Date(fields.dueDate) : null;
+    // A moved due date starts the reminders and escalations over
+    if (fields.dueDate !== undefined && (data.dueDate as Date | null)?.getTime() !== existingTTFU.dueDate?.getTime()) {
+      Object.assign(data, {
+        reminderSentAt: null,
+        overdueAt: null,
+        escalatedToSpvAt: null,
+        escalatedToAdminAt: null,
+      });
+    }
+    if (status !== undefined) data.status = status;
+
+    const updatedTTFU = await prisma.$transaction(async (tx) => {
+      const before = await tx.tTFU.findUniqueOrThrow({ where: { id: resolvedParams.id } });
+      const updated = await tx.tTFU.update({
+        where: { id: resolvedParams.id },
+        data,
+        include: {
+          meeting: {
+            select: {
+              id: true,
+              title: true,
+              date: true,
+            },
           },
-        },
-        assignee: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            globalRole: true,
+          assignee: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              globalRole: true,
+            },
           },
-        },
-        reviewer: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            globalRole: true,
+          reviewer: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              globalRole: true,
+            },
           },
-        },
-        evidences: {
-          include: {
-            submittedBy: {
-              select: {
-                id: true,
-                name: true,
-                globalRole: true,
+          evidences: {
+            include: {
+              submittedBy: {
+                select: {
+                  id: true,
+                  name: true,
+                  globalRole: true,
+                },
               },
-            },
-            reviews: {
-              include: {
-                reviewer: {
-                  select: {
-                    id: true,
-                    name: true,
+              reviews: {
+                include: {
+                  reviewer: {
+                    select: {
+                      id: true,
+                      name: true,
+                    },
                   },
                 },
               },
             },
-          },
-          orderBy: {
-            createdAt: "desc",
+            orderBy: {
+              createdAt: "desc",
+            },
           },
         },
-      },
+      });
+
+      await tx.ttfuReassignment.createMany({
+        data: reassignments.map((reassignment) => ({
+          ...reassignment,
+          ttfuId: resolvedParams.id,
+          changedById: session.user.id,
+          note: notes || null,
+        })),
+      });
+
+      // Status moves get their own entry so the status trail can be read on its own
+      const { status: statusBefore, ...fieldsBefore } = before;
+      const { status: statusAfter, ...fieldsAfter } = updated;
+      const target = {
+        userId: session.user.id,
+        entity: "TTFU",
+        entityId: updated.id,
+        meetingId: updated.meetingId,
+        ttfuId: updated.id,
+      } as const;
+
+      await recordAudit(tx, {
+        ...target,
+        action: "TTFU_UPDATE",
+        before: fieldsBefore,
+        after: fieldsAfter,
+        details: notes ? { notes } : undefined,
+      });
+      await recordAudit(tx, {
+        ...target,
+        action: "TTFU_STATUS_CHANGE",
+        before: { status: statusBefore },
+        after: { status: statusAfter },
+      });
+
+      await notifyAssigned(tx, updated, reassignments.map((r) => r.role), session.user.id);
+      if (statusBefore !== statusAfter) {
+        await notifyStatusChanged(tx, updated, statusBefore, statusAfter, session.user.id);
+        await emitTTFUStatusChanged(tx, updated.id, statusBefore, statusAfter);
+      }
+      if (Object.keys(fields).length > 0) {
+        await emitTTFUUpdated(tx, updated.id);
+      }
+
+      return updated;
     });
 
     return NextResponse.json({
@@ -203,3 +377,87 @@ export async function PATCH(
     );
   }
 }
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const resolvedParams = await params;
+    const existingTTFU = await loadTTFUResource(resolvedParams.id, session.user);
+
+    if (!existingTTFU) {
+      return NextResponse.json(
+        { error: "TTFU not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, "ttfu:delete", existingTTFU)) {
+      return NextResponse.json(
+        { error: "Only the meeting creator, meeting SPVs and admins can delete this TTFU" },
+        { status: 403 }
+      );
+    }
+
+    const evidences = await prisma.evidence.findMany({
+      where: { ttfuId: resolvedParams.id },
+      select: {
+        filePath: true,
+        _count: {
+          select: {
+            reviews: true,
+          },
+        },
+      },
+    });
+
+    const deleted = {
+      evidences: evidences.length,
+      reviews: evidences.reduce((sum, evidence) => sum + evidence._count.reviews, 0),
+    };
+
+    await prisma.$transaction(async (tx) => {
+      const ttfu = await tx.tTFU.delete({
+        where: { id: resolvedParams.id },
+      });
+
+      await recordAudit(tx, {
+        userId: session.user.id,
+        action: "TTFU_DELETE",
+        entity: "TTFU",
+        entityId: ttfu.id,
+        meetingId: ttfu.meetingId,
+        ttfuId: ttfu.id,
+        before: ttfu,
+        details: { deleted },
+      });
+    });
+
+    await removeStoredFiles(
+      evidences
+        .map((evidence) => evidence.filePath)
+        .filter((filePath): filePath is string => !!filePath)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: existingTTFU.id,
+        meetingId: existingTTFU.meetingId,
+        deleted,
+      },
+    });
+  } catch (error) {
+    console.error("Error deleting TTFU:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
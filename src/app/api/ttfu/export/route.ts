@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { ttfuFiltersWhere } from "@/lib/filters";
+import { downloadHeaders, EVIDENCE_SHEET, streamCsv, streamXlsx, TTFU_SHEET } from "@/lib/export";
+import { z } from "zod";
+
+const exportQuerySchema = z.object({
+  format: z.enum(["xlsx", "csv"]).default("xlsx"),
+  // CSV has no sheets, so the evidence & reviews sheet is a separate download
+  sheet: z.enum(["ttfus", "evidence"]).default("ttfus"),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { format, sheet } = exportQuerySchema.parse({
+      format: searchParams.get("format") ?? undefined,
+      sheet: searchParams.get("sheet") ?? undefined,
+    });
+    const where = ttfuFiltersWhere(session.user, searchParams);
+    const today = new Date().toISOString().slice(0, 10);
+
+    if (format === "csv") {
+      const csvSheet = sheet === "evidence" ? EVIDENCE_SHEET : TTFU_SHEET;
+      return new NextResponse(streamCsv(csvSheet, where), {
+        headers: downloadHeaders(`ttfu-export-${sheet}-${today}.csv`, "text/csv; charset=utf-8"),
+      });
+    }
+
+    return new NextResponse(streamXlsx([TTFU_SHEET, EVIDENCE_SHEET], where), {
+      headers: downloadHeaders(
+        `ttfu-export-${today}.xlsx`,
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+      ),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error exporting TTFUs:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
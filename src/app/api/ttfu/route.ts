@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth/next";
-import { authOptions } from "@/lib/auth";
+import { requireSession } from "@/lib/session";
 import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { notifyAssigned } from "@/lib/notifications";
+import { resolveAssignment, validateAssignment } from "@/lib/assignment";
+import { can, loadMeetingResource } from "@/lib/policy";
+import { ttfuFiltersWhere } from "@/lib/filters";
+import { emitTTFUCreated, ttfuInclude } from "@/lib/webhooks";
+import { isValidDate } from "@/lib/utils";
 import { z } from "zod";
 
 const createTTFUSchema = z.object({
@@ -10,75 +16,28 @@ const createTTFUSchema = z.object({
   description: z.string().optional(),
   assigneeId: z.string().optional(),
   reviewerId: z.string().optional(),
-  dueDate: z.string().optional(),
+  // An empty due date means none
+  dueDate: z.string().refine((value) => value === "" || isValidDate(value), "Invalid due date").optional(),
 });
 
 export async function GET(request: NextRequest) {
   try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const session = await getServerSession(authOptions as any) as { user: { id: string } } | null;
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
     }
 
     const { searchParams } = new URL(request.url);
-    const meetingId = searchParams.get("meetingId");
-    const status = searchParams.get("status");
-    const assigneeId = searchParams.get("assigneeId");
-    const reviewerId = searchParams.get("reviewerId");
     const page = parseInt(searchParams.get("page") || "1");
     const limit = parseInt(searchParams.get("limit") || "10");
     const skip = (page - 1) * limit;
 
-    const where: Record<string, unknown> = {};
-    
-    if (meetingId) where.meetingId = meetingId;
-    if (status) where.status = status;
-    if (assigneeId) where.assigneeId = assigneeId;
-    if (reviewerId) where.reviewerId = reviewerId;
+    const where = ttfuFiltersWhere(session.user, searchParams);
 
     const [ttfus, total] = await Promise.all([
       prisma.tTFU.findMany({
         where,
-        include: {
-          meeting: {
-            select: {
-              id: true,
-              title: true,
-              date: true,
-            },
-          },
-          assignee: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              globalRole: true,
-            },
-          },
-          reviewer: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              globalRole: true,
-            },
-          },
-          evidences: {
-            include: {
-              reviews: {
-                include: {
-                  reviewer: {
-                    select: {
-                      id: true,
-                      name: true,
-                    },
-                  },
-                },
-              },
-            },
-          },
-        },
+        include: ttfuInclude,
         orderBy: {
           createdAt: "desc",
         },
@@ -101,6 +60,13 @@ export async function GET(request: NextRequest) {
       },
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
     console.error("Error fetching TTFUs:", error);
     return NextResponse.json(
       { error: "Internal server error" },
@@ -111,87 +77,99 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const session = await getServerSession(authOptions as any) as { user: { id: string } } | null;
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
     }
 
     const body = await request.json();
     const validatedData = createTTFUSchema.parse(body);
 
-    // Get current user info for auto assignment
-    const currentUser = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      select: { id: true, globalRole: true }
-    });
+    const meeting = await loadMeetingResource(validatedData.meetingId, session.user);
+
+    if (!meeting) {
+      return NextResponse.json(
+        { error: "Meeting not found" },
+        { status: 404 }
+      );
+    }
 
-    // Auto assignment logic
-    let assigneeId = validatedData.assigneeId;
-    let reviewerId = validatedData.reviewerId;
+    if (!can(session.user, "ttfu:create", meeting)) {
+      return NextResponse.json(
+        { error: "Only the meeting creator, meeting SPVs and admins can create TTFUs" },
+        { status: 403 }
+      );
+    }
 
-    if (!assigneeId || !reviewerId) {
-      if (currentUser?.globalRole === "SPV" || currentUser?.globalRole === "USER") {
-        // Supervisor and User become assignee
-        assigneeId = currentUser.id;
-        
-        // Find a reviewer or admin for reviewer
-        const reviewer = await prisma.user.findFirst({
-          where: {
-            globalRole: { in: ["REVIEWER", "ADMIN"] }
-          },
-          select: { id: true }
-        });
-        reviewerId = reviewer?.id || currentUser.id;
-      } else {
-        // For reviewer/admin, they can assign to themselves
-        assigneeId = assigneeId || currentUser?.id || "";
-        reviewerId = reviewerId || currentUser?.id || "";
-      }
+    const assignmentError = await validateAssignment(meeting.id, validatedData);
+    if (assignmentError) {
+      return NextResponse.json({ error: assignmentError }, { status: 400 });
     }
 
-    // Validate that we have valid IDs
+    // Fallback rules only apply to whichever side was left unchosen
+    const { assigneeId, reviewerId } = await resolveAssignment(
+      meeting.id,
+      session.user.id,
+      validatedData
+    );
+
     if (!assigneeId || !reviewerId) {
       return NextResponse.json(
-        { error: "Unable to assign TTFU. No valid assignee or reviewer found." },
+        { error: "Unable to assign TTFU. Choose an assignee and a reviewer from the meeting participants." },
         { status: 400 }
       );
     }
 
-    const ttfu = await prisma.tTFU.create({
-      data: {
-        meetingId: validatedData.meetingId,
-        title: validatedData.title,
-        description: validatedData.description,
-        assigneeId: assigneeId!,
-        reviewerId: reviewerId!,
-        dueDate: validatedData.dueDate ? new Date(validatedData.dueDate) : null,
-      },
-      include: {
-        meeting: {
-          select: {
-            id: true,
-            title: true,
-            date: true,
-          },
+    const ttfu = await prisma.$transaction(async (tx) => {
+      const created = await tx.tTFU.create({
+        data: {
+          meetingId: validatedData.meetingId,
+          title: validatedData.title,
+          description: validatedData.description,
+          assigneeId,
+          reviewerId,
+          dueDate: validatedData.dueDate ? new Date(validatedData.dueDate) : null,
         },
-        assignee: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            globalRole: true,
+        include: {
+          meeting: {
+            select: {
+              id: true,
+              title: true,
+              date: true,
+            },
           },
-        },
-        reviewer: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            globalRole: true,
+          assignee: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              globalRole: true,
+            },
+          },
+          reviewer: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              globalRole: true,
+            },
           },
         },
-      },
+      });
+
+      await recordAudit(tx, {
+        userId: session.user.id,
+        action: "TTFU_CREATE",
+        entity: "TTFU",
+        entityId: created.id,
+        meetingId: created.meetingId,
+        ttfuId: created.id,
+        after: created,
+      });
+      await notifyAssigned(tx, created, ["assignee", "reviewer"], session.user.id);
+      await emitTTFUCreated(tx, created.id);
+
+      return created;
     });
 
     return NextResponse.json({
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { rateLimit } from "@/lib/rate-limit";
+import { generateBackupCodes, verifySecondFactor } from "@/lib/two-factor";
+import { z } from "zod";
+
+const regenerateSchema = z.object({
+  code: z.string().trim().min(1, "Code is required"),
+});
+
+// A new set of backup codes; the old ones stop working
+export async function POST(request: NextRequest) {
+  try {
+    // Account security is managed from the browser only, never with an API token
+    const { session, response } = await requireSession(request, { allowApiTokens: false });
+    if (response) {
+      return response;
+    }
+
+    const body = await request.json();
+    const { code } = regenerateSchema.parse(body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, totpSecret: true, totpEnabledAt: true, totpLastStep: true },
+    });
+
+    if (!user?.totpEnabledAt) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is not enabled" },
+        { status: 400 }
+      );
+    }
+
+    const limit = rateLimit(`two-factor:${user.id}`, 10, 15 * 60 * 1000);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: "Too many attempts. Please try again later." },
+        { status: 429, headers: { "Retry-After": String(limit.retryAfterSeconds) } }
+      );
+    }
+
+    if (!(await verifySecondFactor(prisma, user, code))) {
+      return NextResponse.json(
+        { error: "Invalid authentication code" },
+        { status: 400 }
+      );
+    }
+
+    const backupCodes = await prisma.$transaction(async (tx) => {
+      const codes = await generateBackupCodes(tx, user.id);
+      await recordAudit(tx, {
+        userId: user.id,
+        action: "USER_UPDATE",
+        entity: "USER",
+        entityId: user.id,
+        details: { backupCodesRegenerated: true },
+      });
+      return codes;
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { backupCodes },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error regenerating backup codes:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { rateLimit } from "@/lib/rate-limit";
+import { disableTwoFactor, isTwoFactorRequired, verifySecondFactor } from "@/lib/two-factor";
+import { z } from "zod";
+
+const disableSchema = z.object({
+  code: z.string().trim().min(1, "Code is required"),
+});
+
+// Turning two-factor off takes a current code or backup code, not just a live session
+export async function POST(request: NextRequest) {
+  try {
+    // Account security is managed from the browser only, never with an API token
+    const { session, response } = await requireSession(request, { allowApiTokens: false });
+    if (response) {
+      return response;
+    }
+
+    const body = await request.json();
+    const { code } = disableSchema.parse(body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, globalRole: true, totpSecret: true, totpEnabledAt: true, totpLastStep: true },
+    });
+
+    if (!user?.totpEnabledAt) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is not enabled" },
+        { status: 400 }
+      );
+    }
+
+    if (isTwoFactorRequired(user.globalRole)) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is required for your role" },
+        { status: 403 }
+      );
+    }
+
+    const limit = rateLimit(`two-factor:${user.id}`, 10, 15 * 60 * 1000);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: "Too many attempts. Please try again later." },
+        { status: 429, headers: { "Retry-After": String(limit.retryAfterSeconds) } }
+      );
+    }
+
+    if (!(await verifySecondFactor(prisma, user, code))) {
+      return NextResponse.json(
+        { error: "Invalid authentication code" },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await disableTwoFactor(tx, user.id);
+      await recordAudit(tx, {
+        userId: user.id,
+        action: "USER_UPDATE",
+        entity: "USER",
+        entityId: user.id,
+        details: { twoFactorDisabled: true },
+      });
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { enabled: false },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error disabling two-factor:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
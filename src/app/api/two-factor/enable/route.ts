@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { twoFactorEnrollee } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { clientIp, rateLimit } from "@/lib/rate-limit";
+import { generateBackupCodes, verifyTotp } from "@/lib/two-factor";
+import { ACCOUNT_LOCKED, TOO_MANY_ATTEMPTS } from "@/lib/users";
+import { z } from "zod";
+
+const enableSchema = z.object({
+  code: z.string().trim().min(1, "Code is required"),
+  email: z.string().optional(),
+  password: z.string().optional(),
+});
+
+// Confirms enrollment with a code from the app and hands out the backup codes, once
+export async function POST(request: NextRequest) {
+  try {
+    const limit = rateLimit(`two-factor-enable:ip:${clientIp(request)}`, 10, 15 * 60 * 1000);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: "Too many requests. Please try again later." },
+        { status: 429, headers: { "Retry-After": String(limit.retryAfterSeconds) } }
+      );
+    }
+
+    const body = await request.json();
+    const { code, ...credentials } = enableSchema.parse(body);
+
+    const user = await twoFactorEnrollee(credentials, request.headers);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (user.totpEnabledAt) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is already enabled" },
+        { status: 409 }
+      );
+    }
+
+    if (!user.totpSecret) {
+      return NextResponse.json(
+        { error: "Start two-factor setup first" },
+        { status: 400 }
+      );
+    }
+
+    const step = verifyTotp(user.totpSecret, code, null);
+    if (step === null) {
+      return NextResponse.json(
+        { error: "Invalid authentication code" },
+        { status: 400 }
+      );
+    }
+
+    const backupCodes = await prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: user.id },
+        data: { totpEnabledAt: new Date(), totpLastStep: step },
+      });
+      const codes = await generateBackupCodes(tx, user.id);
+
+      await recordAudit(tx, {
+        userId: user.id,
+        action: "USER_UPDATE",
+        entity: "USER",
+        entityId: user.id,
+        details: { twoFactorEnabled: true },
+      });
+
+      return codes;
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { backupCodes },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Thrown by the password check when not signed in
+    if (error instanceof Error && (error.message === TOO_MANY_ATTEMPTS || error.message === ACCOUNT_LOCKED)) {
+      return NextResponse.json(
+        { error: "Too many failed sign-ins. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    console.error("Error enabling two-factor:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
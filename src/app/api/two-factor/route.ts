@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { isTwoFactorRequired } from "@/lib/two-factor";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: {
+        globalRole: true,
+        totpEnabledAt: true,
+        _count: { select: { backupCodes: { where: { usedAt: null } } } },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        enabled: !!user.totpEnabledAt,
+        enabledAt: user.totpEnabledAt,
+        required: isTwoFactorRequired(user.globalRole),
+        backupCodesRemaining: user._count.backupCodes,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching two-factor status:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
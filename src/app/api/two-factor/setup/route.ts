@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { twoFactorEnrollee } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { clientIp, rateLimit } from "@/lib/rate-limit";
+import { generateTotpSecret, totpEnrollment } from "@/lib/two-factor";
+import { ACCOUNT_LOCKED, TOO_MANY_ATTEMPTS } from "@/lib/users";
+import { z } from "zod";
+
+// email and password are only needed when not signed in, see twoFactorEnrollee
+const setupSchema = z.object({
+  email: z.string().optional(),
+  password: z.string().optional(),
+});
+
+// Starts enrollment with a new secret; two-factor is only switched on once a code from it is confirmed
+export async function POST(request: NextRequest) {
+  try {
+    const limit = rateLimit(`two-factor-setup:ip:${clientIp(request)}`, 10, 15 * 60 * 1000);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: "Too many requests. Please try again later." },
+        { status: 429, headers: { "Retry-After": String(limit.retryAfterSeconds) } }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const credentials = setupSchema.parse(body);
+
+    const user = await twoFactorEnrollee(credentials, request.headers);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (user.totpEnabledAt) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is already enabled" },
+        { status: 409 }
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { totpSecret: secret, totpLastStep: null },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: await totpEnrollment(secret, user.email),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Thrown by the password check when not signed in
+    if (error instanceof Error && (error.message === TOO_MANY_ATTEMPTS || error.message === ACCOUNT_LOCKED)) {
+      return NextResponse.json(
+        { error: "Too many failed sign-ins. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    console.error("Error starting two-factor setup:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isPasswordLoginEnabled } from "@/lib/auth";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { isEmailEnabled } from "@/lib/email";
+import { sendInvite } from "@/lib/passwords";
+import { rateLimit } from "@/lib/rate-limit";
+
+// Sends a fresh invite link to a user who has not chosen a password yet; the old link stops working
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    if (session.user.globalRole !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Only admins can manage users" },
+        { status: 403 }
+      );
+    }
+
+    if (!isPasswordLoginEnabled()) {
+      return NextResponse.json(
+        { error: "App passwords are turned off; users sign in with their company account" },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const user = await prisma.user.findFirst({
+      where: { id, organizationId: session.user.organizationId },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        locale: true,
+        passwordHash: true,
+        deactivatedAt: true,
+        superAdmin: true,
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    if (user.superAdmin && !session.user.superAdmin) {
+      return NextResponse.json(
+        { error: "Only super admins can manage a super admin" },
+        { status: 403 }
+      );
+    }
+
+    if (user.passwordHash || user.deactivatedAt) {
+      return NextResponse.json(
+        { error: "Only active users who have not chosen a password yet can be invited" },
+        { status: 400 }
+      );
+    }
+
+    const limit = rateLimit(`invite:user:${user.id}`, 5, 60 * 60 * 1000);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: "Too many invites for this user. Please try again later." },
+        { status: 429, headers: { "Retry-After": String(limit.retryAfterSeconds) } }
+      );
+    }
+
+    const inviteLink = await prisma.$transaction((tx) =>
+      sendInvite(tx, user, session.user.name || "An administrator")
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: user.id,
+        // Only handed back when there is no email to carry it
+        inviteLink: isEmailEnabled() ? undefined : inviteLink,
+      },
+    });
+  } catch (error) {
+    console.error("Error sending invite:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
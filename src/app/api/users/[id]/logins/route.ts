@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { loginAttemptSelect } from "@/lib/login-attempts";
+
+// Sign-in history, newest first; users see their own, admins anyone's in their organization
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    const { id } = await params;
+    if (id !== session.user.id && session.user.globalRole !== "ADMIN") {
+      return NextResponse.json(
+        { error: "You can only view your own sign-in history" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "20");
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.LoginAttemptWhereInput = {
+      userId: id,
+      ...(id !== session.user.id && { user: { organizationId: session.user.organizationId } }),
+    };
+
+    const [attempts, total] = await Promise.all([
+      prisma.loginAttempt.findMany({
+        where,
+        select: loginAttemptSelect,
+        orderBy: { createdAt: "desc" },
+        skip,
+        take: limit,
+      }),
+      prisma.loginAttempt.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: attempts.map((attempt) => ({ ...attempt, success: attempt.outcome === "SUCCESS" })),
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching sign-in history:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
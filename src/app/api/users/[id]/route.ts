@@ -0,0 +1,337 @@
+import { NextRequest, NextResponse } from "next/server";
+import { GlobalRole } from "@prisma/client";
+import { hashPassword } from "@/lib/auth";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { revokeUserSessions } from "@/lib/user-sessions";
+import { isOrganizationDepartment } from "@/lib/organizations";
+import { EMAIL_LOCALES } from "@/lib/email";
+import { adminUserSelect, GLOBAL_ROLES, passwordProblems, passwordSchema } from "@/lib/users";
+import { z } from "zod";
+
+const updateUserSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").optional(),
+  email: z.email("Invalid email address").transform((email) => email.toLowerCase()).optional(),
+  globalRole: z.enum(GLOBAL_ROLES).optional(),
+  locale: z.enum(EMAIL_LOCALES).optional(),
+  password: passwordSchema.optional(),
+  active: z.boolean().optional(),
+  departmentId: z.string().nullable().optional(),
+  // Only super admins grant or take away the right to switch organizations
+  superAdmin: z.boolean().optional(),
+});
+
+// Admins cannot lock themselves out, and the last active admin of an organization stays an active admin
+async function adminLockoutError(
+  actorId: string,
+  target: { id: string; globalRole: GlobalRole; deactivatedAt: Date | null; organizationId: string },
+  change: { globalRole?: GlobalRole; active?: boolean }
+): Promise<string | null> {
+  const demotes = change.globalRole !== undefined && change.globalRole !== "ADMIN";
+  const deactivates = change.active === false;
+  if (target.globalRole !== "ADMIN" || target.deactivatedAt || (!demotes && !deactivates)) {
+    return null;
+  }
+
+  if (target.id === actorId) {
+    return deactivates ? "You cannot deactivate your own account" : "You cannot remove your own admin role";
+  }
+
+  const otherAdmins = await prisma.user.count({
+    where: { globalRole: "ADMIN", deactivatedAt: null, organizationId: target.organizationId, id: { not: target.id } },
+  });
+  return otherAdmins === 0 ? "At least one active admin is required" : null;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    if (session.user.globalRole !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Only admins can manage users" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const user = await prisma.user.findFirst({
+      where: { id, organizationId: session.user.organizationId },
+      select: {
+        ...adminUserSelect,
+        _count: {
+          select: {
+            meetingMemberships: true,
+            ttfuAssigned: true,
+            ttfuReviewed: true,
+            evidencesSubmitted: true,
+            reviewsMade: true,
+          },
+        },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: user,
+    });
+  } catch (error) {
+    console.error("Error fetching user:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    if (session.user.globalRole !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Only admins can manage users" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { password, active, ...fields } = updateUserSchema.parse(body);
+
+    const existing = await prisma.user.findFirst({
+      where: { id, organizationId: session.user.organizationId },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        globalRole: true,
+        deactivatedAt: true,
+        organizationId: true,
+        superAdmin: true,
+      },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    if (existing.superAdmin && !session.user.superAdmin) {
+      return NextResponse.json(
+        { error: "Only super admins can manage a super admin" },
+        { status: 403 }
+      );
+    }
+
+    if (fields.superAdmin !== undefined && !session.user.superAdmin) {
+      return NextResponse.json(
+        { error: "Only super admins can change who is a super admin" },
+        { status: 403 }
+      );
+    }
+
+    if (fields.superAdmin === false && id === session.user.id) {
+      return NextResponse.json(
+        { error: "You cannot remove your own super admin role" },
+        { status: 400 }
+      );
+    }
+
+    const lockoutError = await adminLockoutError(session.user.id, existing, {
+      globalRole: fields.globalRole,
+      active,
+    });
+    if (lockoutError) {
+      return NextResponse.json({ error: lockoutError }, { status: 400 });
+    }
+
+    if (fields.departmentId && !(await isOrganizationDepartment(existing.organizationId, fields.departmentId))) {
+      return NextResponse.json(
+        { error: "Department not found" },
+        { status: 400 }
+      );
+    }
+
+    if (password) {
+      const problems = passwordProblems(password, {
+        name: fields.name ?? existing.name,
+        email: fields.email ?? existing.email,
+      });
+      if (problems.length > 0) {
+        return NextResponse.json({ error: problems[0], details: problems }, { status: 400 });
+      }
+    }
+
+    if (fields.email && fields.email !== existing.email) {
+      const taken = await prisma.user.findUnique({
+        where: { email: fields.email },
+        select: { id: true },
+      });
+      if (taken) {
+        return NextResponse.json(
+          { error: "A user with this email already exists" },
+          { status: 409 }
+        );
+      }
+    }
+
+    const data: Record<string, unknown> = { ...fields };
+    if (password) data.passwordHash = await hashPassword(password);
+    if (active === false && !existing.deactivatedAt) data.deactivatedAt = new Date();
+    if (active === true) data.deactivatedAt = null;
+
+    const user = await prisma.$transaction(async (tx) => {
+      const before = await tx.user.findUniqueOrThrow({ where: { id }, select: adminUserSelect });
+      const updated = await tx.user.update({
+        where: { id },
+        data,
+        select: adminUserSelect,
+      });
+
+      await recordAudit(tx, {
+        userId: session.user.id,
+        action: "USER_UPDATE",
+        entity: "USER",
+        entityId: id,
+        before,
+        after: updated,
+      });
+      // The hash itself is never audited, only that it was reset
+      if (password) {
+        await revokeUserSessions(tx, id, { exceptId: session.sessionId });
+        await recordAudit(tx, {
+          userId: session.user.id,
+          action: "USER_UPDATE",
+          entity: "USER",
+          entityId: id,
+          details: { passwordReset: true },
+        });
+      }
+
+      return updated;
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: user,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating user:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Deactivates the account; the user row stays so their TTFUs, evidence and reviews keep their owner
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    if (session.user.globalRole !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Only admins can manage users" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.user.findFirst({
+      where: { id, organizationId: session.user.organizationId },
+      select: { ...adminUserSelect, organizationId: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    if (existing.superAdmin && !session.user.superAdmin) {
+      return NextResponse.json(
+        { error: "Only super admins can manage a super admin" },
+        { status: 403 }
+      );
+    }
+
+    if (existing.deactivatedAt) {
+      return NextResponse.json({
+        success: true,
+        data: existing,
+      });
+    }
+
+    const lockoutError = await adminLockoutError(session.user.id, existing, { active: false });
+    if (lockoutError) {
+      return NextResponse.json({ error: lockoutError }, { status: 400 });
+    }
+
+    const user = await prisma.$transaction(async (tx) => {
+      const updated = await tx.user.update({
+        where: { id },
+        data: { deactivatedAt: new Date() },
+        select: adminUserSelect,
+      });
+
+      await recordAudit(tx, {
+        userId: session.user.id,
+        action: "USER_UPDATE",
+        entity: "USER",
+        entityId: id,
+        before: existing,
+        after: updated,
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: user,
+    });
+  } catch (error) {
+    console.error("Error deactivating user:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
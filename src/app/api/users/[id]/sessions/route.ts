@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { activeSessionWhere, revokeUserSessions, userSessionSelect } from "@/lib/user-sessions";
+
+// A user's signed-in browsers and devices, most recently used first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    if (session.user.globalRole !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Only admins can manage users" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const sessions = await prisma.userSession.findMany({
+      where: { userId: id, user: { organizationId: session.user.organizationId }, ...activeSessionWhere() },
+      select: userSessionSelect,
+      orderBy: { lastSeenAt: "desc" },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: sessions,
+    });
+  } catch (error) {
+    console.error("Error fetching user sessions:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Forces the user to sign in again everywhere. API tokens are not affected; they are revoked separately.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    if (session.user.globalRole !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Only admins can manage users" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.user.findFirst({
+      where: { id, organizationId: session.user.organizationId },
+      select: { id: true, superAdmin: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    if (existing.superAdmin && !session.user.superAdmin) {
+      return NextResponse.json(
+        { error: "Only super admins can manage a super admin" },
+        { status: 403 }
+      );
+    }
+
+    const revoked = await prisma.$transaction(async (tx) => {
+      const count = await revokeUserSessions(tx, id);
+      await recordAudit(tx, {
+        userId: session.user.id,
+        action: "USER_UPDATE",
+        entity: "USER",
+        entityId: id,
+        details: { sessionsSignedOut: count },
+      });
+      return count;
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { revoked },
+    });
+  } catch (error) {
+    console.error("Error signing out user sessions:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { disableTwoFactor } from "@/lib/two-factor";
+import { adminUserSelect } from "@/lib/users";
+
+// For users who lost both their authenticator and their backup codes. If their role requires
+// two-factor they enroll again at the next sign-in.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    if (session.user.globalRole !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Only admins can manage users" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.user.findFirst({
+      where: { id, organizationId: session.user.organizationId },
+      select: { id: true, superAdmin: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    if (existing.superAdmin && !session.user.superAdmin) {
+      return NextResponse.json(
+        { error: "Only super admins can manage a super admin" },
+        { status: 403 }
+      );
+    }
+
+    const user = await prisma.$transaction(async (tx) => {
+      await disableTwoFactor(tx, id);
+      await recordAudit(tx, {
+        userId: session.user.id,
+        action: "USER_UPDATE",
+        entity: "USER",
+        entityId: id,
+        details: { twoFactorReset: true },
+      });
+      return tx.user.findUniqueOrThrow({ where: { id }, select: adminUserSelect });
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: user,
+    });
+  } catch (error) {
+    console.error("Error resetting two-factor:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
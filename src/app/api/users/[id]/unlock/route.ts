@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { adminUserSelect } from "@/lib/users";
+
+// Lifts a lockout after too many failed sign-ins, before it runs out by itself
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    if (session.user.globalRole !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Only admins can manage users" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.user.findFirst({
+      where: { id, organizationId: session.user.organizationId },
+      select: { id: true, superAdmin: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    if (existing.superAdmin && !session.user.superAdmin) {
+      return NextResponse.json(
+        { error: "Only super admins can manage a super admin" },
+        { status: 403 }
+      );
+    }
+
+    const user = await prisma.$transaction(async (tx) => {
+      const updated = await tx.user.update({
+        where: { id },
+        data: { failedLoginCount: 0, lockedUntil: null },
+        select: adminUserSelect,
+      });
+      await recordAudit(tx, {
+        userId: session.user.id,
+        action: "USER_UPDATE",
+        entity: "USER",
+        entityId: id,
+        details: { unlocked: true },
+      });
+      return updated;
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: user,
+    });
+  } catch (error) {
+    console.error("Error unlocking user:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,36 +1,73 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth/next";
-import { authOptions } from "@/lib/auth";
+import { GlobalRole, Prisma } from "@prisma/client";
+import { hashPassword, isPasswordLoginEnabled } from "@/lib/auth";
+import { requireSession } from "@/lib/session";
 import { prisma } from "@/lib/prisma";
+import { organizationUsersWhere } from "@/lib/policy";
+import { isOrganizationDepartment } from "@/lib/organizations";
+import { recordAudit } from "@/lib/audit";
+import { EMAIL_LOCALES, isEmailEnabled } from "@/lib/email";
+import { sendInvite } from "@/lib/passwords";
+import { adminUserSelect, GLOBAL_ROLES, passwordProblems, passwordSchema, userSelect } from "@/lib/users";
+import { z } from "zod";
+
+const createUserSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  email: z.email("Invalid email address").transform((email) => email.toLowerCase()),
+  // Without a password the user is invited by email to choose one
+  password: passwordSchema.optional(),
+  globalRole: z.enum(GLOBAL_ROLES).default("USER"),
+  locale: z.enum(EMAIL_LOCALES).optional(),
+  departmentId: z.string().nullable().optional(),
+});
+
+// Enough to tell whether a user still has to accept their invite
+const adminListSelect = {
+  ...adminUserSelect,
+  passwordHash: true,
+  _count: { select: { accounts: true } },
+} satisfies Prisma.UserSelect;
 
 export async function GET(request: NextRequest) {
   try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const session = await getServerSession(authOptions as any) as { user: { id: string } } | null;
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
     }
 
     const { searchParams } = new URL(request.url);
     const role = searchParams.get("role");
+    const departmentId = searchParams.get("departmentId");
+    const search = searchParams.get("search");
     const page = parseInt(searchParams.get("page") || "1");
     const limit = parseInt(searchParams.get("limit") || "50");
     const skip = (page - 1) * limit;
+    const isAdmin = session.user.globalRole === "ADMIN";
+
+    const where: Prisma.UserWhereInput = organizationUsersWhere(session.user);
 
-    const where: Record<string, unknown> = {};
-    
-    if (role) where.globalRole = role;
+    if (role && GLOBAL_ROLES.includes(role as GlobalRole)) where.globalRole = role as GlobalRole;
+    if (departmentId) where.departmentId = departmentId;
+
+    if (search) {
+      where.OR = [
+        { name: { contains: search, mode: "insensitive" } },
+        { email: { contains: search, mode: "insensitive" } },
+      ];
+    }
+
+    // Deactivated users are left out of pickers; admins can ask for them with status=deactivated|all
+    const status = isAdmin ? searchParams.get("status") : null;
+    if (status === "deactivated") {
+      where.deactivatedAt = { not: null };
+    } else if (status !== "all") {
+      where.deactivatedAt = null;
+    }
 
     const [users, total] = await Promise.all([
       prisma.user.findMany({
         where,
-        select: {
-          id: true,
-          name: true,
-          email: true,
-          globalRole: true,
-          createdAt: true,
-        },
+        select: isAdmin ? adminListSelect : userSelect,
         orderBy: {
           name: "asc",
         },
@@ -40,11 +77,18 @@ export async function GET(request: NextRequest) {
       prisma.user.count({ where }),
     ]);
 
+    // Only whether the user ever signed in, with a password or single sign-on, leaves the server
+    const data = users.map((user) => {
+      if (!isAdmin) return user;
+      const { passwordHash, _count, ...rest } = user as Prisma.UserGetPayload<{ select: typeof adminListSelect }>;
+      return { ...rest, invitePending: !passwordHash && _count.accounts === 0 };
+    });
+
     const totalPages = Math.ceil(total / limit);
 
     return NextResponse.json({
       success: true,
-      data: users,
+      data,
       pagination: {
         total,
         page,
@@ -60,3 +104,104 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+export async function POST(request: NextRequest) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    if (session.user.globalRole !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Only admins can manage users" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = createUserSchema.parse(body);
+
+    const existing = await prisma.user.findUnique({
+      where: { email: validatedData.email },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: "A user with this email already exists" },
+        { status: 409 }
+      );
+    }
+
+    if (
+      validatedData.departmentId &&
+      !(await isOrganizationDepartment(session.user.organizationId, validatedData.departmentId))
+    ) {
+      return NextResponse.json(
+        { error: "Department not found" },
+        { status: 400 }
+      );
+    }
+
+    if (validatedData.password) {
+      const problems = passwordProblems(validatedData.password, validatedData);
+      if (problems.length > 0) {
+        return NextResponse.json({ error: problems[0], details: problems }, { status: 400 });
+      }
+    }
+
+    const passwordHash = validatedData.password ? await hashPassword(validatedData.password) : null;
+    // Without app passwords the user signs in through single sign-on or the directory; there is nothing to choose
+    const invite = !passwordHash && isPasswordLoginEnabled();
+
+    const { user, inviteLink } = await prisma.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          name: validatedData.name,
+          email: validatedData.email,
+          passwordHash,
+          globalRole: validatedData.globalRole,
+          locale: validatedData.locale,
+          organizationId: session.user.organizationId,
+          departmentId: validatedData.departmentId ?? null,
+        },
+        select: adminUserSelect,
+      });
+
+      await recordAudit(tx, {
+        userId: session.user.id,
+        action: "USER_CREATE",
+        entity: "USER",
+        entityId: created.id,
+        after: created,
+      });
+
+      const link = invite ? await sendInvite(tx, created, session.user.name || "An administrator") : null;
+      return { user: created, inviteLink: link };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...user,
+        invitePending: invite,
+        // Only handed back when there is no email to carry it
+        inviteLink: isEmailEnabled() ? undefined : inviteLink ?? undefined,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error creating user:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
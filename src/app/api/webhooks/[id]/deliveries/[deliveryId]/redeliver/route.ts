@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { redeliverWebhook } from "@/lib/webhooks";
+
+// Sends the stored payload again right away and returns the new delivery with its outcome
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    if (session.user.globalRole !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Only admins can manage webhooks" },
+        { status: 403 }
+      );
+    }
+
+    const { id, deliveryId } = await params;
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, subscriptionId: id, subscription: { organizationId: session.user.organizationId } },
+      select: { id: true },
+    });
+
+    if (!delivery) {
+      return NextResponse.json(
+        { error: "Delivery not found" },
+        { status: 404 }
+      );
+    }
+
+    const redelivery = await redeliverWebhook(delivery.id);
+
+    return NextResponse.json({
+      success: true,
+      data: redelivery,
+    });
+  } catch (error) {
+    console.error("Error redelivering webhook:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
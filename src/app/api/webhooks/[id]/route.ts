@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { generateWebhookSecret, WEBHOOK_EVENTS, webhookAddressError, webhookSelect } from "@/lib/webhooks";
+import { z } from "zod";
+
+const updateWebhookSchema = z.object({
+  url: z.url({ protocol: /^https?$/, error: "URL must be an http(s) address" }).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Choose at least one event").optional(),
+  description: z.string().max(200).nullable().optional(),
+  active: z.boolean().optional(),
+  rotateSecret: z.boolean().optional(),
+});
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    if (session.user.globalRole !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Only admins can manage webhooks" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { rotateSecret, ...fields } = updateWebhookSchema.parse(body);
+
+    const existing = await prisma.webhookSubscription.findFirst({
+      where: { id, organizationId: session.user.organizationId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Webhook not found" },
+        { status: 404 }
+      );
+    }
+
+    const addressError = fields.url ? await webhookAddressError(fields.url) : null;
+    if (addressError) {
+      return NextResponse.json({ error: addressError }, { status: 400 });
+    }
+
+    const webhook = await prisma.webhookSubscription.update({
+      where: { id },
+      data: {
+        ...fields,
+        events: fields.events ? [...new Set(fields.events)] : undefined,
+        description: fields.description === undefined ? undefined : fields.description || null,
+        secret: rotateSecret ? generateWebhookSecret() : undefined,
+      },
+      select: {
+        ...webhookSelect,
+        secret: !!rotateSecret,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: webhook,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating webhook:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    if (session.user.globalRole !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Only admins can manage webhooks" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const deleted = await prisma.webhookSubscription.deleteMany({
+      where: { id, organizationId: session.user.organizationId },
+    });
+
+    if (deleted.count === 0) {
+      return NextResponse.json(
+        { error: "Webhook not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id },
+    });
+  } catch (error) {
+    console.error("Error deleting webhook:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { generateWebhookSecret, WEBHOOK_EVENTS, webhookAddressError, webhookSelect } from "@/lib/webhooks";
+import { z } from "zod";
+
+const createWebhookSchema = z.object({
+  url: z.url({ protocol: /^https?$/, error: "URL must be an http(s) address" }),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Choose at least one event"),
+  description: z.string().max(200).optional(),
+  secret: z.string().min(16, "Secret must be at least 16 characters").optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    if (session.user.globalRole !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Only admins can manage webhooks" },
+        { status: 403 }
+      );
+    }
+
+    const webhooks = await prisma.webhookSubscription.findMany({
+      where: { organizationId: session.user.organizationId },
+      select: {
+        ...webhookSelect,
+        deliveries: {
+          select: {
+            status: true,
+            responseStatus: true,
+            createdAt: true,
+          },
+          orderBy: {
+            createdAt: "desc",
+          },
+          take: 1,
+        },
+      },
+      orderBy: {
+        createdAt: "desc",
+      },
+    });
+
+    const failing = await prisma.webhookDelivery.groupBy({
+      by: ["subscriptionId"],
+      where: { status: "failed" },
+      _count: { _all: true },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: webhooks.map(({ deliveries, ...webhook }) => ({
+        ...webhook,
+        lastDelivery: deliveries[0] ?? null,
+        failedDeliveries: failing.find((row) => row.subscriptionId === webhook.id)?._count._all ?? 0,
+      })),
+      events: WEBHOOK_EVENTS,
+    });
+  } catch (error) {
+    console.error("Error fetching webhooks:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { session, response } = await requireSession(request);
+    if (response) {
+      return response;
+    }
+
+    if (session.user.globalRole !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Only admins can manage webhooks" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = createWebhookSchema.parse(body);
+
+    const addressError = await webhookAddressError(validatedData.url);
+    if (addressError) {
+      return NextResponse.json({ error: addressError }, { status: 400 });
+    }
+
+    const webhook = await prisma.webhookSubscription.create({
+      data: {
+        url: validatedData.url,
+        events: [...new Set(validatedData.events)],
+        description: validatedData.description || null,
+        secret: validatedData.secret || generateWebhookSecret(),
+        createdById: session.user.id,
+        organizationId: session.user.organizationId,
+      },
+      select: {
+        ...webhookSelect,
+        secret: true,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: webhook,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error creating webhook:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
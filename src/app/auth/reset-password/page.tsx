@@ -0,0 +1,167 @@
+"use client";
+
+import { use, useState } from "react";
+import { signIn } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { passwordProblems } from "@/lib/users";
+
+interface PasswordLink {
+  purpose: "invite" | "reset";
+  expires: string;
+  name: string;
+  email: string;
+}
+
+async function fetchPasswordLink(token: string) {
+  const response = await fetch(`/api/password/reset?token=${encodeURIComponent(token)}`);
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to load link");
+  }
+  return response.json();
+}
+
+// Handles both invite links (first password) and reset links
+export default function ResetPassword({ searchParams }: { searchParams: Promise<{ token?: string }> }) {
+  const { token = "" } = use(searchParams);
+  const router = useRouter();
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { data, isLoading: isChecking, error: linkError } = useQuery({
+    queryKey: ["password-link", token],
+    queryFn: () => fetchPasswordLink(token),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const link: PasswordLink | undefined = data?.data;
+  const problems = password && link ? passwordProblems(password, link) : [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!link) return;
+    if (password !== confirmation) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/password/reset", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ token, password }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.details?.[0]?.message || result.error || "Failed to set the password");
+        return;
+      }
+
+      const signedIn = await signIn("credentials", {
+        email: link.email,
+        password,
+        redirect: false,
+      });
+      router.push(signedIn?.error ? "/auth/signin" : "/dashboard");
+    } catch (error) {
+      setError(`An error occurred. Please try again. ${error}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const isInvite = link?.purpose === "invite";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            {isInvite ? "Welcome to PDCA TTFU Tracker" : "Choose a new password"}
+          </h2>
+          {link && (
+            <p className="mt-2 text-center text-sm text-gray-600">
+              {isInvite ? `Hi ${link.name}, choose a password for ${link.email}.` : `For ${link.email}`}
+            </p>
+          )}
+        </div>
+
+        {!token || linkError ? (
+          <div className="rounded-md bg-red-50 border border-red-200 p-4 text-sm text-red-800">
+            {linkError instanceof Error ? linkError.message : "This link is invalid or has expired"}.{" "}
+            <Link href="/auth/forgot-password" className="underline">
+              Request a new one
+            </Link>
+          </div>
+        ) : isChecking || !link ? (
+          <div className="flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <form className="mt-8 space-y-4" onSubmit={handleSubmit}>
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+                Password
+              </label>
+              <input
+                id="password"
+                type="password"
+                autoComplete="new-password"
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="appearance-none block w-full px-3 py-2 border border-gray-300 text-gray-900 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+              {problems.length > 0 && (
+                <ul className="mt-1 text-sm text-red-600 list-disc list-inside">
+                  {problems.map((problem) => (
+                    <li key={problem}>{problem}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <div>
+              <label htmlFor="confirmation" className="block text-sm font-medium text-gray-700 mb-1">
+                Confirm password
+              </label>
+              <input
+                id="confirmation"
+                type="password"
+                autoComplete="new-password"
+                required
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                className="appearance-none block w-full px-3 py-2 border border-gray-300 text-gray-900 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+
+            {error && (
+              <div className="text-center">
+                <p className="text-sm text-red-600">{error}</p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isLoading || problems.length > 0 || !password}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? <Loader2 className="h-5 w-5 animate-spin" /> : isInvite ? "Set password" : "Reset password"}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,25 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { signIn, useSession } from "next-auth/react";
+import { use, useState, useEffect } from "react";
+import { getProviders, signIn, useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Loader2, Eye, EyeOff } from "lucide-react";
+import { TwoFactorSetup } from "@/components/account/TwoFactorSetup";
+import { BackupCodes } from "@/components/account/BackupCodes";
+import {
+  ACCOUNT_DEACTIVATED,
+  ACCOUNT_LOCKED,
+  DIRECTORY_UNAVAILABLE,
+  EMAIL_NOT_VERIFIED,
+  TOO_MANY_ATTEMPTS,
+  TWO_FACTOR_INVALID,
+  TWO_FACTOR_REQUIRED,
+  TWO_FACTOR_SETUP_REQUIRED,
+} from "@/lib/users";
 
 const signInSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -15,11 +28,39 @@ const signInSchema = z.object({
 
 type SignInForm = z.infer<typeof signInSchema>;
 
-export default function SignIn() {
+// "code" asks for the second factor; "setup" enrolls users whose role requires two-factor before they can sign in
+type SignInStep = "password" | "code" | "setup";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  [ACCOUNT_DEACTIVATED]: "This account has been deactivated. Contact an administrator.",
+  [ACCOUNT_LOCKED]: "Too many failed sign-ins. This account is locked for a while; try again later or contact an administrator.",
+  [TWO_FACTOR_INVALID]: "Invalid authentication code",
+  [TOO_MANY_ATTEMPTS]: "Too many attempts. Please try again later.",
+  [DIRECTORY_UNAVAILABLE]: "The company directory cannot be reached. Please try again later.",
+  [EMAIL_NOT_VERIFIED]: "Your single sign-on account has no verified email address.",
+  // NextAuth's own codes for failed single sign-on round trips
+  OAuthSignin: "Could not reach the single sign-on provider. Please try again.",
+  OAuthCallback: "Single sign-on failed. Please try again.",
+  OAuthAccountNotLinked: "This email is already linked to another sign-in method.",
+  AccessDenied: "Access denied.",
+};
+
+type SignInProvider = { id: string; name: string };
+
+export default function SignIn({ searchParams }: { searchParams: Promise<{ error?: string }> }) {
+  const { error: redirectError } = use(searchParams);
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [step, setStep] = useState<SignInStep>("password");
+  const [code, setCode] = useState("");
+  const [setupCredentials, setSetupCredentials] = useState<{ email: string; password: string } | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [providers, setProviders] = useState<SignInProvider[] | null>(null);
   const { data: session } = useSession();
   const router = useRouter();
+  // Until the providers load the password form is shown, as it is for most deployments
+  const passwordEnabled = !providers || providers.some((provider) => provider.id === "credentials");
+  const ssoProviders = providers?.filter((provider) => provider.id !== "credentials") ?? [];
 
   const {
     register,
@@ -37,12 +78,18 @@ export default function SignIn() {
       const result = await signIn("credentials", {
         email: data.email,
         password: data.password,
+        code: step === "code" ? code : "",
         redirect: false,
       });
 
-      if (result?.error) {
+      if (result?.error === TWO_FACTOR_REQUIRED) {
+        setStep("code");
+      } else if (result?.error === TWO_FACTOR_SETUP_REQUIRED) {
+        setSetupCredentials({ email: data.email, password: data.password });
+        setStep("setup");
+      } else if (result?.error) {
         setError("root", {
-          message: "Invalid email or password",
+          message: ERROR_MESSAGES[result.error] || "Invalid email or password",
         });
       } else {
         router.push("/dashboard");
@@ -56,6 +103,10 @@ export default function SignIn() {
     }
   };
 
+  useEffect(() => {
+    getProviders().then((result) => setProviders(result ? Object.values(result) : []));
+  }, []);
+
   useEffect(() => {
     if (session) {
       router.push("/dashboard");
@@ -84,77 +135,171 @@ export default function SignIn() {
             PDCA TTFU Tracker
           </p>
         </div>
-        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
-          <div className="rounded-md shadow-sm -space-y-px">
-            <div>
-              <label htmlFor="email" className="sr-only">
-                Email address
-              </label>
-              <input
-                {...register("email")}
-                id="email"
-                name="email"
-                type="email"
-                autoComplete="email"
-                required
-                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-t-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
-                placeholder="Email address"
-              />
-              {errors.email && (
-                <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
-              )}
-            </div>
-            <div className="relative">
-              <label htmlFor="password" className="sr-only">
-                Password
-              </label>
-              <input
-                {...register("password")}
-                id="password"
-                name="password"
-                type={showPassword ? "text" : "password"}
-                autoComplete="current-password"
-                required
-                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
-                placeholder="Password"
+        {step === "setup" ? (
+          <div className="mt-8 bg-white shadow rounded-lg p-6 space-y-4">
+            {backupCodes ? (
+              <BackupCodes
+                codes={backupCodes}
+                onDone={() => {
+                  setBackupCodes(null);
+                  setCode("");
+                  setStep("code");
+                }}
               />
+            ) : (
+              <>
+                  <p className="text-sm text-gray-700">
+                    Your role requires two-factor authentication. Set it up to finish signing in.
+                  </p>
+                  <TwoFactorSetup credentials={setupCredentials ?? undefined} onEnabled={setBackupCodes} />
+              </>
+            )}
+          </div>
+        ) : (
+          <div className="mt-8 space-y-6">
+            {redirectError && step === "password" && (
+              <div className="text-center">
+                <p className="text-sm text-red-600">
+                  {ERROR_MESSAGES[redirectError] || "Sign-in failed. Please try again."}
+                </p>
+              </div>
+            )}
+
+            {step === "password" && ssoProviders.map((provider) => (
               <button
+                key={provider.id}
                 type="button"
-                className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                onClick={() => setShowPassword(!showPassword)}
+                onClick={() => signIn(provider.id, { callbackUrl: "/dashboard" })}
+                className="w-full flex justify-center py-2 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
               >
-                {showPassword ? (
-                  <EyeOff className="h-5 w-5 text-gray-400" />
+                Sign in with {provider.name}
+              </button>
+            ))}
+
+            {passwordEnabled && step === "password" && ssoProviders.length > 0 && (
+              <div className="flex items-center gap-3">
+                <div className="flex-1 border-t border-gray-300" />
+                <span className="text-sm text-gray-500">or</span>
+                <div className="flex-1 border-t border-gray-300" />
+              </div>
+            )}
+
+            {passwordEnabled && (
+              <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+                {step === "code" ? (
+                  <div>
+                    <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-1">
+                      Authentication code
+                    </label>
+                    <input
+                      id="code"
+                      type="text"
+                      autoComplete="one-time-code"
+                      autoFocus
+                      required
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      className="appearance-none block w-full px-3 py-2 border border-gray-300 text-gray-900 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm tracking-widest"
+                    />
+                    <p className="mt-1 text-sm text-gray-500">
+                      Enter the code from your authenticator app, or one of your backup codes.
+                    </p>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setCode("");
+                        setStep("password");
+                      }}
+                      className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      Use a different account
+                    </button>
+                  </div>
                 ) : (
-                  <Eye className="h-5 w-5 text-gray-400" />
+                  <>
+                  <div className="rounded-md shadow-sm -space-y-px">
+                    <div>
+                      <label htmlFor="email" className="sr-only">
+                        Email address
+                      </label>
+                      <input
+                        {...register("email")}
+                        id="email"
+                        name="email"
+                        type="email"
+                        autoComplete="email"
+                        required
+                        className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-t-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
+                        placeholder="Email address"
+                      />
+                      {errors.email && (
+                        <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+                      )}
+                    </div>
+                    <div className="relative">
+                      <label htmlFor="password" className="sr-only">
+                        Password
+                      </label>
+                      <input
+                        {...register("password")}
+                        id="password"
+                        name="password"
+                        type={showPassword ? "text" : "password"}
+                        autoComplete="current-password"
+                        required
+                        className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
+                        placeholder="Password"
+                      />
+                      <button
+                        type="button"
+                        className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                        onClick={() => setShowPassword(!showPassword)}
+                      >
+                        {showPassword ? (
+                          <EyeOff className="h-5 w-5 text-gray-400" />
+                        ) : (
+                          <Eye className="h-5 w-5 text-gray-400" />
+                        )}
+                      </button>
+                      {errors.password && (
+                        <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex justify-end">
+                    <Link href="/auth/forgot-password" className="text-sm text-blue-600 hover:text-blue-800">
+                      Forgot your password?
+                    </Link>
+                  </div>
+                  </>
+                )}
+
+                {errors.root && (
+                  <div className="text-center">
+                    <p className="text-sm text-red-600">{errors.root.message}</p>
+                  </div>
                 )}
-              </button>
-              {errors.password && (
-                <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
-              )}
-            </div>
-          </div>
 
-          {errors.root && (
-            <div className="text-center">
-              <p className="text-sm text-red-600">{errors.root.message}</p>
-            </div>
-          )}
-
-          <div>
-            <button
-              type="submit"
-              disabled={isLoading}
-              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isLoading ? (
-                <Loader2 className="h-5 w-5 animate-spin" />
-              ) : (
-                "Sign in"
-              )}
-            </button>
+                <div>
+                  <button
+                    type="submit"
+                    disabled={isLoading}
+                    className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isLoading ? (
+                      <Loader2 className="h-5 w-5 animate-spin" />
+                    ) : step === "code" ? (
+                      "Verify"
+                    ) : (
+                      "Sign in"
+                    )}
+                  </button>
+                </div>
+              </form>
+            )}
           </div>
-        </form>
+        )}
       </div>
     </div>
   );
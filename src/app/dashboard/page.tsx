@@ -13,9 +13,17 @@ import {
   IconLogout,
   IconSearch,
   IconFilter,
-  IconEye
+  IconEye,
+  IconFileSpreadsheet,
+  IconUserCog,
+  IconWebhook,
+  IconShieldLock,
+  IconBuilding
 } from "@tabler/icons-react";
 import { formatDateTime, getStatusColor } from "@/lib/utils";
+import { NotificationBell } from "@/components/notifications/NotificationBell";
+import { OrganizationSwitcher } from "@/components/organizations/OrganizationSwitcher";
+import { isOverdue } from "@/lib/workflow";
 
 interface Meeting {
   id: string;
@@ -38,9 +46,16 @@ interface Meeting {
   ttfus: Array<{
     id: string;
     status: string;
+    dueDate?: string;
   }>;
 }
 
+interface ReportSummary {
+  meetings: number;
+  overdue: number;
+  byStatus: Record<"OPEN" | "IN_PROGRESS" | "DONE" | "REJECTED", number>;
+}
+
 async function fetchMeetings(fromDate?: string, toDate?: string) {
   const params = new URLSearchParams();
   if (fromDate) params.append("fromDate", fromDate);
@@ -51,6 +66,16 @@ async function fetchMeetings(fromDate?: string, toDate?: string) {
   return response.json();
 }
 
+async function fetchSummary(fromDate?: string, toDate?: string) {
+  const params = new URLSearchParams();
+  if (fromDate) params.append("fromDate", fromDate);
+  if (toDate) params.append("toDate", toDate);
+
+  const response = await fetch(`/api/reports/summary?${params.toString()}`);
+  if (!response.ok) throw new Error("Failed to fetch summary");
+  return response.json();
+}
+
 export default function Dashboard() {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -98,30 +123,20 @@ export default function Dashboard() {
     meeting.title.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  const getStatusCount = (meetings: Meeting[]) => {
-    const counts = { open: 0, inProgress: 0, done: 0, rejected: 0 };
-    meetings.forEach(meeting => {
-      meeting.ttfus.forEach(ttfu => {
-        switch (ttfu.status) {
-          case "OPEN":
-            counts.open++;
-            break;
-          case "IN_PROGRESS":
-            counts.inProgress++;
-            break;
-          case "DONE":
-            counts.done++;
-            break;
-          case "REJECTED":
-            counts.rejected++;
-            break;
-        }
-      });
-    });
-    return counts;
+  const getExportUrl = () => {
+    const { fromDate, toDate } = getDateRange();
+    const params = new URLSearchParams({ format: "xlsx" });
+    if (fromDate) params.append("fromDate", fromDate);
+    if (toDate) params.append("toDate", toDate);
+    return `/api/ttfu/export?${params.toString()}`;
   };
 
-  const statusCounts = getStatusCount(meetings);
+  const { data: summaryData } = useQuery({
+    queryKey: ["meetings", dateFilter, "summary"],
+    queryFn: () => fetchSummary(getDateRange().fromDate, getDateRange().toDate),
+  });
+
+  const summary: ReportSummary | undefined = summaryData?.data;
 
   if (status === "loading") {
     return (
@@ -149,7 +164,16 @@ export default function Dashboard() {
               <p className="text-sm text-gray-600">Welcome back, {session.user?.name}</p>
             </div>
             <div className="flex items-center space-x-4">
+              {session.user.superAdmin && <OrganizationSwitcher />}
+              <NotificationBell />
               <span className="text-sm text-gray-600">{session.user?.email}</span>
+              <button
+                onClick={() => router.push("/account/security")}
+                className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-600 hover:text-gray-900"
+              >
+                <IconShieldLock className="h-4 w-4" />
+                <span>Security</span>
+              </button>
               <button
                 onClick={() => signOut()}
                 className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-600 hover:text-gray-900"
@@ -170,7 +194,7 @@ export default function Dashboard() {
               <IconCalendar className="h-8 w-8 text-blue-600" />
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">Total Meetings</p>
-                <p className="text-2xl font-bold text-gray-900">{meetings.length}</p>
+                <p className="text-2xl font-bold text-gray-900">{summary?.meetings ?? 0}</p>
               </div>
             </div>
           </div>
@@ -179,7 +203,7 @@ export default function Dashboard() {
                                       <IconSquareCheck className="h-8 w-8 text-yellow-600" />
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">Open TTFUs</p>
-                <p className="text-2xl font-bold text-gray-900">{statusCounts.open}</p>
+                <p className="text-2xl font-bold text-gray-900">{summary?.byStatus.OPEN ?? 0}</p>
               </div>
             </div>
           </div>
@@ -188,7 +212,7 @@ export default function Dashboard() {
                                       <IconSquareCheck className="h-8 w-8 text-orange-600" />
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">In Progress</p>
-                <p className="text-2xl font-bold text-gray-900">{statusCounts.inProgress}</p>
+                <p className="text-2xl font-bold text-gray-900">{summary?.byStatus.IN_PROGRESS ?? 0}</p>
               </div>
             </div>
           </div>
@@ -197,7 +221,7 @@ export default function Dashboard() {
                                       <IconSquareCheck className="h-8 w-8 text-green-600" />
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">Completed</p>
-                <p className="text-2xl font-bold text-gray-900">{statusCounts.done}</p>
+                <p className="text-2xl font-bold text-gray-900">{summary?.byStatus.DONE ?? 0}</p>
               </div>
             </div>
           </div>
@@ -232,6 +256,13 @@ export default function Dashboard() {
                 </div>
               </div>
                           <div className="flex space-x-2">
+              <a
+                href={getExportUrl()}
+                className="flex items-center space-x-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-50 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+              >
+                <IconFileSpreadsheet className="h-4 w-4" />
+                <span>Export TTFUs</span>
+              </a>
               <button
                 onClick={() => router.push("/meetings/join")}
                 className="flex items-center space-x-2 bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 focus:ring-2 focus:ring-green-500 focus:ring-offset-2"
@@ -257,6 +288,32 @@ export default function Dashboard() {
                   <span>Review Dashboard</span>
                 </button>
               )}
+              {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
+              {(session?.user as any)?.globalRole === "ADMIN" && (
+                <>
+                  <button
+                    onClick={() => router.push("/admin/users")}
+                    className="flex items-center space-x-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-50 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                  >
+                    <IconUserCog className="h-4 w-4" />
+                    <span>Users</span>
+                  </button>
+                  <button
+                    onClick={() => router.push("/admin/webhooks")}
+                    className="flex items-center space-x-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-50 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                  >
+                    <IconWebhook className="h-4 w-4" />
+                    <span>Webhooks</span>
+                  </button>
+                  <button
+                    onClick={() => router.push("/admin/organization")}
+                    className="flex items-center space-x-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-50 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                  >
+                    <IconBuilding className="h-4 w-4" />
+                    <span>Organization</span>
+                  </button>
+                </>
+              )}
             </div>
             </div>
           </div>
@@ -307,6 +364,11 @@ export default function Dashboard() {
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
+                      {meeting.ttfus.some((ttfu) => isOverdue(ttfu)) && (
+                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800">
+                          {meeting.ttfus.filter((ttfu) => isOverdue(ttfu)).length} OVERDUE
+                        </span>
+                      )}
                       {meeting.ttfus.length > 0 && (
                         <div className="flex space-x-1">
                           {meeting.ttfus.slice(0, 3).map((ttfu, index) => (
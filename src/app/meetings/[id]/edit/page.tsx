@@ -0,0 +1,319 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useEffect, useState, use } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { IconArrowLeft, IconTrash } from "@tabler/icons-react";
+
+const updateMeetingSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  date: z.string().min(1, "Date is required"),
+  startTime: z.string().min(1, "Start time is required"),
+  endTime: z.string().min(1, "End time is required"),
+  notes: z.string().optional(),
+});
+
+type UpdateMeetingForm = z.infer<typeof updateMeetingSchema>;
+
+interface Meeting {
+  id: string;
+  title: string;
+  date: string;
+  startTime?: string;
+  endTime?: string;
+  notes?: string;
+  participants: Array<{ id: string }>;
+  ttfus: Array<{
+    id: string;
+    evidences: Array<{
+      id: string;
+      _count: { reviews: number };
+    }>;
+  }>;
+}
+
+async function fetchMeeting(id: string) {
+  const response = await fetch(`/api/meetings/${id}`);
+  if (!response.ok) throw new Error("Failed to fetch meeting");
+  return response.json();
+}
+
+function toTimeInput(value?: string) {
+  return value ? new Date(value).toTimeString().slice(0, 5) : "";
+}
+
+export default function EditMeeting({ params }: { params: Promise<{ id: string }> }) {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const resolvedParams = use(params);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) {
+      router.push("/auth/signin");
+    }
+  }, [session, status, router]);
+
+  const { data: meetingData, isLoading } = useQuery({
+    queryKey: ["meeting", resolvedParams.id],
+    queryFn: () => fetchMeeting(resolvedParams.id),
+  });
+
+  const meeting: Meeting = meetingData?.data;
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+  } = useForm<UpdateMeetingForm>({
+    resolver: zodResolver(updateMeetingSchema),
+  });
+
+  useEffect(() => {
+    if (!meeting) return;
+    reset({
+      title: meeting.title,
+      date: meeting.date.split("T")[0],
+      startTime: toTimeInput(meeting.startTime),
+      endTime: toTimeInput(meeting.endTime),
+      notes: meeting.notes || "",
+    });
+  }, [meeting, reset]);
+
+  const onSubmit = async (data: UpdateMeetingForm) => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/meetings/${resolvedParams.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (response.ok) {
+        queryClient.invalidateQueries({ queryKey: ["meeting", resolvedParams.id] });
+        router.push(`/meetings/${resolvedParams.id}`);
+      } else {
+        const error = await response.json();
+        alert(error.error || "Failed to update meeting");
+      }
+    } catch (error) {
+      alert(`An error occurred while updating the meeting, ${error}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const onDelete = async () => {
+    const ttfuCount = meeting.ttfus.length;
+    const evidenceCount = meeting.ttfus.reduce((sum, ttfu) => sum + ttfu.evidences.length, 0);
+    const reviewCount = meeting.ttfus.reduce(
+      (sum, ttfu) => sum + ttfu.evidences.reduce((total, evidence) => total + evidence._count.reviews, 0),
+      0
+    );
+
+    const confirmed = confirm(
+      `Delete "${meeting.title}"?\n\n` +
+      `This will permanently delete ${ttfuCount} TTFU(s), ${evidenceCount} evidence item(s), ` +
+      `${reviewCount} review(s) and ${meeting.participants.length} participant record(s). This cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    setIsDeleting(true);
+    try {
+      const response = await fetch(`/api/meetings/${resolvedParams.id}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        const { ttfus, evidences, reviews } = result.data.deleted;
+        alert(`Meeting deleted along with ${ttfus} TTFU(s), ${evidences} evidence item(s) and ${reviews} review(s).`);
+        queryClient.invalidateQueries({ queryKey: ["meetings"] });
+        router.push("/dashboard");
+      } else {
+        const error = await response.json();
+        alert(error.error || "Failed to delete meeting");
+      }
+    } catch (error) {
+      alert(`An error occurred while deleting the meeting, ${error}`);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (status === "loading" || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  if (!meeting) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-gray-600">Meeting not found</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <button
+              onClick={() => router.push(`/meetings/${resolvedParams.id}`)}
+              className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 mr-4"
+            >
+              <IconArrowLeft className="h-4 w-4" />
+              <span>Back to Meeting</span>
+            </button>
+            <h1 className="text-2xl font-bold text-gray-900">Edit Meeting</h1>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          {/* Meeting Details */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Meeting Details</h2>
+
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="title" className="block text-sm font-medium text-gray-700">
+                  Title
+                </label>
+                <input
+                  {...register("title")}
+                  type="text"
+                  id="title"
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Enter meeting title"
+                />
+                {errors.title && (
+                  <p className="mt-1 text-sm text-red-600">{errors.title.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="date" className="block text-sm font-medium text-gray-700">
+                  Date
+                </label>
+                <input
+                  {...register("date")}
+                  type="date"
+                  id="date"
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                {errors.date && (
+                  <p className="mt-1 text-sm text-red-600">{errors.date.message}</p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="startTime" className="block text-sm font-medium text-gray-700">
+                    Start Time
+                  </label>
+                  <input
+                    {...register("startTime")}
+                    type="time"
+                    id="startTime"
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  {errors.startTime && (
+                    <p className="mt-1 text-sm text-red-600">{errors.startTime.message}</p>
+                  )}
+                </div>
+                <div>
+                  <label htmlFor="endTime" className="block text-sm font-medium text-gray-700">
+                    End Time
+                  </label>
+                  <input
+                    {...register("endTime")}
+                    type="time"
+                    id="endTime"
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  {errors.endTime && (
+                    <p className="mt-1 text-sm text-red-600">{errors.endTime.message}</p>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="notes" className="block text-sm font-medium text-gray-700">
+                  Notes
+                </label>
+                <textarea
+                  {...register("notes")}
+                  id="notes"
+                  rows={3}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Add meeting notes..."
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Submit Button */}
+          <div className="flex justify-end space-x-4">
+            <button
+              type="button"
+              onClick={() => router.push(`/meetings/${resolvedParams.id}`)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? "Saving..." : "Save Changes"}
+            </button>
+          </div>
+        </form>
+
+        {/* Danger Zone */}
+        <div className="bg-white rounded-lg shadow p-6 mt-8 border border-red-200">
+          <h2 className="text-lg font-medium text-red-700 mb-2">Delete Meeting</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Deleting this meeting also deletes its {meeting.ttfus.length} TTFU(s) together with all of their evidence and reviews.
+          </p>
+          <button
+            type="button"
+            onClick={onDelete}
+            disabled={isDeleting}
+            className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <IconTrash className="h-4 w-4" />
+            <span>{isDeleting ? "Deleting..." : "Delete Meeting"}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
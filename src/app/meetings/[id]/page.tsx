@@ -4,8 +4,13 @@ import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import { useEffect, useState, use } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { IconArrowLeft, IconPlus, IconCalendar } from "@tabler/icons-react";
-import { formatDateTime, formatDateRange, getStatusColor, getRoleColor } from "@/lib/utils";
+import { IconArrowLeft, IconPlus, IconCalendar, IconEdit, IconFileTypePdf, IconFileSpreadsheet, IconMail } from "@tabler/icons-react";
+import { formatDateTime, formatDateRange, getStatusColor } from "@/lib/utils";
+import { AuditTimeline } from "@/components/audit/AuditTimeline";
+import { InvitesPanel } from "@/components/meetings/InvitesPanel";
+import { ParticipantsPanel } from "@/components/meetings/ParticipantsPanel";
+import { EscalationPolicyPanel } from "@/components/meetings/EscalationPolicyPanel";
+import { OverdueBadge } from "@/components/ttfu/OverdueBadge";
 
 interface Meeting {
   id: string;
@@ -63,6 +68,7 @@ export default function MeetingDetail({ params }: { params: Promise<{ id: string
   const { data: session, status } = useSession();
   const router = useRouter();
   const [activeTab, setActiveTab] = useState("all");
+  const [isSendingRecap, setIsSendingRecap] = useState(false);
   const resolvedParams = use(params);
 
   useEffect(() => {
@@ -90,6 +96,32 @@ export default function MeetingDetail({ params }: { params: Promise<{ id: string
     return meeting.ttfus.filter(ttfu => ttfu.status === status).length;
   };
 
+  const canManageMeeting = () => {
+    if (!meeting || !session) return false;
+    const user = session.user as { id: string; globalRole: string };
+    return (
+      user.globalRole === "ADMIN" ||
+      meeting.createdBy.id === user.id ||
+      meeting.participants.some(p => p.user.id === user.id && p.role === "spv")
+    );
+  };
+
+  const sendRecap = async () => {
+    if (!confirm("Email the meeting recap to all participants?")) return;
+    setIsSendingRecap(true);
+    try {
+      const response = await fetch(`/api/reports/meeting/${resolvedParams.id}/email`, {
+        method: "POST",
+      });
+      const result = await response.json();
+      alert(response.ok ? `Recap queued for ${result.data.queued} recipient(s)` : result.error || "Failed to send recap");
+    } catch (error) {
+      alert(`An error occurred while sending the recap, ${error}`);
+    } finally {
+      setIsSendingRecap(false);
+    }
+  };
+
   if (status === "loading" || isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -150,12 +182,47 @@ export default function MeetingDetail({ params }: { params: Promise<{ id: string
               <IconArrowLeft className="h-4 w-4" />
               <span>Back</span>
             </button>
-            <div>
+            <div className="flex-1">
               <h1 className="text-2xl font-bold text-gray-900">{meeting.title}</h1>
               <p className="text-sm text-gray-600">
                 {formatDateTime(meeting.date)} • {formatDateRange(meeting.startTime, meeting.endTime)} • Created by {meeting.createdBy.name}
               </p>
             </div>
+            <div className="flex items-center space-x-2">
+              <a
+                href={`/api/reports/meeting/${meeting.id}/pdf`}
+                className="flex items-center space-x-2 border border-gray-300 text-gray-700 px-3 py-2 rounded-md hover:bg-gray-50"
+              >
+                <IconFileTypePdf className="h-4 w-4" />
+                <span>Export PDF</span>
+              </a>
+              <a
+                href={`/api/ttfu/export?meetingId=${meeting.id}&format=xlsx`}
+                className="flex items-center space-x-2 border border-gray-300 text-gray-700 px-3 py-2 rounded-md hover:bg-gray-50"
+              >
+                <IconFileSpreadsheet className="h-4 w-4" />
+                <span>Export Excel</span>
+              </a>
+              {canManageMeeting() && (
+                <button
+                  onClick={sendRecap}
+                  disabled={isSendingRecap}
+                  className="flex items-center space-x-2 border border-gray-300 text-gray-700 px-3 py-2 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <IconMail className="h-4 w-4" />
+                  <span>Email Recap</span>
+                </button>
+              )}
+              {canManageMeeting() && (
+                <button
+                  onClick={() => router.push(`/meetings/${meeting.id}/edit`)}
+                  className="flex items-center space-x-2 border border-gray-300 text-gray-700 px-3 py-2 rounded-md hover:bg-gray-50"
+                >
+                  <IconEdit className="h-4 w-4" />
+                  <span>Edit</span>
+                </button>
+              )}
+            </div>
           </div>
         </div>
       </header>
@@ -180,21 +247,28 @@ export default function MeetingDetail({ params }: { params: Promise<{ id: string
                   </div>
                 )}
 
-                <div>
-                  <h3 className="text-sm font-medium text-gray-900 mb-2">Participants</h3>
-                  <div className="space-y-2">
-                    {meeting.participants.map((participant) => (
-                      <div key={participant.id} className="flex items-center justify-between">
-                        <span className="text-sm text-gray-600">{participant.user.name}</span>
-                        <span className={`px-2 py-1 text-xs rounded-full ${getRoleColor(participant.role)}`}>
-                          {participant.role}
-                        </span>
-                      </div>
-                    ))}
-                  </div>
-                </div>
+                <ParticipantsPanel
+                  meetingId={meeting.id}
+                  participants={meeting.participants}
+                  canManage={canManageMeeting()}
+                  currentUserId={(session.user as { id: string }).id}
+                />
               </div>
             </div>
+
+            {canManageMeeting() && (
+              <div className="mt-8">
+                <InvitesPanel meetingId={meeting.id} />
+              </div>
+            )}
+
+            <div className="mt-8">
+              <EscalationPolicyPanel meetingId={meeting.id} canManage={canManageMeeting()} />
+            </div>
+
+            <div className="mt-8">
+              <AuditTimeline entity="MEETING" entityId={meeting.id} />
+            </div>
           </div>
 
           {/* TTFUs */}
@@ -203,13 +277,15 @@ export default function MeetingDetail({ params }: { params: Promise<{ id: string
               <div className="px-6 py-4 border-b border-gray-200">
                 <div className="flex items-center justify-between">
                   <h2 className="text-lg font-medium text-gray-900">TTFUs</h2>
-                  <button
-                    onClick={() => router.push(`/meetings/${meeting.id}/ttfu/new`)}
-                    className="flex items-center space-x-2 bg-blue-600 text-white px-3 py-2 rounded-md hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-                  >
-                    <IconPlus className="h-4 w-4" />
-                    <span>Add TTFU</span>
-                  </button>
+                  {canManageMeeting() && (
+                    <button
+                      onClick={() => router.push(`/meetings/${meeting.id}/ttfu/new`)}
+                      className="flex items-center space-x-2 bg-blue-600 text-white px-3 py-2 rounded-md hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                    >
+                      <IconPlus className="h-4 w-4" />
+                      <span>Add TTFU</span>
+                    </button>
+                  )}
                 </div>
               </div>
 
@@ -277,7 +353,8 @@ export default function MeetingDetail({ params }: { params: Promise<{ id: string
                             </div>
                           </div>
                         </div>
-                        <div className="ml-4">
+                        <div className="ml-4 flex items-center space-x-2">
+                          <OverdueBadge ttfu={ttfu} />
                           <span className={`px-3 py-1 text-sm rounded-full ${getStatusColor(ttfu.status)}`}>
                             {ttfu.status.replace("_", " ")}
                           </span>
@@ -12,18 +12,13 @@ import { IconArrowLeft } from "@tabler/icons-react";
 const createTTFUSchema = z.object({
   title: z.string().min(1, "Title is required"),
   description: z.string().optional(),
+  assigneeId: z.string().optional(),
+  reviewerId: z.string().optional(),
   dueDate: z.string().optional(),
 });
 
 type CreateTTFUForm = z.infer<typeof createTTFUSchema>;
 
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  globalRole: string;
-}
-
 interface Meeting {
   id: string;
   title: string;
@@ -46,12 +41,6 @@ async function fetchMeeting(id: string) {
   return response.json();
 }
 
-async function fetchUsers() {
-  const response = await fetch("/api/users");
-  if (!response.ok) throw new Error("Failed to fetch users");
-  return response.json();
-}
-
 export default function NewTTFU({ params }: { params: Promise<{ id: string }> }) {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -70,13 +59,9 @@ export default function NewTTFU({ params }: { params: Promise<{ id: string }> })
     queryFn: () => fetchMeeting(resolvedParams.id),
   });
 
-  const { data: usersData } = useQuery({
-    queryKey: ["users"],
-    queryFn: fetchUsers,
-  });
-
   const meeting: Meeting = meetingData?.data;
-  const users: User[] = usersData?.data || [];
+  const assigneeOptions = meeting?.participants || [];
+  const reviewerOptions = assigneeOptions.filter(p => p.role === "reviewer" || p.role === "spv");
 
   const {
     register,
@@ -87,6 +72,8 @@ export default function NewTTFU({ params }: { params: Promise<{ id: string }> })
     defaultValues: {
       title: "",
       description: "",
+      assigneeId: "",
+      reviewerId: "",
       dueDate: "",
     },
   });
@@ -94,34 +81,6 @@ export default function NewTTFU({ params }: { params: Promise<{ id: string }> })
   const onSubmit = async (data: CreateTTFUForm) => {
     setIsSubmitting(true);
     try {
-      // Auto-assign based on user role
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const currentUser = users.find(user => user.id === (session?.user as any)?.id);
-      const currentUserRole = currentUser?.globalRole || "user";
-      
-      // Find assignee and reviewer based on role
-      let assigneeId = "";
-      let reviewerId = "";
-      
-      if (currentUserRole === "SPV" || currentUserRole === "USER") {
-        // Supervisor and User become assignee
-        assigneeId = currentUser?.id || "";
-        
-        // Find a reviewer or admin for reviewer
-        const reviewer = users.find(user => user.globalRole === "REVIEWER" || user.globalRole === "ADMIN");
-        reviewerId = reviewer?.id || "";
-      } else {
-        // For reviewer/admin, they can assign to themselves
-        assigneeId = currentUser?.id || "";
-        reviewerId = currentUser?.id || "";
-      }
-
-      // Validate that we have valid IDs
-      if (!assigneeId || !reviewerId) {
-        alert("Unable to assign TTFU. Please try again.");
-        return;
-      }
-
       const response = await fetch("/api/ttfu", {
         method: "POST",
         headers: {
@@ -130,8 +89,9 @@ export default function NewTTFU({ params }: { params: Promise<{ id: string }> })
         body: JSON.stringify({
           ...data,
           meetingId: resolvedParams.id,
-          assigneeId,
-          reviewerId,
+          // Empty pickers let the server apply its fallback rule
+          assigneeId: data.assigneeId || undefined,
+          reviewerId: data.reviewerId || undefined,
         }),
       });
 
@@ -236,12 +196,49 @@ export default function NewTTFU({ params }: { params: Promise<{ id: string }> })
               />
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="assigneeId" className="block text-sm font-medium text-gray-700">
+                  Assignee
+                </label>
+                <select
+                  {...register("assigneeId")}
+                  id="assigneeId"
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Pick automatically</option>
+                  {assigneeOptions.map((participant) => (
+                    <option key={participant.user.id} value={participant.user.id}>
+                      {participant.user.name} ({participant.role})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="reviewerId" className="block text-sm font-medium text-gray-700">
+                  Reviewer
+                </label>
+                <select
+                  {...register("reviewerId")}
+                  id="reviewerId"
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Pick automatically</option>
+                  {reviewerOptions.map((participant) => (
+                    <option key={participant.user.id} value={participant.user.id}>
+                      {participant.user.name} ({participant.role})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
             <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
-              <h3 className="text-sm font-medium text-blue-900 mb-2">Auto Assignment</h3>
+              <h3 className="text-sm font-medium text-blue-900 mb-2">Assignment</h3>
               <div className="text-sm text-blue-700 space-y-1">
-                {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
-                <p>• <strong>Assignee:</strong> {users.find(user => user.id === (session?.user as any)?.id)?.name || "You"} ({(session?.user as any)?.globalRole || "USER"})</p>
-                <p>• <strong>Reviewer:</strong> {users.find(user => user.globalRole === "REVIEWER" || user.globalRole === "ADMIN")?.name || "Reviewer/Admin"} (Reviewer/Admin)</p>
+                <p>• <strong>Assignee:</strong> any participant of this meeting</p>
+                <p>• <strong>Reviewer:</strong> a reviewer or SPV of this meeting</p>
+                <p>• Leave a picker empty to let the meeting&apos;s fallback rule choose</p>
               </div>
             </div>
 
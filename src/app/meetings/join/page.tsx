@@ -2,51 +2,47 @@
 
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
-import { useEffect, useState } from "react";
+import { use, useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { IconArrowLeft, IconUsers, IconCalendar, IconSquareCheck } from "@tabler/icons-react";
-import { formatDateTime, formatDateRange } from "@/lib/utils";
-
-interface Meeting {
-  id: string;
-  title: string;
-  date: string;
-  startTime: string;
-  endTime: string;
-  notes?: string;
-  createdBy: {
-    id: string;
-    name: string;
-    globalRole: string;
-  };
-  participants: Array<{
+import { IconArrowLeft, IconCalendar, IconKey } from "@tabler/icons-react";
+import { formatDateTime, formatDateRange, getRoleColor } from "@/lib/utils";
+
+interface InvitePreview {
+  meeting: {
     id: string;
-    user: {
+    title: string;
+    date: string;
+    startTime: string;
+    endTime: string;
+    createdBy: {
       id: string;
       name: string;
-      globalRole: string;
     };
-    role: string;
-  }>;
-  ttfus: Array<{
-    id: string;
-    status: string;
-  }>;
+  };
+  role: string;
+  requiresApproval: boolean;
+  expiresAt?: string;
+  canJoin: boolean;
+  alreadyJoined: boolean;
+  pendingRequest: boolean;
 }
 
-async function fetchAvailableMeetings() {
-  const response = await fetch("/api/meetings");
-  if (!response.ok) throw new Error("Failed to fetch meetings");
+async function fetchInvite(code: string) {
+  const response = await fetch(`/api/meetings/join?code=${encodeURIComponent(code)}`);
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to load invite");
+  }
   return response.json();
 }
 
-async function joinMeeting(meetingId: string, role: string) {
-  const response = await fetch(`/api/meetings/${meetingId}/join`, {
+async function joinMeeting(code: string) {
+  const response = await fetch("/api/meetings/join", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ role }),
+    body: JSON.stringify({ code }),
   });
   if (!response.ok) {
     const errorData = await response.json();
@@ -55,10 +51,13 @@ async function joinMeeting(meetingId: string, role: string) {
   return response.json();
 }
 
-export default function JoinMeeting() {
+export default function JoinMeeting({ searchParams }: { searchParams: Promise<{ code?: string }> }) {
   const { data: session, status } = useSession();
   const router = useRouter();
-  const [joiningMeeting, setJoiningMeeting] = useState<string | null>(null);
+  const resolvedSearchParams = use(searchParams);
+  const [codeInput, setCodeInput] = useState(resolvedSearchParams.code || "");
+  const [code, setCode] = useState(resolvedSearchParams.code || "");
+  const [isJoining, setIsJoining] = useState(false);
 
   useEffect(() => {
     if (status === "loading") return;
@@ -67,33 +66,34 @@ export default function JoinMeeting() {
     }
   }, [session, status, router]);
 
-  const { data: meetingsData, isLoading, error, refetch } = useQuery({
-    queryKey: ["available-meetings"],
-    queryFn: fetchAvailableMeetings,
+  const { data: inviteData, isLoading, error, refetch } = useQuery({
+    queryKey: ["invite", code],
+    queryFn: () => fetchInvite(code),
+    enabled: !!session && !!code,
+    retry: false,
   });
 
-  const meetings: Meeting[] = meetingsData?.data || [];
+  const invite: InvitePreview | undefined = inviteData?.data;
 
-  const handleJoinMeeting = async (meetingId: string, role: string) => {
-    setJoiningMeeting(meetingId);
+  const handleJoin = async () => {
+    setIsJoining(true);
     try {
-      await joinMeeting(meetingId, role);
-      refetch(); // Refresh the list
-      alert("Successfully joined the meeting!");
+      const result = await joinMeeting(code);
+      if (result.data.status === "joined") {
+        router.push(`/meetings/${result.data.meetingId}`);
+      } else {
+        refetch();
+      }
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } catch (error: any) {
       const errorMessage = error?.message || "Failed to join meeting. Please try again.";
       alert(errorMessage);
     } finally {
-      setJoiningMeeting(null);
+      setIsJoining(false);
     }
   };
 
-  const isUserInMeeting = (meeting: Meeting) => {
-    return meeting.participants.some(p => p.user.id === (session?.user as { id: string })?.id);
-  };
-
-  if (status === "loading" || isLoading) {
+  if (status === "loading") {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -121,90 +121,104 @@ export default function JoinMeeting() {
               <IconArrowLeft className="h-4 w-4" />
               <span>Back</span>
             </button>
-            <h1 className="text-2xl font-bold text-gray-900">Join Available Meetings</h1>
+            <h1 className="text-2xl font-bold text-gray-900">Join a Meeting</h1>
           </div>
         </div>
       </header>
 
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {error ? (
-          <div className="text-center">
-            <p className="text-red-600">Error loading meetings</p>
+      <div className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setCode(codeInput.trim());
+          }}
+          className="bg-white rounded-lg shadow p-6"
+        >
+          <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-2">
+            Invite code
+          </label>
+          <div className="flex space-x-2">
+            <input
+              id="code"
+              type="text"
+              value={codeInput}
+              onChange={(e) => setCodeInput(e.target.value)}
+              placeholder="e.g. 7KQ2MXR9TD"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md font-mono uppercase focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={!codeInput.trim()}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <IconKey className="h-4 w-4" />
+              <span>Check</span>
+            </button>
           </div>
-        ) : meetings.length === 0 ? (
+          <p className="mt-2 text-xs text-gray-500">
+            Meetings are private. Ask the meeting SPV for an invite code or link.
+          </p>
+        </form>
+
+        {code && isLoading && (
           <div className="text-center">
-            <p className="text-gray-600">No meetings available to join</p>
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+          </div>
+        )}
+
+        {code && error && (
+          <div className="bg-white rounded-lg shadow p-6 text-center">
+            <p className="text-red-600">{error.message}</p>
           </div>
-        ) : (
-          <div className="grid gap-6">
-            {meetings.map((meeting) => (
-              <div key={meeting.id} className="bg-white rounded-lg shadow p-6">
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <h3 className="text-lg font-medium text-gray-900">{meeting.title}</h3>
-                    <div className="mt-2 flex items-center space-x-6 text-sm text-gray-600">
-                      <div className="flex items-center space-x-1">
-                        <IconCalendar className="h-4 w-4" />
-                        <span>{formatDateTime(meeting.date)} • {formatDateRange(meeting.startTime, meeting.endTime)}</span>
-                      </div>
-                      <div className="flex items-center space-x-1">
-                        <IconUsers className="h-4 w-4" />
-                        <span>{meeting.participants.length} participants</span>
-                      </div>
-                      <div className="flex items-center space-x-1">
-                        <IconSquareCheck className="h-4 w-4" />
-                        <span>{meeting.ttfus.length} TTFUs</span>
-                      </div>
-                    </div>
-                    {meeting.notes && (
-                      <p className="mt-2 text-sm text-gray-600">{meeting.notes}</p>
-                    )}
-                    <div className="mt-3">
-                      <p className="text-sm text-gray-600">
-                        Created by: <span className="font-medium">{meeting.createdBy.name}</span>
-                      </p>
-                    </div>
-                  </div>
-                  <div className="ml-6">
-                    {isUserInMeeting(meeting) ? (
-                      <div className="flex items-center space-x-2">
-                        <span className="px-3 py-1 text-sm bg-green-100 text-green-800 rounded-full">
-                          Already Joined
-                        </span>
-                        <button
-                          onClick={() => router.push(`/meetings/${meeting.id}`)}
-                          className="px-3 py-1 text-sm text-blue-600 hover:text-blue-800"
-                        >
-                          View
-                        </button>
-                      </div>
-                    ) : (
-                      <div className="flex items-center space-x-2">
-                        <select
-                          className="px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                          onChange={(e) => {
-                            if (e.target.value) {
-                              handleJoinMeeting(meeting.id, e.target.value);
-                            }
-                          }}
-                          disabled={joiningMeeting === meeting.id}
-                        >
-                          <option value="">Join as...</option>
-                          <option value="participant">Participant</option>
-                          {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
-                          {(session?.user as any)?.globalRole === "manager" && (
-                            <option value="reviewer">Reviewer</option>
-                          )}
-                        </select>
-                        {joiningMeeting === meeting.id && (
-                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
-                        )}
-                      </div>
-                    )}
-                  </div>
+        )}
+
+        {invite && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <h3 className="text-lg font-medium text-gray-900">{invite.meeting.title}</h3>
+            <div className="mt-2 flex items-center space-x-1 text-sm text-gray-600">
+              <IconCalendar className="h-4 w-4" />
+              <span>{formatDateTime(invite.meeting.date)} • {formatDateRange(invite.meeting.startTime, invite.meeting.endTime)}</span>
+            </div>
+            <p className="mt-2 text-sm text-gray-600">
+              Created by: <span className="font-medium">{invite.meeting.createdBy.name}</span>
+            </p>
+            <div className="mt-3 flex items-center space-x-2 text-sm text-gray-600">
+              <span>Join as</span>
+              <span className={`px-2 py-1 text-xs rounded-full ${getRoleColor(invite.role)}`}>{invite.role}</span>
+              {invite.expiresAt && <span>• code expires {formatDateTime(invite.expiresAt)}</span>}
+            </div>
+
+            <div className="mt-6 flex justify-end">
+              {invite.alreadyJoined ? (
+                <div className="flex items-center space-x-2">
+                  <span className="px-3 py-1 text-sm bg-green-100 text-green-800 rounded-full">
+                    Already Joined
+                  </span>
+                  <button
+                    onClick={() => router.push(`/meetings/${invite.meeting.id}`)}
+                    className="px-3 py-1 text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    View
+                  </button>
                 </div>
-              </div>
-            ))}
+              ) : invite.pendingRequest ? (
+                <span className="px-3 py-1 text-sm bg-yellow-100 text-yellow-800 rounded-full">
+                  Waiting for the meeting SPV to approve your request
+                </span>
+              ) : !invite.canJoin ? (
+                <p className="text-sm text-red-600">
+                  Your account cannot join a meeting as {invite.role}.
+                </p>
+              ) : (
+                <button
+                  onClick={handleJoin}
+                  disabled={isJoining}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isJoining ? "Joining..." : invite.requiresApproval ? "Request to Join" : "Join Meeting"}
+                </button>
+              )}
+            </div>
           </div>
         )}
       </div>
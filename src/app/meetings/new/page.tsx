@@ -15,6 +15,7 @@ const createMeetingSchema = z.object({
   startTime: z.string().min(1, "Start time is required"),
   endTime: z.string().min(1, "End time is required"),
   notes: z.string().optional(),
+  departmentId: z.string().optional(),
   participants: z.array(z.object({
     userId: z.string(),
     role: z.enum(["spv", "reviewer", "participant"])
@@ -36,6 +37,12 @@ async function fetchUsers() {
   return response.json();
 }
 
+async function fetchOrganizations() {
+  const response = await fetch("/api/organizations");
+  if (!response.ok) throw new Error("Failed to fetch organizations");
+  return response.json();
+}
+
 export default function NewMeeting() {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -55,6 +62,14 @@ export default function NewMeeting() {
 
   const users: User[] = usersData?.data || [];
 
+  const { data: organizationsData } = useQuery({
+    queryKey: ["organizations"],
+    queryFn: fetchOrganizations,
+  });
+
+  const departments: Array<{ id: string; name: string }> =
+    organizationsData?.data?.find((organization: { current: boolean }) => organization.current)?.departments || [];
+
   const {
     register,
     handleSubmit,
@@ -99,7 +114,7 @@ export default function NewMeeting() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(data),
+        body: JSON.stringify({ ...data, departmentId: data.departmentId || undefined }),
       });
 
       if (response.ok) {
@@ -239,6 +254,26 @@ export default function NewMeeting() {
                   placeholder="Add meeting notes..."
                 />
               </div>
+
+              {departments.length > 0 && (
+                <div>
+                  <label htmlFor="departmentId" className="block text-sm font-medium text-gray-700">
+                    Department
+                  </label>
+                  <select
+                    {...register("departmentId")}
+                    id="departmentId"
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">No department</option>
+                    {departments.map((department) => (
+                      <option key={department.id} value={department.id}>
+                        {department.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
           </div>
 
@@ -6,6 +6,7 @@ import { useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { IconArrowLeft, IconEye, IconFileText, IconCalendar, IconUser } from "@tabler/icons-react";
 import { formatDateTime, getStatusColor } from "@/lib/utils";
+import { OverdueBadge } from "@/components/ttfu/OverdueBadge";
 
 interface TTFU {
   id: string;
@@ -217,6 +218,7 @@ export default function ReviewerDashboard() {
                       </div>
                       
                       <div className="flex items-center space-x-2">
+                        <OverdueBadge ttfu={ttfu} />
                         <span className={`px-2 py-1 text-xs rounded ${getStatusColor(ttfu.status)}`}>
                           {ttfu.status}
                         </span>
@@ -285,6 +287,7 @@ export default function ReviewerDashboard() {
                       </div>
                       
                       <div className="flex items-center space-x-2">
+                        <OverdueBadge ttfu={ttfu} />
                         <span className={`px-2 py-1 text-xs rounded ${getStatusColor(ttfu.status)}`}>
                           {ttfu.status}
                         </span>
@@ -0,0 +1,356 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useEffect, useState, use } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { IconArrowLeft, IconTrash } from "@tabler/icons-react";
+
+const updateTTFUSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  description: z.string().optional(),
+  assigneeId: z.string().min(1, "Assignee is required"),
+  reviewerId: z.string().min(1, "Reviewer is required"),
+  dueDate: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+type UpdateTTFUForm = z.infer<typeof updateTTFUSchema>;
+
+interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface TTFU {
+  id: string;
+  title: string;
+  description?: string;
+  dueDate?: string;
+  meeting: {
+    id: string;
+    title: string;
+    participants: Array<{
+      userId: string;
+      role: string;
+      user: User;
+    }>;
+  };
+  assignee: User;
+  reviewer: User;
+  evidences: Array<{
+    id: string;
+    reviews: Array<{ id: string }>;
+  }>;
+}
+
+async function fetchTTFU(id: string) {
+  const response = await fetch(`/api/ttfu/${id}`);
+  if (!response.ok) throw new Error("Failed to fetch TTFU");
+  return response.json();
+}
+
+export default function EditTTFU({ params }: { params: Promise<{ id: string }> }) {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const resolvedParams = use(params);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) {
+      router.push("/auth/signin");
+    }
+  }, [session, status, router]);
+
+  const { data: ttfuData, isLoading } = useQuery({
+    queryKey: ["ttfu", resolvedParams.id],
+    queryFn: () => fetchTTFU(resolvedParams.id),
+  });
+
+  const ttfu: TTFU = ttfuData?.data;
+  const assigneeOptions = ttfu?.meeting.participants || [];
+  const reviewerOptions = assigneeOptions.filter(p => p.role === "reviewer" || p.role === "spv");
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    watch,
+  } = useForm<UpdateTTFUForm>({
+    resolver: zodResolver(updateTTFUSchema),
+  });
+
+  useEffect(() => {
+    if (!ttfu) return;
+    reset({
+      title: ttfu.title,
+      description: ttfu.description || "",
+      assigneeId: ttfu.assignee.id,
+      reviewerId: ttfu.reviewer.id,
+      dueDate: ttfu.dueDate ? ttfu.dueDate.split("T")[0] : "",
+      notes: "",
+    });
+  }, [ttfu, reset]);
+
+  const assigneeId = watch("assigneeId");
+  const reviewerId = watch("reviewerId");
+  const isReassigning = !!ttfu && (assigneeId !== ttfu.assignee.id || reviewerId !== ttfu.reviewer.id);
+
+  const onSubmit = async (data: UpdateTTFUForm) => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/ttfu/${resolvedParams.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...data,
+          description: data.description || null,
+          dueDate: data.dueDate || null,
+        }),
+      });
+
+      if (response.ok) {
+        queryClient.invalidateQueries({ queryKey: ["ttfu", resolvedParams.id] });
+        router.push(`/ttfu/${resolvedParams.id}`);
+      } else {
+        const errorData = await response.json();
+        console.error("TTFU update error:", errorData);
+        alert(errorData.error || "Failed to update TTFU");
+      }
+    } catch (error) {
+      console.error("TTFU update error:", error);
+      alert("An error occurred while updating the TTFU");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const onDelete = async () => {
+    const reviewCount = ttfu.evidences.reduce((sum, evidence) => sum + evidence.reviews.length, 0);
+    const confirmed = confirm(
+      `Delete "${ttfu.title}"?\n\n` +
+      `This will permanently delete ${ttfu.evidences.length} evidence item(s) and ${reviewCount} review(s). This cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    setIsDeleting(true);
+    try {
+      const response = await fetch(`/api/ttfu/${resolvedParams.id}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        queryClient.invalidateQueries({ queryKey: ["meeting", ttfu.meeting.id] });
+        router.push(`/meetings/${ttfu.meeting.id}`);
+      } else {
+        const errorData = await response.json();
+        alert(errorData.error || "Failed to delete TTFU");
+      }
+    } catch (error) {
+      console.error("TTFU delete error:", error);
+      alert("An error occurred while deleting the TTFU");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (status === "loading" || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  if (!ttfu) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-gray-600">TTFU not found</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <button
+              onClick={() => router.push(`/ttfu/${resolvedParams.id}`)}
+              className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 mr-4"
+            >
+              <IconArrowLeft className="h-4 w-4" />
+              <span>Back to TTFU</span>
+            </button>
+            <h1 className="text-2xl font-bold text-gray-900">Edit TTFU</h1>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-2">Meeting: {ttfu.meeting.title}</h2>
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="bg-white rounded-lg shadow p-6">
+          <div className="space-y-6">
+            <div>
+              <label htmlFor="title" className="block text-sm font-medium text-gray-700">
+                TTFU Title
+              </label>
+              <input
+                {...register("title")}
+                type="text"
+                id="title"
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Enter TTFU title"
+              />
+              {errors.title && (
+                <p className="mt-1 text-sm text-red-600">{errors.title.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="description" className="block text-sm font-medium text-gray-700">
+                Description
+              </label>
+              <textarea
+                {...register("description")}
+                id="description"
+                rows={3}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Enter TTFU description..."
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="assigneeId" className="block text-sm font-medium text-gray-700">
+                  Assignee
+                </label>
+                <select
+                  {...register("assigneeId")}
+                  id="assigneeId"
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {assigneeOptions.map((participant) => (
+                    <option key={participant.userId} value={participant.userId}>
+                      {participant.user.name} ({participant.role})
+                    </option>
+                  ))}
+                </select>
+                {errors.assigneeId && (
+                  <p className="mt-1 text-sm text-red-600">{errors.assigneeId.message}</p>
+                )}
+              </div>
+              <div>
+                <label htmlFor="reviewerId" className="block text-sm font-medium text-gray-700">
+                  Reviewer
+                </label>
+                <select
+                  {...register("reviewerId")}
+                  id="reviewerId"
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {reviewerOptions.map((participant) => (
+                    <option key={participant.userId} value={participant.userId}>
+                      {participant.user.name} ({participant.role})
+                    </option>
+                  ))}
+                </select>
+                {errors.reviewerId && (
+                  <p className="mt-1 text-sm text-red-600">{errors.reviewerId.message}</p>
+                )}
+              </div>
+            </div>
+
+            {isReassigning && (
+              <div>
+                <label htmlFor="notes" className="block text-sm font-medium text-gray-700">
+                  Reason for Reassignment
+                </label>
+                <textarea
+                  {...register("notes")}
+                  id="notes"
+                  rows={2}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Why is this TTFU being reassigned?"
+                />
+                <p className="mt-1 text-sm text-gray-500">
+                  The previous assignee/reviewer is kept in the TTFU&apos;s assignment history
+                </p>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="dueDate" className="block text-sm font-medium text-gray-700">
+                Due Date
+              </label>
+              <input
+                {...register("dueDate")}
+                type="date"
+                id="dueDate"
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          {/* Submit Button */}
+          <div className="flex justify-end space-x-4 mt-8">
+            <button
+              type="button"
+              onClick={() => router.push(`/ttfu/${resolvedParams.id}`)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? "Saving..." : "Save Changes"}
+            </button>
+          </div>
+        </form>
+
+        {/* Danger Zone */}
+        <div className="bg-white rounded-lg shadow p-6 mt-8 border border-red-200">
+          <h2 className="text-lg font-medium text-red-700 mb-2">Delete TTFU</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Deleting this TTFU also deletes its {ttfu.evidences.length} evidence item(s) and their reviews.
+          </p>
+          <button
+            type="button"
+            onClick={onDelete}
+            disabled={isDeleting}
+            className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <IconTrash className="h-4 w-4" />
+            <span>{isDeleting ? "Deleting..." : "Delete TTFU"}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -123,9 +123,8 @@ export default function ReviewEvidence({
     );
   }
 
-  // Check if user is reviewer or admin
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const canReview = (session?.user as any)?.globalRole === "REVIEWER" || (session?.user as any)?.globalRole === "ADMIN";
+  // Same rule as "evidence:review" in the policy: the TTFU's assigned reviewer, or an admin
+  const canReview = session.user.id === ttfu.data.reviewer?.id || session.user.globalRole === "ADMIN";
 
   if (!canReview) {
     return (
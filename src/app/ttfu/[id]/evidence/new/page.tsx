@@ -7,13 +7,20 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { IconArrowLeft, IconLink } from "@tabler/icons-react";
+import { IconArrowLeft, IconLink, IconUpload } from "@tabler/icons-react";
 
 const createEvidenceSchema = z.object({
   type: z.enum(["link", "file"]),
-  url: z.string().url().optional(),
-  filePath: z.string().optional(),
+  url: z.string().optional(),
   description: z.string().optional(),
+}).refine((data) => {
+  if (data.type === "link") {
+    return z.string().url().safeParse(data.url).success;
+  }
+  return true;
+}, {
+  message: "A valid URL is required for link evidence",
+  path: ["url"],
 });
 
 type CreateEvidenceForm = z.infer<typeof createEvidenceSchema>;
@@ -22,7 +29,8 @@ export default function NewEvidence({ params }: { params: Promise<{ id: string }
   const router = useRouter();
   const { data: session, status } = useSession();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const evidenceType = "link"; // Default to link only
+  const [file, setFile] = useState<File | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
   const queryClient = useQueryClient();
 
   const resolvedParams = use(params);
@@ -43,6 +51,8 @@ export default function NewEvidence({ params }: { params: Promise<{ id: string }
     register,
     handleSubmit,
     formState: { errors },
+    watch,
+    setValue,
   } = useForm<CreateEvidenceForm>({
     resolver: zodResolver(createEvidenceSchema),
     defaultValues: {
@@ -52,19 +62,39 @@ export default function NewEvidence({ params }: { params: Promise<{ id: string }
     },
   });
 
+  const evidenceType = watch("type");
+
   const onSubmit = async (data: CreateEvidenceForm) => {
+    if (data.type === "file" && !file) {
+      setFileError("Please choose a file to upload");
+      return;
+    }
+
     setIsSubmitting(true);
     try {
-      const response = await fetch(`/api/ttfu/${resolvedParams.id}/evidence`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          ...data,
-          type: evidenceType,
-        }),
-      });
+      let response: Response;
+      if (data.type === "file" && file) {
+        // Let the browser set the multipart boundary
+        const formData = new FormData();
+        formData.append("file", file);
+        formData.append("description", data.description || "");
+        response = await fetch(`/api/ttfu/${resolvedParams.id}/evidence`, {
+          method: "POST",
+          body: formData,
+        });
+      } else {
+        response = await fetch(`/api/ttfu/${resolvedParams.id}/evidence`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            type: "link",
+            url: data.url,
+            description: data.description,
+          }),
+        });
+      }
 
       if (response.ok) {
         await response.json();
@@ -140,39 +170,88 @@ export default function NewEvidence({ params }: { params: Promise<{ id: string }
 
         <form onSubmit={handleSubmit(onSubmit)} className="bg-white rounded-lg shadow p-6">
           <div className="space-y-6">
-            {/* Evidence Type - Link Only */}
+            {/* Evidence Type */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-3">
                 Evidence Type
               </label>
-              <div className="flex items-center space-x-2 px-4 py-2 bg-blue-50 border border-blue-500 text-blue-700 rounded-md">
-                <IconLink className="h-4 w-4" />
-                <span>Link (Google Drive/Dropbox)</span>
+              <div className="grid grid-cols-2 gap-3">
+                <button
+                  type="button"
+                  onClick={() => setValue("type", "link")}
+                  className={`flex items-center justify-center space-x-2 px-4 py-2 rounded-md border ${
+                    evidenceType === "link"
+                      ? "bg-blue-50 border-blue-500 text-blue-700"
+                      : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  <IconLink className="h-4 w-4" />
+                  <span>Link (Google Drive/Dropbox)</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setValue("type", "file")}
+                  className={`flex items-center justify-center space-x-2 px-4 py-2 rounded-md border ${
+                    evidenceType === "file"
+                      ? "bg-blue-50 border-blue-500 text-blue-700"
+                      : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  <IconUpload className="h-4 w-4" />
+                  <span>Upload File</span>
+                </button>
               </div>
             </div>
 
-            {/* URL Input for Link Evidence */}
-            <div>
-              <label htmlFor="url" className="block text-sm font-medium text-gray-700">
-                Link URL *
-              </label>
-              <div className="mt-1 relative">
+            {/* File Input for File Evidence */}
+            {evidenceType === "file" && (
+              <div>
+                <label htmlFor="file" className="block text-sm font-medium text-gray-700">
+                  File *
+                </label>
                 <input
-                  {...register("url")}
-                  type="url"
-                  id="url"
-                  className="block w-full border border-gray-300 rounded-md px-3 py-2 pl-10 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="https://drive.google.com/... or https://dropbox.com/..."
+                  type="file"
+                  id="file"
+                  accept="image/png,image/jpeg,image/gif,image/webp,application/pdf"
+                  onChange={(e) => {
+                    setFile(e.target.files?.[0] || null);
+                    setFileError(null);
+                  }}
+                  className="mt-1 block w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
                 />
-                <IconLink className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+                {fileError && (
+                  <p className="mt-1 text-sm text-red-600">{fileError}</p>
+                )}
+                <p className="mt-1 text-sm text-gray-500">
+                  Screenshots (PNG, JPG, GIF, WebP) or PDF documents, up to 10 MB
+                </p>
               </div>
-              {errors.url && (
-                <p className="mt-1 text-sm text-red-600">{errors.url.message}</p>
-              )}
-              <p className="mt-1 text-sm text-gray-500">
-                Paste the sharing link from Google Drive, Dropbox, or other cloud storage
-              </p>
-            </div>
+            )}
+
+            {/* URL Input for Link Evidence */}
+            {evidenceType === "link" && (
+              <div>
+                <label htmlFor="url" className="block text-sm font-medium text-gray-700">
+                  Link URL *
+                </label>
+                <div className="mt-1 relative">
+                  <input
+                    {...register("url")}
+                    type="url"
+                    id="url"
+                    className="block w-full border border-gray-300 rounded-md px-3 py-2 pl-10 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="https://drive.google.com/... or https://dropbox.com/..."
+                  />
+                  <IconLink className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+                </div>
+                {errors.url && (
+                  <p className="mt-1 text-sm text-red-600">{errors.url.message}</p>
+                )}
+                <p className="mt-1 text-sm text-gray-500">
+                  Paste the sharing link from Google Drive, Dropbox, or other cloud storage
+                </p>
+              </div>
+            )}
 
             {/* Description */}
             <div>
@@ -193,6 +272,7 @@ export default function NewEvidence({ params }: { params: Promise<{ id: string }
               <h3 className="text-sm font-medium text-blue-900 mb-2">Evidence Guidelines</h3>
               <div className="text-sm text-blue-700 space-y-1">
                 <p>• <strong>Link Evidence:</strong> Use Google Drive, Dropbox, or other cloud storage links</p>
+                <p>• <strong>File Evidence:</strong> Upload screenshots or PDFs that are not hosted anywhere</p>
                 <p>• <strong>Description:</strong> Explain what the evidence proves or contains</p>
                 <p>• <strong>Review Process:</strong> Evidence will be reviewed by assigned reviewers</p>
               </div>
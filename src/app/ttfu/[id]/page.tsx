@@ -6,8 +6,10 @@ import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import { useEffect, use } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { IconArrowLeft, IconPlus, IconCalendar, IconUser, IconSquareCheck, IconFileText } from "@tabler/icons-react";
+import { IconArrowLeft, IconPlus, IconCalendar, IconUser, IconSquareCheck, IconFileText, IconEdit } from "@tabler/icons-react";
 import { formatDateTime, getStatusColor } from "@/lib/utils";
+import { AuditTimeline } from "@/components/audit/AuditTimeline";
+import { OverdueBadge } from "@/components/ttfu/OverdueBadge";
 
 interface TTFU {
   id: string;
@@ -19,6 +21,11 @@ interface TTFU {
     id: string;
     title: string;
     date: string;
+    createdById: string;
+    participants: Array<{
+      userId: string;
+      role: string;
+    }>;
   };
   assignee: {
     id: string;
@@ -36,6 +43,8 @@ interface TTFU {
     id: string;
     type: string;
     url?: string;
+    fileName?: string;
+    fileSize?: number;
     description?: string;
     submittedBy: {
       id: string;
@@ -52,6 +61,15 @@ interface TTFU {
       };
     }>;
   }>;
+  reassignments: Array<{
+    id: string;
+    role: string;
+    note?: string;
+    fromUser: { id: string; name: string };
+    toUser: { id: string; name: string };
+    changedBy: { id: string; name: string };
+    createdAt: string;
+  }>;
   createdAt: string;
   updatedAt: string;
 }
@@ -81,6 +99,16 @@ export default function TTFUDetail({ params }: { params: Promise<{ id: string }>
 
   const ttfu: TTFU = ttfuData?.data;
 
+  const canManageTTFU = () => {
+    if (!ttfu || !session) return false;
+    const user = session.user as { id: string; globalRole: string };
+    return (
+      user.globalRole === "ADMIN" ||
+      ttfu.meeting.createdById === user.id ||
+      ttfu.meeting.participants.some(p => p.userId === user.id && p.role === "spv")
+    );
+  };
+
   if (status === "loading" || isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -141,14 +169,15 @@ export default function TTFUDetail({ params }: { params: Promise<{ id: string }>
             <div className="flex items-start justify-between mb-4">
               <h2 className="text-xl font-semibold text-gray-900">{ttfu.title}</h2>
               <div className="flex items-center space-x-2">
+                <OverdueBadge ttfu={ttfu} />
                 <span className={`px-3 py-1 text-sm rounded-full ${getStatusColor(ttfu.status)}`}>
                   {ttfu.status}
                 </span>
-                {/* Update Status Button - Only show for assignee, reviewer, or admin */}
+                {/* Update Status Button - Only show for assignee, reviewer, or meeting managers */}
                 {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
                 {((session?.user as any)?.id === ttfu.assignee.id || 
                   (session?.user as any)?.id === ttfu.reviewer.id || 
-                  (session?.user as any)?.globalRole === "ADMIN") && (
+                  canManageTTFU()) && (
                   <button
                     onClick={() => router.push(`/ttfu/${ttfu.id}/status`)}
                     className="bg-gray-600 text-white px-3 py-1 rounded-md hover:bg-gray-700 text-sm font-medium"
@@ -156,6 +185,15 @@ export default function TTFUDetail({ params }: { params: Promise<{ id: string }>
                     Update Status
                   </button>
                 )}
+                {canManageTTFU() && (
+                  <button
+                    onClick={() => router.push(`/ttfu/${ttfu.id}/edit`)}
+                    className="flex items-center space-x-1 border border-gray-300 text-gray-700 px-3 py-1 rounded-md hover:bg-gray-50 text-sm font-medium"
+                  >
+                    <IconEdit className="h-4 w-4" />
+                    <span>Edit</span>
+                  </button>
+                )}
               </div>
             </div>
 
@@ -185,6 +223,28 @@ export default function TTFUDetail({ params }: { params: Promise<{ id: string }>
             </div>
           </div>
 
+          {/* Assignment History */}
+          {ttfu.reassignments.length > 0 && (
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Assignment History</h3>
+              <div className="space-y-3">
+                {ttfu.reassignments.map((reassignment) => (
+                  <div key={reassignment.id} className="text-sm text-gray-600">
+                    <p>
+                      <span className="font-medium capitalize">{reassignment.role}</span> changed from{" "}
+                      <span className="font-medium">{reassignment.fromUser.name}</span> to{" "}
+                      <span className="font-medium">{reassignment.toUser.name}</span> by {reassignment.changedBy.name}
+                      <span className="text-gray-400"> • {formatDateTime(reassignment.createdAt)}</span>
+                    </p>
+                    {reassignment.note && (
+                      <p className="text-gray-500">&ldquo;{reassignment.note}&rdquo;</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Meeting Info */}
           <div className="bg-white rounded-lg shadow p-6">
             <h3 className="text-lg font-medium text-gray-900 mb-4">Related Meeting</h3>
@@ -206,13 +266,16 @@ export default function TTFUDetail({ params }: { params: Promise<{ id: string }>
           <div className="bg-white rounded-lg shadow p-6">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-medium text-gray-900">Evidences</h3>
-              <button
-                onClick={() => router.push(`/ttfu/${ttfu.id}/evidence/new`)}
-                className="flex items-center space-x-2 bg-blue-600 text-white px-3 py-2 rounded-md hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-              >
-                <IconPlus className="h-4 w-4" />
-                <span>Add Evidence</span>
-              </button>
+              {/* Only the assignee (or an admin) submits evidence */}
+              {((session?.user as any)?.id === ttfu.assignee.id || (session?.user as any)?.globalRole === "ADMIN") && (
+                <button
+                  onClick={() => router.push(`/ttfu/${ttfu.id}/evidence/new`)}
+                  className="flex items-center space-x-2 bg-blue-600 text-white px-3 py-2 rounded-md hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                >
+                  <IconPlus className="h-4 w-4" />
+                  <span>Add Evidence</span>
+                </button>
+              )}
             </div>
 
             {ttfu.evidences.length === 0 ? (
@@ -230,9 +293,9 @@ export default function TTFUDetail({ params }: { params: Promise<{ id: string }>
                         <span className="text-sm text-gray-500">
                           by {evidence.submittedBy.name}
                         </span>
-                        {/* Review Button - Only show for reviewers/admins who haven't reviewed yet */}
+                        {/* Review Button - Only show for the assigned reviewer/admins who haven't reviewed yet */}
                         {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
-                        {((session?.user as any)?.globalRole === "REVIEWER" || (session?.user as any)?.globalRole === "ADMIN") && 
+                        {((session?.user as any)?.id === ttfu.reviewer.id || (session?.user as any)?.globalRole === "ADMIN") && 
                           !evidence.reviews.some((review: any) => review.reviewer.id === (session?.user as any)?.id) && (
                           <button
                             onClick={() => router.push(`/ttfu/${ttfu.id}/evidence/${evidence.id}/review`)}
@@ -259,9 +322,21 @@ export default function TTFUDetail({ params }: { params: Promise<{ id: string }>
                       </a>
                     )}
 
+                    {evidence.type === "file" && (
+                      <a
+                        href={`/api/ttfu/${ttfu.id}/evidence/${evidence.id}/file`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:text-blue-800 text-sm"
+                      >
+                        {evidence.fileName || "Download File"}
+                        {evidence.fileSize ? ` (${Math.ceil(evidence.fileSize / 1024)} KB)` : ""}
+                      </a>
+                    )}
+
                     {/* Review Status */}
                     {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
-                    {((session?.user as any)?.globalRole === "REVIEWER" || (session?.user as any)?.globalRole === "ADMIN") && (
+                    {((session?.user as any)?.id === ttfu.reviewer.id || (session?.user as any)?.globalRole === "ADMIN") && (
                       <div className="mt-2">
                         {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
                         {evidence.reviews.some((review: any) => review.reviewer.id === (session?.user as any)?.id) ? (
@@ -298,6 +373,9 @@ export default function TTFUDetail({ params }: { params: Promise<{ id: string }>
               </div>
             )}
           </div>
+
+          {/* Activity */}
+          <AuditTimeline entity="TTFU" entityId={ttfu.id} />
         </div>
       </div>
     </div>
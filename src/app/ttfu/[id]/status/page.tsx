@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, use } from "react";
+import { useEffect, useState, use } from "react";
 import { useRouter } from "next/navigation";
 import { useSession } from "next-auth/react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
@@ -8,6 +8,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { IconArrowLeft, IconCheck, IconX, IconRefresh, IconClock } from "@tabler/icons-react";
+import { canTransition, isAssigneeTransition } from "@/lib/workflow";
 
 const updateTTFUStatusSchema = z.object({
   status: z.enum(["OPEN", "IN_PROGRESS", "DONE", "REJECTED"]),
@@ -45,16 +46,34 @@ export default function UpdateTTFUStatus({
     handleSubmit,
     formState: { errors },
     watch,
+    setValue,
+    reset,
   } = useForm<UpdateTTFUStatusForm>({
     resolver: zodResolver(updateTTFUStatusSchema),
     defaultValues: {
-      status: ttfu?.data?.status || "OPEN",
+      status: "OPEN",
       notes: "",
     },
   });
 
+  const currentStatus: UpdateTTFUStatusForm["status"] = ttfu?.data?.status || "OPEN";
   const selectedStatus = watch("status");
 
+  // Anyone else who gets this far is the reviewer or a meeting manager; the API has the final say
+  const currentUser = session?.user;
+  const isOnlyAssignee =
+    ttfu?.data?.assignee.id === currentUser?.id &&
+    ttfu?.data?.reviewer.id !== currentUser?.id &&
+    currentUser?.globalRole !== "ADMIN";
+  const isAllowed = (to: UpdateTTFUStatusForm["status"]) =>
+    canTransition(currentStatus, to) && (!isOnlyAssignee || isAssigneeTransition(currentStatus, to));
+
+  useEffect(() => {
+    if (ttfu?.data) {
+      reset({ status: ttfu.data.status, notes: "" });
+    }
+  }, [ttfu, reset]);
+
   const onSubmit = async (data: UpdateTTFUStatusForm) => {
     setIsSubmitting(true);
     try {
@@ -152,14 +171,9 @@ export default function UpdateTTFUStatus({
               <div className="grid grid-cols-2 gap-3">
                 <button
                   type="button"
-                  onClick={() => {
-                    const form = document.querySelector('form');
-                    if (form) {
-                      const statusInput = form.querySelector('input[name="status"]') as HTMLInputElement;
-                      if (statusInput) statusInput.value = "OPEN";
-                    }
-                  }}
-                  className={`flex items-center justify-center space-x-2 px-4 py-3 rounded-md border ${
+                  onClick={() => setValue("status", "OPEN")}
+                  disabled={!isAllowed("OPEN")}
+                  className={`flex items-center justify-center space-x-2 px-4 py-3 rounded-md border disabled:opacity-50 disabled:cursor-not-allowed ${
                     selectedStatus === "OPEN"
                       ? "bg-gray-50 border-gray-500 text-gray-700"
                       : "border-gray-300 text-gray-700 hover:bg-gray-50"
@@ -171,14 +185,9 @@ export default function UpdateTTFUStatus({
                 
                 <button
                   type="button"
-                  onClick={() => {
-                    const form = document.querySelector('form');
-                    if (form) {
-                      const statusInput = form.querySelector('input[name="status"]') as HTMLInputElement;
-                      if (statusInput) statusInput.value = "IN_PROGRESS";
-                    }
-                  }}
-                  className={`flex items-center justify-center space-x-2 px-4 py-3 rounded-md border ${
+                  onClick={() => setValue("status", "IN_PROGRESS")}
+                  disabled={!isAllowed("IN_PROGRESS")}
+                  className={`flex items-center justify-center space-x-2 px-4 py-3 rounded-md border disabled:opacity-50 disabled:cursor-not-allowed ${
                     selectedStatus === "IN_PROGRESS"
                       ? "bg-blue-50 border-blue-500 text-blue-700"
                       : "border-gray-300 text-gray-700 hover:bg-gray-50"
@@ -190,14 +199,9 @@ export default function UpdateTTFUStatus({
                 
                 <button
                   type="button"
-                  onClick={() => {
-                    const form = document.querySelector('form');
-                    if (form) {
-                      const statusInput = form.querySelector('input[name="status"]') as HTMLInputElement;
-                      if (statusInput) statusInput.value = "DONE";
-                    }
-                  }}
-                  className={`flex items-center justify-center space-x-2 px-4 py-3 rounded-md border ${
+                  onClick={() => setValue("status", "DONE")}
+                  disabled={!isAllowed("DONE")}
+                  className={`flex items-center justify-center space-x-2 px-4 py-3 rounded-md border disabled:opacity-50 disabled:cursor-not-allowed ${
                     selectedStatus === "DONE"
                       ? "bg-green-50 border-green-500 text-green-700"
                       : "border-gray-300 text-gray-700 hover:bg-gray-50"
@@ -209,14 +213,9 @@ export default function UpdateTTFUStatus({
                 
                 <button
                   type="button"
-                  onClick={() => {
-                    const form = document.querySelector('form');
-                    if (form) {
-                      const statusInput = form.querySelector('input[name="status"]') as HTMLInputElement;
-                      if (statusInput) statusInput.value = "REJECTED";
-                    }
-                  }}
-                  className={`flex items-center justify-center space-x-2 px-4 py-3 rounded-md border ${
+                  onClick={() => setValue("status", "REJECTED")}
+                  disabled={!isAllowed("REJECTED")}
+                  className={`flex items-center justify-center space-x-2 px-4 py-3 rounded-md border disabled:opacity-50 disabled:cursor-not-allowed ${
                     selectedStatus === "REJECTED"
                       ? "bg-red-50 border-red-500 text-red-700"
                       : "border-gray-300 text-gray-700 hover:bg-gray-50"
@@ -259,7 +258,7 @@ export default function UpdateTTFUStatus({
                 <p>• <strong>In Progress:</strong> Task is currently being worked on</p>
                 <p>• <strong>Done:</strong> Task has been completed successfully</p>
                 <p>• <strong>Rejected:</strong> Task has been rejected or cancelled</p>
-                <p>• <strong>Note:</strong> Evidence review is separate from TTFU status</p>
+                <p>• <strong>Note:</strong> Submitting evidence starts an open task, and the assigned reviewer&apos;s verdict moves it to Done, Rejected or back to In Progress</p>
               </div>
             </div>
           </div>
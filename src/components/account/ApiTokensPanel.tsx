@@ -0,0 +1,221 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { IconCopy, IconKey } from "@tabler/icons-react";
+import { formatDateTime } from "@/lib/utils";
+
+// Offered lifetimes in days; 0 means the token never expires
+const EXPIRY_OPTIONS = [
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "1 year", days: 365 },
+  { label: "Never", days: 0 },
+];
+
+interface ApiToken {
+  id: string;
+  name: string;
+  prefix: string;
+  scope: "read" | "write";
+  expiresAt?: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+}
+
+async function fetchApiTokens() {
+  const response = await fetch("/api/tokens");
+  if (!response.ok) throw new Error("Failed to fetch API tokens");
+  return response.json();
+}
+
+function tokenState(token: ApiToken) {
+  if (token.revokedAt) return { label: "Revoked", className: "bg-gray-100 text-gray-700" };
+  if (token.expiresAt && new Date(token.expiresAt) <= new Date()) {
+    return { label: "Expired", className: "bg-gray-100 text-gray-700" };
+  }
+  return { label: "Active", className: "bg-green-100 text-green-800" };
+}
+
+export function ApiTokensPanel() {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState("read");
+  const [expiryDays, setExpiryDays] = useState(90);
+  const [isBusy, setIsBusy] = useState(false);
+  // Only shown right after creation; the server keeps nothing it could show again
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["api-tokens"],
+    queryFn: fetchApiTokens,
+  });
+
+  const tokens: ApiToken[] = data?.data || [];
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setIsBusy(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        alert(result.details?.[0]?.message || result.error || "Request failed");
+        return null;
+      }
+      queryClient.invalidateQueries({ queryKey: ["api-tokens"] });
+      return result.data;
+    } catch (error) {
+      alert(`An error occurred, ${error}`);
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await request("/api/tokens", "POST", {
+      name,
+      scope,
+      expiresInDays: expiryDays || null,
+    });
+    if (created) {
+      setNewToken(created.token);
+      setName("");
+    }
+  };
+
+  const revoke = async (token: ApiToken) => {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) return;
+    await request(`/api/tokens/${token.id}`, "DELETE");
+  };
+
+  return (
+    <div className="space-y-4">
+      {newToken && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="text-sm font-medium text-yellow-900">Copy your new token now</p>
+          <p className="text-sm text-yellow-800 mt-1">It will not be shown again.</p>
+          <div className="mt-2 flex items-center space-x-2">
+            <code className="flex-1 p-2 bg-white border rounded text-sm break-all">{newToken}</code>
+            <button
+              type="button"
+              onClick={() => navigator.clipboard.writeText(newToken)}
+              className="p-2 text-gray-500 hover:text-gray-700"
+              title="Copy token"
+            >
+              <IconCopy className="h-4 w-4" />
+            </button>
+          </div>
+          <button
+            type="button"
+            onClick={() => setNewToken(null)}
+            className="mt-2 text-sm text-yellow-900 hover:underline"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+        <div className="sm:col-span-2">
+          <label className="block text-xs font-medium text-gray-700 mb-1">Name</label>
+          <input
+            type="text"
+            required
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Weekly report script"
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Access</label>
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value)}
+              className="w-full border border-gray-300 rounded-md px-2 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="read">Read</option>
+              <option value="write">Read & write</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Expires</label>
+            <select
+              value={expiryDays}
+              onChange={(e) => setExpiryDays(parseInt(e.target.value))}
+              className="w-full border border-gray-300 rounded-md px-2 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.days} value={option.days}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <button
+          type="submit"
+          disabled={isBusy}
+          className="flex items-center justify-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+        >
+          <IconKey className="h-4 w-4" />
+          <span>Create Token</span>
+        </button>
+      </form>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : tokens.length === 0 ? (
+        <p className="py-4 text-sm text-center text-gray-600">No API tokens yet</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {tokens.map((token) => {
+            const state = tokenState(token);
+            return (
+              <li key={token.id} className="py-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <p className="text-sm font-medium text-gray-900">{token.name}</p>
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                      {token.scope === "write" ? "read & write" : "read"}
+                    </span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${state.className}`}>
+                      {state.label}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    <code>{token.prefix}…</code> · created {formatDateTime(token.createdAt)}
+                    {token.expiresAt && ` · expires ${formatDateTime(token.expiresAt)}`}
+                    {` · ${token.lastUsedAt ? `last used ${formatDateTime(token.lastUsedAt)}` : "never used"}`}
+                  </p>
+                </div>
+                {state.label === "Active" && (
+                  <button
+                    type="button"
+                    disabled={isBusy}
+                    onClick={() => revoke(token)}
+                    className="px-3 py-1 text-sm border border-red-300 rounded-md text-red-700 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Revoke
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
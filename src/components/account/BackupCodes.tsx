@@ -0,0 +1,40 @@
+"use client";
+
+import { IconCopy } from "@tabler/icons-react";
+
+// Shown once, right after the codes are generated; the server only keeps their hashes
+export function BackupCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-medium text-gray-900">Backup codes</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Each code signs you in once if you lose your authenticator. Store them somewhere safe; they will not be shown
+          again.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 border border-gray-200 rounded-md font-mono text-sm text-gray-900">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={() => navigator.clipboard.writeText(codes.join("\n"))}
+          className="flex items-center space-x-1 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+        >
+          <IconCopy className="h-4 w-4" />
+          <span>Copy</span>
+        </button>
+        <button
+          type="button"
+          onClick={onDone}
+          className="px-3 py-2 text-sm rounded-md text-white bg-blue-600 hover:bg-blue-700"
+        >
+          I have saved these codes
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { formatDateTime } from "@/lib/utils";
+
+interface LoginAttempt {
+  id: string;
+  ip?: string;
+  userAgent?: string;
+  outcome: string;
+  success: boolean;
+  createdAt: string;
+}
+
+const OUTCOME_LABELS: Record<string, string> = {
+  SUCCESS: "Signed in",
+  INVALID_CREDENTIALS: "Wrong password",
+  TWO_FACTOR_INVALID: "Wrong two-factor code",
+  LOCKED: "Refused: account locked",
+  DEACTIVATED: "Refused: account deactivated",
+  THROTTLED: "Refused: too many attempts",
+};
+
+async function fetchLoginHistory(userId: string) {
+  const response = await fetch(`/api/users/${userId}/logins?limit=20`);
+  if (!response.ok) throw new Error("Failed to fetch sign-in history");
+  return response.json();
+}
+
+export function LoginHistory({ userId }: { userId: string }) {
+  const { data, isLoading } = useQuery({
+    queryKey: ["logins", userId],
+    queryFn: () => fetchLoginHistory(userId),
+  });
+
+  const attempts: LoginAttempt[] = data?.data || [];
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (attempts.length === 0) {
+    return <p className="py-4 text-sm text-center text-gray-600">No sign-ins recorded</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {attempts.map((attempt) => (
+        <li key={attempt.id} className="py-2 flex items-start justify-between gap-4 text-sm">
+          <div className="min-w-0">
+            <p className={attempt.success ? "text-gray-900" : "text-red-700"}>
+              {OUTCOME_LABELS[attempt.outcome] || attempt.outcome}
+            </p>
+            <p className="text-xs text-gray-500 truncate" title={attempt.userAgent}>
+              {attempt.ip || "Unknown address"}
+              {attempt.userAgent && ` · ${attempt.userAgent}`}
+            </p>
+          </div>
+          <span className="text-xs text-gray-500 whitespace-nowrap">{formatDateTime(attempt.createdAt)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+
+interface Enrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+interface TwoFactorSetupProps {
+  // Only when enrolling from the sign-in page, before there is a session
+  credentials?: { email: string; password: string };
+  onEnabled: (backupCodes: string[]) => void;
+}
+
+export function TwoFactorSetup({ credentials, onEnabled }: TwoFactorSetupProps) {
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Started by a click rather than on mount, so each new secret is one the user asked for
+  const start = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/two-factor/setup", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(credentials ?? {}),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || "Failed to start two-factor setup");
+        return;
+      }
+      setEnrollment(result.data);
+    } catch (error) {
+      setError(`An error occurred. Please try again. ${error}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/two-factor/enable", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ...credentials, code }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.details?.[0]?.message || result.error || "Failed to enable two-factor authentication");
+        return;
+      }
+      onEnabled(result.data.backupCodes);
+    } catch (error) {
+      setError(`An error occurred. Please try again. ${error}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!enrollment) {
+    return (
+      <div className="space-y-2">
+        <button
+          type="button"
+          onClick={start}
+          disabled={isBusy}
+          className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Set up two-factor authentication
+        </button>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Scan the QR code with an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password,
+        then enter the 6-digit code it shows.
+      </p>
+      <div className="flex justify-center">
+        <Image src={enrollment.qrCode} alt="Two-factor QR code" width={200} height={200} unoptimized />
+      </div>
+      <div>
+        <p className="text-xs text-gray-500">Can&apos;t scan? Enter this key instead:</p>
+        <code className="block mt-1 p-2 bg-gray-50 border rounded text-sm break-all">{enrollment.secret}</code>
+      </div>
+      <div>
+        <label htmlFor="totp-code" className="block text-sm font-medium text-gray-700 mb-1">
+          Authentication code
+        </label>
+        <input
+          id="totp-code"
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          required
+          maxLength={6}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className="appearance-none block w-full px-3 py-2 border border-gray-300 text-gray-900 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm tracking-widest"
+        />
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={isBusy || code.length < 6}
+        className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Enable two-factor authentication
+      </button>
+    </form>
+  );
+}
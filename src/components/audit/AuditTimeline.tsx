@@ -0,0 +1,101 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { formatDateTime } from "@/lib/utils";
+import type { AuditMetadata } from "@/types";
+
+interface AuditEntry {
+  id: string;
+  action: string;
+  entity: string;
+  entityId: string;
+  metadata?: AuditMetadata;
+  createdAt: string;
+  user?: {
+    id: string;
+    name: string;
+  };
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  MEETING_CREATE: "created the meeting",
+  MEETING_UPDATE: "edited the meeting",
+  MEETING_DELETE: "deleted the meeting",
+  PARTICIPANT_CREATE: "added a participant",
+  PARTICIPANT_UPDATE: "changed a participant",
+  PARTICIPANT_DELETE: "removed a participant",
+  TTFU_CREATE: "created a TTFU",
+  TTFU_UPDATE: "edited a TTFU",
+  TTFU_DELETE: "deleted a TTFU",
+  TTFU_STATUS_CHANGE: "changed a TTFU status",
+  EVIDENCE_CREATE: "submitted evidence",
+  EVIDENCE_UPDATE: "edited evidence",
+  EVIDENCE_DELETE: "deleted evidence",
+  REVIEW_CREATE: "reviewed evidence",
+  REVIEW_UPDATE: "edited a review",
+  REVIEW_DELETE: "deleted a review",
+};
+
+async function fetchAuditTrail(entity: string, entityId: string) {
+  const response = await fetch(`/api/audit?entity=${entity}&entityId=${entityId}`);
+  if (!response.ok) throw new Error("Failed to fetch audit trail");
+  return response.json();
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) return formatDateTime(value);
+  return String(value);
+}
+
+// Updates list each changed field; creates and deletes only get a headline
+function changesOf(entry: AuditEntry) {
+  const { before, after } = entry.metadata || {};
+  if (!before || !after) return [];
+  return Object.keys(after).map((field) => ({
+    field,
+    from: formatValue(before[field]),
+    to: formatValue(after[field]),
+  }));
+}
+
+export function AuditTimeline({ entity, entityId }: { entity: "MEETING" | "TTFU"; entityId: string }) {
+  // Keyed under the page's own query so invalidating the meeting/TTFU refreshes the timeline too
+  const { data, isLoading, isError } = useQuery({
+    queryKey: [entity.toLowerCase(), entityId, "audit"],
+    queryFn: () => fetchAuditTrail(entity, entityId),
+  });
+
+  const entries: AuditEntry[] = data?.data || [];
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Activity</h3>
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading activity...</p>
+      ) : isError ? (
+        <p className="text-sm text-red-600">Unable to load activity</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No recorded activity yet</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 space-y-4 ml-2">
+          {entries.map((entry) => (
+            <li key={entry.id} className="ml-4">
+              <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300"></div>
+              <p className="text-sm text-gray-900">
+                <span className="font-medium">{entry.user?.name || "System"}</span>{" "}
+                {ACTION_LABELS[entry.action] || entry.action}
+              </p>
+              {changesOf(entry).map((change) => (
+                <p key={change.field} className="text-sm text-gray-600">
+                  <span className="font-medium">{change.field}</span>: {change.from} → {change.to}
+                </p>
+              ))}
+              <p className="text-xs text-gray-400">{formatDateTime(entry.createdAt)}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+
+interface EscalationSettings {
+  reminderDaysBefore: number | null;
+  escalateToSpvAfterDays: number | null;
+  escalateToAdminAfterDays: number | null;
+}
+
+const FIELDS: Array<{ key: keyof EscalationSettings; label: string; unit: string }> = [
+  { key: "reminderDaysBefore", label: "Reminder", unit: "day(s) before due" },
+  { key: "escalateToSpvAfterDays", label: "Escalate to SPV", unit: "day(s) overdue" },
+  { key: "escalateToAdminAfterDays", label: "Escalate to admins", unit: "day(s) overdue" },
+];
+
+async function fetchEscalationPolicy(meetingId: string) {
+  const response = await fetch(`/api/meetings/${meetingId}/escalation-policy`);
+  if (!response.ok) throw new Error("Failed to fetch escalation policy");
+  return response.json();
+}
+
+// Empty inputs mean "off"
+function toForm(settings: EscalationSettings) {
+  return Object.fromEntries(
+    FIELDS.map(({ key }) => [key, settings[key] === null ? "" : String(settings[key])])
+  ) as Record<keyof EscalationSettings, string>;
+}
+
+export function EscalationPolicyPanel({ meetingId, canManage }: { meetingId: string; canManage: boolean }) {
+  const queryClient = useQueryClient();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [form, setForm] = useState<Record<keyof EscalationSettings, string> | null>(null);
+
+  const { data } = useQuery({
+    queryKey: ["meeting", meetingId, "escalation-policy"],
+    queryFn: () => fetchEscalationPolicy(meetingId),
+  });
+
+  const effective: EscalationSettings | undefined = data?.data.effective;
+  const isCustom = !!data?.data.policy;
+
+  useEffect(() => {
+    if (effective && !isEditing) {
+      setForm(toForm(effective));
+    }
+  }, [effective, isEditing]);
+
+  const save = async (method: "PUT" | "DELETE") => {
+    setIsBusy(true);
+    try {
+      const response = await fetch(`/api/meetings/${meetingId}/escalation-policy`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body:
+          method === "PUT" && form
+            ? JSON.stringify(
+                Object.fromEntries(
+                  FIELDS.map(({ key }) => [key, form[key] === "" ? null : parseInt(form[key])])
+                )
+              )
+            : undefined,
+      });
+      if (response.ok) {
+        setIsEditing(false);
+        queryClient.invalidateQueries({ queryKey: ["meeting", meetingId, "escalation-policy"] });
+      } else {
+        const error = await response.json();
+        alert(error.error || "Failed to save escalation policy");
+      }
+    } catch (error) {
+      alert(`An error occurred while saving the escalation policy, ${error}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!effective || !form) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-gray-900">Due Date Escalation</h3>
+        <span className="text-xs text-gray-500">{isCustom ? "Meeting policy" : "Default policy"}</span>
+      </div>
+      <div className="space-y-2">
+        {FIELDS.map(({ key, label, unit }) => (
+          <div key={key} className="flex items-center justify-between text-sm">
+            <span className="text-gray-600">{label}</span>
+            {isEditing ? (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="number"
+                  min={0}
+                  value={form[key]}
+                  placeholder="off"
+                  onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                  className="w-16 border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                <span className="text-xs text-gray-500">{unit}</span>
+              </div>
+            ) : (
+              <span className="text-gray-900">
+                {effective[key] === null ? "Off" : `${effective[key]} ${unit}`}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+      {canManage && (
+        <div className="mt-4 flex justify-end space-x-2">
+          {isEditing ? (
+            <>
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                disabled={isBusy}
+                onClick={() => save("PUT")}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Save
+              </button>
+            </>
+          ) : (
+            <>
+              {isCustom && (
+                <button
+                  type="button"
+                  disabled={isBusy}
+                  onClick={() => save("DELETE")}
+                  className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Use Defaults
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setIsEditing(true)}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Edit
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { IconCheck, IconCopy, IconLink, IconX } from "@tabler/icons-react";
+import { formatDateTime, getRoleColor } from "@/lib/utils";
+
+const ROLES = ["participant", "reviewer", "spv"];
+
+// Offered expiry windows in hours; empty means the code never expires
+const EXPIRY_OPTIONS = [
+  { label: "1 day", hours: 24 },
+  { label: "7 days", hours: 24 * 7 },
+  { label: "30 days", hours: 24 * 30 },
+  { label: "Never", hours: 0 },
+];
+
+interface Invite {
+  id: string;
+  code: string;
+  role: string;
+  requiresApproval: boolean;
+  expiresAt?: string;
+  maxUses?: number;
+  uses: number;
+  active: boolean;
+  createdBy: {
+    id: string;
+    name: string;
+  };
+}
+
+interface JoinRequest {
+  id: string;
+  role: string;
+  createdAt: string;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+}
+
+async function fetchInvites(meetingId: string) {
+  const response = await fetch(`/api/meetings/${meetingId}/invites`);
+  if (!response.ok) throw new Error("Failed to fetch invites");
+  return response.json();
+}
+
+async function fetchJoinRequests(meetingId: string) {
+  const response = await fetch(`/api/meetings/${meetingId}/join-requests`);
+  if (!response.ok) throw new Error("Failed to fetch join requests");
+  return response.json();
+}
+
+function inviteLink(code: string) {
+  return `${window.location.origin}/meetings/join?code=${code}`;
+}
+
+export function InvitesPanel({ meetingId }: { meetingId: string }) {
+  const queryClient = useQueryClient();
+  const [role, setRole] = useState("participant");
+  const [expiryHours, setExpiryHours] = useState(24 * 7);
+  const [requiresApproval, setRequiresApproval] = useState(false);
+  const [maxUses, setMaxUses] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  const { data: invitesData } = useQuery({
+    queryKey: ["meeting", meetingId, "invites"],
+    queryFn: () => fetchInvites(meetingId),
+  });
+
+  const { data: requestsData } = useQuery({
+    queryKey: ["meeting", meetingId, "join-requests"],
+    queryFn: () => fetchJoinRequests(meetingId),
+  });
+
+  const invites: Invite[] = invitesData?.data || [];
+  const requests: JoinRequest[] = requestsData?.data || [];
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["meeting", meetingId] });
+
+  const createInvite = async () => {
+    setIsBusy(true);
+    try {
+      const response = await fetch(`/api/meetings/${meetingId}/invites`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          role,
+          requiresApproval,
+          expiresAt: expiryHours ? new Date(Date.now() + expiryHours * 3600 * 1000).toISOString() : undefined,
+          maxUses: maxUses ? parseInt(maxUses) : undefined,
+        }),
+      });
+      if (response.ok) {
+        setMaxUses("");
+        refresh();
+      } else {
+        const error = await response.json();
+        alert(error.error || "Failed to create invite");
+      }
+    } catch (error) {
+      alert(`An error occurred while creating the invite, ${error}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const revokeInvite = async (invite: Invite) => {
+    if (!confirm(`Revoke invite ${invite.code}? It can no longer be used to join.`)) {
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const response = await fetch(`/api/meetings/${meetingId}/invites/${invite.id}`, {
+        method: "DELETE",
+      });
+      if (response.ok) {
+        refresh();
+      } else {
+        const error = await response.json();
+        alert(error.error || "Failed to revoke invite");
+      }
+    } catch (error) {
+      alert(`An error occurred while revoking the invite, ${error}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const decideRequest = async (request: JoinRequest, decision: "approve" | "deny") => {
+    setIsBusy(true);
+    try {
+      const response = await fetch(`/api/meetings/${meetingId}/join-requests/${request.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ decision }),
+      });
+      if (response.ok) {
+        refresh();
+      } else {
+        const error = await response.json();
+        alert(error.error || "Failed to update join request");
+      }
+    } catch (error) {
+      alert(`An error occurred while updating the join request, ${error}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-6">
+      {requests.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Join Requests</h3>
+          <div className="space-y-2">
+            {requests.map((request) => (
+              <div key={request.id} className="flex items-center justify-between">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-900 truncate">{request.user.name}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {request.user.email} • as {request.role}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    type="button"
+                    disabled={isBusy}
+                    onClick={() => decideRequest(request, "approve")}
+                    className="text-gray-400 hover:text-green-600 disabled:opacity-50"
+                    title="Approve"
+                  >
+                    <IconCheck className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    disabled={isBusy}
+                    onClick={() => decideRequest(request, "deny")}
+                    className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                    title="Deny"
+                  >
+                    <IconX className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 mb-2">Invites</h3>
+        {invites.length === 0 ? (
+          <p className="text-sm text-gray-500">No invites yet. Create one to let people join.</p>
+        ) : (
+          <div className="space-y-3">
+            {invites.map((invite) => (
+              <div key={invite.id} className={`text-sm ${invite.active ? "" : "opacity-50"}`}>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-mono text-gray-900">{invite.code}</span>
+                    <span className={`px-2 py-0.5 text-xs rounded-full ${getRoleColor(invite.role)}`}>{invite.role}</span>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {invite.active && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => navigator.clipboard.writeText(invite.code)}
+                          className="text-gray-400 hover:text-gray-700"
+                          title="Copy code"
+                        >
+                          <IconCopy className="h-4 w-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => navigator.clipboard.writeText(inviteLink(invite.code))}
+                          className="text-gray-400 hover:text-gray-700"
+                          title="Copy invite link"
+                        >
+                          <IconLink className="h-4 w-4" />
+                        </button>
+                      </>
+                    )}
+                    <button
+                      type="button"
+                      disabled={isBusy}
+                      onClick={() => revokeInvite(invite)}
+                      className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                      title="Revoke invite"
+                    >
+                      <IconX className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {invite.active ? "" : "Inactive • "}
+                  {invite.expiresAt ? `Expires ${formatDateTime(invite.expiresAt)}` : "Never expires"}
+                  {" • "}
+                  {invite.maxUses ? `${invite.uses}/${invite.maxUses} uses` : `${invite.uses} uses`}
+                  {invite.requiresApproval && " • needs approval"}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value)}
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {ROLES.map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+          <select
+            value={expiryHours}
+            onChange={(e) => setExpiryHours(parseInt(e.target.value))}
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.label} value={option.hours}>{option.label}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={1}
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+            placeholder="Max uses"
+            className="w-24 border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={requiresApproval}
+              onChange={(e) => setRequiresApproval(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <span>Require approval</span>
+          </label>
+          <button
+            type="button"
+            disabled={isBusy}
+            onClick={createInvite}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Create Invite
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
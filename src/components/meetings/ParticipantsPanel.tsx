@@ -0,0 +1,299 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { IconUserPlus, IconX } from "@tabler/icons-react";
+import { getRoleColor } from "@/lib/utils";
+
+const ROLES = ["spv", "reviewer", "participant"];
+
+interface Participant {
+  id: string;
+  role: string;
+  user: {
+    id: string;
+    name: string;
+  };
+}
+
+interface PendingRemoval {
+  userId: string;
+  name: string;
+  ttfus: Array<{ id: string; title: string }>;
+  needsAssignee: boolean;
+  needsReviewer: boolean;
+}
+
+async function fetchUsers() {
+  const response = await fetch("/api/users?limit=200");
+  if (!response.ok) throw new Error("Failed to fetch users");
+  return response.json();
+}
+
+export function ParticipantsPanel({
+  meetingId,
+  participants,
+  canManage,
+  currentUserId,
+}: {
+  meetingId: string;
+  participants: Participant[];
+  canManage: boolean;
+  currentUserId: string;
+}) {
+  const queryClient = useQueryClient();
+  const router = useRouter();
+  const [newUserId, setNewUserId] = useState("");
+  const [newRole, setNewRole] = useState("participant");
+  const [pendingRemoval, setPendingRemoval] = useState<PendingRemoval | null>(null);
+  const [assigneeId, setAssigneeId] = useState("");
+  const [reviewerId, setReviewerId] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  const { data: usersData } = useQuery({
+    queryKey: ["users"],
+    queryFn: fetchUsers,
+    enabled: canManage,
+  });
+
+  const users: Array<{ id: string; name: string; email: string }> = usersData?.data || [];
+  const availableUsers = users.filter((user) => !participants.some((p) => p.user.id === user.id));
+  const others = participants.filter((p) => p.user.id !== pendingRemoval?.userId);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["meeting", meetingId] });
+
+  const addParticipant = async () => {
+    if (!newUserId) return;
+    setIsBusy(true);
+    try {
+      const response = await fetch(`/api/meetings/${meetingId}/participants`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ userId: newUserId, role: newRole }),
+      });
+      if (response.ok) {
+        setNewUserId("");
+        refresh();
+      } else {
+        const error = await response.json();
+        alert(error.error || "Failed to add participant");
+      }
+    } catch (error) {
+      alert(`An error occurred while adding the participant, ${error}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const changeRole = async (userId: string, role: string) => {
+    setIsBusy(true);
+    try {
+      const response = await fetch(`/api/meetings/${meetingId}/participants/${userId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ role }),
+      });
+      if (response.ok) {
+        refresh();
+      } else {
+        const error = await response.json();
+        alert(error.error || "Failed to change role");
+      }
+    } catch (error) {
+      alert(`An error occurred while changing the role, ${error}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const removeParticipant = async (participant: Participant, reassign?: { assigneeId?: string; reviewerId?: string }) => {
+    const isSelf = participant.user.id === currentUserId;
+    if (!reassign && !confirm(isSelf ? "Leave this meeting?" : `Remove ${participant.user.name} from this meeting?`)) {
+      return;
+    }
+
+    const query = new URLSearchParams();
+    if (reassign?.assigneeId) query.append("reassignAssigneeTo", reassign.assigneeId);
+    if (reassign?.reviewerId) query.append("reassignReviewerTo", reassign.reviewerId);
+
+    setIsBusy(true);
+    try {
+      const response = await fetch(`/api/meetings/${meetingId}/participants/${participant.user.id}?${query.toString()}`, {
+        method: "DELETE",
+      });
+      if (response.ok) {
+        setPendingRemoval(null);
+        if (isSelf && !canManage) {
+          router.push("/dashboard");
+        } else {
+          refresh();
+        }
+      } else {
+        const error = await response.json();
+        // Open TTFUs have to be handed over first, by a meeting manager
+        if (response.status === 409 && canManage) {
+          setAssigneeId("");
+          setReviewerId("");
+          setPendingRemoval({
+            userId: participant.user.id,
+            name: participant.user.name,
+            ttfus: error.ttfus,
+            needsAssignee: error.needsAssignee,
+            needsReviewer: error.needsReviewer,
+          });
+        } else {
+          alert(error.error || "Failed to remove participant");
+        }
+      }
+    } catch (error) {
+      alert(`An error occurred while removing the participant, ${error}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-900 mb-2">Participants</h3>
+      <div className="space-y-2">
+        {participants.map((participant) => (
+          <div key={participant.id} className="flex items-center justify-between">
+            <span className="text-sm text-gray-600">{participant.user.name}</span>
+            <div className="flex items-center space-x-2">
+              {canManage ? (
+                <select
+                  value={participant.role}
+                  disabled={isBusy}
+                  onChange={(e) => changeRole(participant.user.id, e.target.value)}
+                  className="border border-gray-300 rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>{role}</option>
+                  ))}
+                </select>
+              ) : (
+                <span className={`px-2 py-1 text-xs rounded-full ${getRoleColor(participant.role)}`}>
+                  {participant.role}
+                </span>
+              )}
+              {(canManage || participant.user.id === currentUserId) && (
+                <button
+                  type="button"
+                  disabled={isBusy}
+                  onClick={() => removeParticipant(participant)}
+                  className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                  title={participant.user.id === currentUserId ? "Leave meeting" : "Remove participant"}
+                >
+                  <IconX className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {pendingRemoval && (
+        <div className="mt-4 p-3 border border-yellow-200 bg-yellow-50 rounded-md space-y-3">
+          <p className="text-sm text-yellow-800">
+            {pendingRemoval.name} still owns {pendingRemoval.ttfus.length} open TTFU(s). Choose who takes them over.
+          </p>
+          <ul className="text-xs text-yellow-800 list-disc list-inside">
+            {pendingRemoval.ttfus.map((ttfu) => (
+              <li key={ttfu.id}>{ttfu.title}</li>
+            ))}
+          </ul>
+          {pendingRemoval.needsAssignee && (
+            <select
+              value={assigneeId}
+              onChange={(e) => setAssigneeId(e.target.value)}
+              className="block w-full border border-gray-300 rounded-md px-2 py-1 text-sm"
+            >
+              <option value="">New assignee...</option>
+              {others.map((p) => (
+                <option key={p.user.id} value={p.user.id}>{p.user.name} ({p.role})</option>
+              ))}
+            </select>
+          )}
+          {pendingRemoval.needsReviewer && (
+            <select
+              value={reviewerId}
+              onChange={(e) => setReviewerId(e.target.value)}
+              className="block w-full border border-gray-300 rounded-md px-2 py-1 text-sm"
+            >
+              <option value="">New reviewer...</option>
+              {others
+                .filter((p) => p.role === "reviewer" || p.role === "spv")
+                .map((p) => (
+                  <option key={p.user.id} value={p.user.id}>{p.user.name} ({p.role})</option>
+                ))}
+            </select>
+          )}
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setPendingRemoval(null)}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              disabled={
+                isBusy ||
+                (pendingRemoval.needsAssignee && !assigneeId) ||
+                (pendingRemoval.needsReviewer && !reviewerId)
+              }
+              onClick={() => {
+                const participant = participants.find((p) => p.user.id === pendingRemoval.userId);
+                if (participant) {
+                  removeParticipant(participant, { assigneeId, reviewerId });
+                }
+              }}
+              className="px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Reassign &amp; Remove
+            </button>
+          </div>
+        </div>
+      )}
+
+      {canManage && (
+        <div className="mt-4 flex items-center space-x-2">
+          <select
+            value={newUserId}
+            onChange={(e) => setNewUserId(e.target.value)}
+            className="flex-1 min-w-0 border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">Add participant...</option>
+            {availableUsers.map((user) => (
+              <option key={user.id} value={user.id}>{user.name}</option>
+            ))}
+          </select>
+          <select
+            value={newRole}
+            onChange={(e) => setNewRole(e.target.value)}
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {ROLES.map((role) => (
+              <option key={role} value={role}>{role}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            disabled={isBusy || !newUserId}
+            onClick={addParticipant}
+            className="p-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Add participant"
+          >
+            <IconUserPlus className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { IconBell } from "@tabler/icons-react";
+import { formatDateTime } from "@/lib/utils";
+
+interface Notification {
+  id: string;
+  type: string;
+  title: string;
+  body?: string;
+  link: string;
+  readAt?: string;
+  createdAt: string;
+}
+
+async function fetchNotifications() {
+  const response = await fetch("/api/notifications?limit=15");
+  if (!response.ok) throw new Error("Failed to fetch notifications");
+  return response.json();
+}
+
+export function NotificationBell() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const { data } = useQuery({
+    queryKey: ["notifications"],
+    queryFn: fetchNotifications,
+    refetchInterval: 60_000,
+  });
+
+  const notifications: Notification[] = data?.data || [];
+  const unreadCount: number = data?.unreadCount ?? 0;
+
+  // Close the dropdown on any click outside of it
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["notifications"] });
+
+  const openNotification = async (notification: Notification) => {
+    setIsOpen(false);
+    if (!notification.readAt) {
+      await fetch(`/api/notifications/${notification.id}`, { method: "PATCH" });
+      refresh();
+    }
+    router.push(notification.link);
+  };
+
+  const markAllRead = async () => {
+    await fetch("/api/notifications/read-all", { method: "POST" });
+    refresh();
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 text-gray-600 hover:text-gray-900"
+        title="Notifications"
+      >
+        <IconBell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-600 text-white text-[10px] leading-[1.1rem] text-center">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-lg border z-20">
+          <div className="flex items-center justify-between px-4 py-2 border-b">
+            <span className="text-sm font-medium text-gray-900">Notifications</span>
+            {unreadCount > 0 && (
+              <button onClick={markAllRead} className="text-xs text-blue-600 hover:text-blue-800">
+                Mark all as read
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">No notifications yet</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => openNotification(notification)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${notification.readAt ? "" : "bg-blue-50"}`}
+                  >
+                    <p className={`text-sm ${notification.readAt ? "text-gray-700" : "font-medium text-gray-900"}`}>
+                      {notification.title}
+                    </p>
+                    {notification.body && (
+                      <p className="mt-0.5 text-xs text-gray-600 line-clamp-2">{notification.body}</p>
+                    )}
+                    <p className="mt-1 text-xs text-gray-400">{formatDateTime(notification.createdAt)}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
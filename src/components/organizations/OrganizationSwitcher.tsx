@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { IconBuilding } from "@tabler/icons-react";
+
+interface Organization {
+  id: string;
+  name: string;
+  current: boolean;
+}
+
+async function fetchOrganizations() {
+  const response = await fetch("/api/organizations");
+  if (!response.ok) throw new Error("Failed to fetch organizations");
+  return response.json();
+}
+
+// Only rendered for super admins, who may act in any organization
+export function OrganizationSwitcher() {
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  const { data } = useQuery({
+    queryKey: ["organizations"],
+    queryFn: fetchOrganizations,
+  });
+
+  const organizations: Organization[] = data?.data || [];
+  const current = organizations.find((organization) => organization.current);
+
+  const switchTo = async (organizationId: string) => {
+    setIsSwitching(true);
+    try {
+      const response = await fetch("/api/organizations/switch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ organizationId }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        alert(result.error || "Failed to switch organization");
+        setIsSwitching(false);
+        return;
+      }
+      // Everything on screen belongs to the previous organization
+      window.location.reload();
+    } catch (error) {
+      alert(`An error occurred, ${error}`);
+      setIsSwitching(false);
+    }
+  };
+
+  if (organizations.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <IconBuilding className="h-4 w-4 text-gray-400" />
+      <select
+        value={current?.id ?? ""}
+        disabled={isSwitching}
+        onChange={(e) => switchTo(e.target.value)}
+        className="border border-gray-300 rounded-md px-2 py-1 text-sm focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+        title="Switch organization"
+      >
+        {organizations.map((organization) => (
+          <option key={organization.id} value={organization.id}>
+            {organization.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
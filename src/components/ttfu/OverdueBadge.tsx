@@ -0,0 +1,12 @@
+import { isOverdue } from "@/lib/workflow";
+
+export function OverdueBadge({ ttfu }: { ttfu: { status: string; dueDate?: string | null } }) {
+  if (!isOverdue(ttfu)) {
+    return null;
+  }
+  return (
+    <span className="px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800">
+      OVERDUE
+    </span>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { IconRefresh } from "@tabler/icons-react";
+import { formatDateTime } from "@/lib/utils";
+
+interface Delivery {
+  id: string;
+  event: string;
+  payload: unknown;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  nextAttemptAt: string;
+  responseStatus?: number;
+  responseBody?: string;
+  lastError?: string;
+  deliveredAt?: string;
+  redeliveryOfId?: string;
+  createdAt: string;
+}
+
+const STATUS_COLORS: Record<Delivery["status"], string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  delivered: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+async function fetchDeliveries(webhookId: string, page: number) {
+  const response = await fetch(`/api/webhooks/${webhookId}/deliveries?page=${page}`);
+  if (!response.ok) throw new Error("Failed to fetch deliveries");
+  return response.json();
+}
+
+export function DeliveryLog({ webhookId }: { webhookId: string }) {
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState(1);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["webhooks", webhookId, "deliveries", page],
+    queryFn: () => fetchDeliveries(webhookId, page),
+    refetchInterval: 15_000,
+  });
+
+  const deliveries: Delivery[] = data?.data || [];
+  const totalPages: number = data?.pagination?.totalPages ?? 1;
+
+  const redeliver = async (delivery: Delivery) => {
+    setRedeliveringId(delivery.id);
+    try {
+      const response = await fetch(`/api/webhooks/${webhookId}/deliveries/${delivery.id}/redeliver`, {
+        method: "POST",
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        alert(error.error || "Failed to redeliver");
+      }
+      setPage(1);
+      queryClient.invalidateQueries({ queryKey: ["webhooks"] });
+    } catch (error) {
+      alert(`An error occurred while redelivering, ${error}`);
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="px-6 py-4 text-sm text-gray-500">Loading deliveries...</p>;
+  }
+
+  if (deliveries.length === 0) {
+    return <p className="px-6 py-4 text-sm text-gray-500">No deliveries yet</p>;
+  }
+
+  return (
+    <div>
+      <ul className="divide-y divide-gray-100">
+        {deliveries.map((delivery) => (
+          <li key={delivery.id} className="px-6 py-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_COLORS[delivery.status]}`}>
+                  {delivery.status}
+                </span>
+                <span className="text-sm font-medium text-gray-900">{delivery.event}</span>
+                {delivery.redeliveryOfId && <span className="text-xs text-gray-500">redelivery</span>}
+              </div>
+              <div className="flex items-center space-x-4 text-xs text-gray-500">
+                <span>
+                  {delivery.attempts} attempt(s)
+                  {delivery.responseStatus ? ` • HTTP ${delivery.responseStatus}` : ""}
+                </span>
+                <span>{formatDateTime(delivery.createdAt)}</span>
+                <button
+                  type="button"
+                  disabled={redeliveringId !== null}
+                  onClick={() => redeliver(delivery)}
+                  className="flex items-center space-x-1 text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                  <IconRefresh className="h-3.5 w-3.5" />
+                  <span>{redeliveringId === delivery.id ? "Sending..." : "Redeliver"}</span>
+                </button>
+              </div>
+            </div>
+            {delivery.lastError && <p className="mt-1 text-xs text-red-600">{delivery.lastError}</p>}
+            {delivery.status === "pending" && delivery.attempts > 0 && (
+              <p className="mt-1 text-xs text-gray-500">Next attempt {formatDateTime(delivery.nextAttemptAt)}</p>
+            )}
+            <details className="mt-2">
+              <summary className="text-xs text-gray-500 cursor-pointer">Payload and response</summary>
+              <pre className="mt-2 p-3 bg-gray-50 rounded text-xs overflow-x-auto max-h-64">
+                {JSON.stringify(delivery.payload, null, 2)}
+              </pre>
+              {delivery.responseBody && (
+                <pre className="mt-2 p-3 bg-gray-50 rounded text-xs overflow-x-auto max-h-32">{delivery.responseBody}</pre>
+              )}
+            </details>
+          </li>
+        ))}
+      </ul>
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end space-x-2 px-6 py-3 border-t text-sm">
+          <button
+            type="button"
+            disabled={page <= 1}
+            onClick={() => setPage(page - 1)}
+            className="px-3 py-1 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-gray-600">
+            Page {page} of {totalPages}
+          </span>
+          <button
+            type="button"
+            disabled={page >= totalPages}
+            onClick={() => setPage(page + 1)}
+            className="px-3 py-1 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
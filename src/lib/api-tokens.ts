@@ -0,0 +1,72 @@
+import { createHash, randomBytes } from "crypto";
+import { ApiTokenScope, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+const TOKEN_PREFIX = "pdca_";
+
+// lastUsedAt is written at most this often per token, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const API_TOKEN_SCOPES = Object.values(ApiTokenScope);
+
+function hashApiToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// The plain token is returned once, at creation
+export function generateApiToken() {
+  const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashApiToken(token), prefix: token.slice(0, TOKEN_PREFIX.length + 6) };
+}
+
+// Read tokens may only look; write tokens may do whatever their owner may
+export function scopeAllows(scope: ApiTokenScope, method: string) {
+  return scope === "write" || method === "GET" || method === "HEAD";
+}
+
+export function bearerToken(request: Request) {
+  const header = request.headers.get("authorization");
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+// The live token and its owner, or null for unknown, revoked or expired tokens and deactivated owners
+export async function findApiToken(token: string, now = new Date()) {
+  const found = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          globalRole: true,
+          organizationId: true,
+          superAdmin: true,
+          deactivatedAt: true,
+        },
+      },
+    },
+  });
+
+  if (!found || found.revokedAt || (found.expiresAt && found.expiresAt <= now) || found.user.deactivatedAt) {
+    return null;
+  }
+
+  if (!found.lastUsedAt || found.lastUsedAt.getTime() < now.getTime() - LAST_USED_RESOLUTION_MS) {
+    await prisma.apiToken.update({ where: { id: found.id }, data: { lastUsedAt: now } });
+  }
+
+  return found;
+}
+
+export const apiTokenSelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scope: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+} satisfies Prisma.ApiTokenSelect;
@@ -0,0 +1,211 @@
+import { MeetingRole, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { recordAudit } from "./audit";
+import { notifyAssigned } from "./notifications";
+import { emitTTFUUpdated } from "./webhooks";
+import { ACTIVE_STATUSES } from "./workflow";
+
+// Meeting roles allowed to hold each side of a TTFU
+export const ASSIGNEE_ROLES: MeetingRole[] = ["spv", "reviewer", "participant"];
+export const REVIEWER_ROLES: MeetingRole[] = ["spv", "reviewer"];
+
+// TTFU_REVIEWER_FALLBACK: "round_robin" (default), "least_loaded" or "none"
+// TTFU_ASSIGNEE_FALLBACK: "creator" (default) or "none"
+type ReviewerFallback = "round_robin" | "least_loaded" | "none";
+type AssigneeFallback = "creator" | "none";
+
+function reviewerFallback(): ReviewerFallback {
+  const value = process.env.TTFU_REVIEWER_FALLBACK;
+  return value === "least_loaded" || value === "none" ? value : "round_robin";
+}
+
+function assigneeFallback(): AssigneeFallback {
+  return process.env.TTFU_ASSIGNEE_FALLBACK === "none" ? "none" : "creator";
+}
+
+export async function validateAssignment(
+  meetingId: string,
+  { assigneeId, reviewerId }: { assigneeId?: string; reviewerId?: string }
+): Promise<string | null> {
+  const userIds = [assigneeId, reviewerId].filter((id): id is string => !!id);
+  if (userIds.length === 0) {
+    return null;
+  }
+
+  const participants = await prisma.meetingParticipant.findMany({
+    where: { meetingId, userId: { in: userIds } },
+    select: { userId: true, role: true, user: { select: { deactivatedAt: true } } },
+  });
+  const roleOf = (userId: string) => participants.find((p) => p.userId === userId)?.role;
+
+  if (participants.some((p) => p.user.deactivatedAt)) {
+    return "Deactivated users cannot be assigned";
+  }
+
+  if (assigneeId) {
+    const role = roleOf(assigneeId);
+    if (!role || !ASSIGNEE_ROLES.includes(role)) {
+      return "Assignee must be a participant of this meeting";
+    }
+  }
+
+  if (reviewerId) {
+    const role = roleOf(reviewerId);
+    if (!role || !REVIEWER_ROLES.includes(role)) {
+      return "Reviewer must be a reviewer or SPV of this meeting";
+    }
+  }
+
+  return null;
+}
+
+async function pickReviewer(meetingId: string, assigneeId?: string): Promise<string | undefined> {
+  const strategy = reviewerFallback();
+  if (strategy === "none") {
+    return undefined;
+  }
+
+  const candidates = await prisma.meetingParticipant.findMany({
+    where: { meetingId, role: { in: REVIEWER_ROLES }, user: { deactivatedAt: null } },
+    orderBy: { createdAt: "asc" },
+    select: { userId: true, role: true },
+  });
+  // Prefer dedicated reviewers over SPVs, and anyone over the assignee reviewing their own work
+  const preferred = candidates.filter((c) => c.userId !== assigneeId);
+  const pool = preferred.length > 0 ? preferred : candidates;
+  const reviewers = pool.some((c) => c.role === "reviewer")
+    ? pool.filter((c) => c.role === "reviewer")
+    : pool;
+  if (reviewers.length === 0) {
+    return undefined;
+  }
+
+  if (strategy === "least_loaded") {
+    const loads = await prisma.tTFU.groupBy({
+      by: ["reviewerId"],
+      where: {
+        reviewerId: { in: reviewers.map((r) => r.userId) },
+        status: { in: ACTIVE_STATUSES },
+      },
+      _count: { _all: true },
+    });
+    const loadOf = (userId: string) =>
+      loads.find((load) => load.reviewerId === userId)?._count._all ?? 0;
+    return reviewers.reduce((best, reviewer) =>
+      loadOf(reviewer.userId) < loadOf(best.userId) ? reviewer : best
+    ).userId;
+  }
+
+  // Round-robin: the reviewer after whoever got this meeting's latest TTFU
+  const lastTTFU = await prisma.tTFU.findFirst({
+    where: { meetingId, reviewerId: { in: reviewers.map((r) => r.userId) } },
+    orderBy: { createdAt: "desc" },
+    select: { reviewerId: true },
+  });
+  const lastIndex = reviewers.findIndex((r) => r.userId === lastTTFU?.reviewerId);
+  return reviewers[(lastIndex + 1) % reviewers.length].userId;
+}
+
+// Fills in whichever side the creator left empty, per the configured fallback rules
+export async function resolveAssignment(
+  meetingId: string,
+  creatorId: string,
+  { assigneeId, reviewerId }: { assigneeId?: string; reviewerId?: string }
+): Promise<{ assigneeId?: string; reviewerId?: string }> {
+  if (!assigneeId && assigneeFallback() === "creator") {
+    const creator = await prisma.meetingParticipant.findUnique({
+      where: { meetingId_userId: { meetingId, userId: creatorId } },
+      select: { role: true },
+    });
+    if (creator && ASSIGNEE_ROLES.includes(creator.role)) {
+      assigneeId = creatorId;
+    }
+  }
+
+  if (!reviewerId) {
+    reviewerId = await pickReviewer(meetingId, assigneeId);
+  }
+
+  return { assigneeId, reviewerId };
+}
+
+export function findOpenTTFUsOf(meetingId: string, userId: string) {
+  return prisma.tTFU.findMany({
+    where: {
+      meetingId,
+      status: { in: ACTIVE_STATUSES },
+      OR: [{ assigneeId: userId }, { reviewerId: userId }],
+    },
+    select: { id: true, title: true, assigneeId: true, reviewerId: true },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+// Hands a leaving participant's open TTFUs to the given replacements, keeping reassignment history and audit entries
+export async function reassignOpenTTFUs(
+  tx: Prisma.TransactionClient,
+  {
+    meetingId,
+    fromUserId,
+    assigneeId,
+    reviewerId,
+    changedById,
+    note,
+  }: {
+    meetingId: string;
+    fromUserId: string;
+    assigneeId?: string;
+    reviewerId?: string;
+    changedById: string;
+    note?: string;
+  }
+) {
+  const ttfus = await tx.tTFU.findMany({
+    where: {
+      meetingId,
+      status: { in: ACTIVE_STATUSES },
+      OR: [{ assigneeId: fromUserId }, { reviewerId: fromUserId }],
+    },
+  });
+
+  for (const ttfu of ttfus) {
+    const data: { assigneeId?: string; reviewerId?: string } = {};
+    if (assigneeId && ttfu.assigneeId === fromUserId) data.assigneeId = assigneeId;
+    if (reviewerId && ttfu.reviewerId === fromUserId) data.reviewerId = reviewerId;
+    if (Object.keys(data).length === 0) continue;
+
+    const updated = await tx.tTFU.update({ where: { id: ttfu.id }, data });
+    await tx.ttfuReassignment.createMany({
+      data: (["assignee", "reviewer"] as const)
+        .filter((role) => data[`${role}Id`])
+        .map((role) => ({
+          ttfuId: ttfu.id,
+          role,
+          fromUserId,
+          toUserId: data[`${role}Id`]!,
+          changedById,
+          note: note ?? null,
+        })),
+    });
+    await recordAudit(tx, {
+      userId: changedById,
+      action: "TTFU_UPDATE",
+      entity: "TTFU",
+      entityId: ttfu.id,
+      meetingId,
+      ttfuId: ttfu.id,
+      before: ttfu,
+      after: updated,
+      details: note ? { notes: note } : undefined,
+    });
+    await notifyAssigned(
+      tx,
+      updated,
+      (["assignee", "reviewer"] as const).filter((role) => data[`${role}Id`]),
+      changedById
+    );
+    await emitTTFUUpdated(tx, ttfu.id);
+  }
+
+  return ttfus.length;
+}
@@ -0,0 +1,105 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+export const AUDIT_ENTITIES = ["MEETING", "PARTICIPANT", "TTFU", "EVIDENCE", "REVIEW", "USER"] as const;
+
+export type AuditEntity = (typeof AUDIT_ENTITIES)[number];
+
+export type AuditAction =
+  | `${AuditEntity}_CREATE`
+  | `${AuditEntity}_UPDATE`
+  | `${AuditEntity}_DELETE`
+  | "TTFU_STATUS_CHANGE";
+
+type AuditClient = Prisma.TransactionClient | typeof prisma;
+
+type AuditRecord = Record<string, unknown>;
+
+export interface AuditEntry {
+  userId: string | null;
+  action: AuditAction;
+  entity: AuditEntity;
+  entityId: string;
+  // Owning meeting/TTFU, so timelines keep child events after the child is gone
+  meetingId?: string;
+  ttfuId?: string;
+  before?: object | null;
+  after?: object | null;
+  details?: AuditRecord;
+}
+
+// Bookkeeping, including the scheduler's reminder/escalation markers, and credentials
+const IGNORED_FIELDS = [
+  "id",
+  "createdAt",
+  "updatedAt",
+  "reminderSentAt",
+  "overdueAt",
+  "escalatedToSpvAt",
+  "escalatedToAdminAt",
+  "passwordHash",
+  "totpSecret",
+  "totpLastStep",
+];
+
+// Scalar columns only: relations pulled in by `include` and IGNORED_FIELDS are dropped
+function snapshot(value: object): AuditRecord {
+  const result: AuditRecord = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (IGNORED_FIELDS.includes(key) || field === undefined) continue;
+    if (field instanceof Date) {
+      result[key] = field.toISOString();
+    } else if (field === null || typeof field !== "object") {
+      result[key] = field;
+    }
+  }
+  return result;
+}
+
+function changedFields(before: AuditRecord, after: AuditRecord) {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes = { before: {} as AuditRecord, after: {} as AuditRecord };
+  for (const key of keys) {
+    if (JSON.stringify(before[key]) === JSON.stringify(after[key])) continue;
+    changes.before[key] = before[key] ?? null;
+    changes.after[key] = after[key] ?? null;
+  }
+  return changes;
+}
+
+// Updates store only the changed fields; an update that changed nothing is not recorded
+export async function recordAudit(client: AuditClient, entry: AuditEntry) {
+  let before = entry.before ? snapshot(entry.before) : undefined;
+  let after = entry.after ? snapshot(entry.after) : undefined;
+
+  if (before && after) {
+    ({ before, after } = changedFields(before, after));
+    if (Object.keys(after).length === 0) {
+      return;
+    }
+  }
+
+  await client.auditLog.create({
+    data: {
+      userId: entry.userId,
+      action: entry.action,
+      entity: entry.entity,
+      entityId: entry.entityId,
+      meetingId: entry.meetingId ?? null,
+      ttfuId: entry.ttfuId ?? null,
+      metadata: { ...entry.details, before, after } as Prisma.InputJsonObject,
+    },
+  });
+}
+
+// Meeting and TTFU timelines include the events of everything they own
+export function auditTrailWhere(entity: AuditEntity, entityId: string): Prisma.AuditLogWhereInput {
+  switch (entity) {
+    case "MEETING":
+      return { OR: [{ entity, entityId }, { meetingId: entityId }] };
+    case "TTFU":
+      return { OR: [{ entity, entityId }, { ttfuId: entityId }] };
+    default:
+      return { entity, entityId };
+  }
+}
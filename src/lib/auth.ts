@@ -1,76 +1,230 @@
 import { PrismaAdapter } from "@auth/prisma-adapter";
 import CredentialsProvider from "next-auth/providers/credentials";
+import { getServerSession } from "next-auth/next";
+import type { NextAuthOptions, Session } from "next-auth";
+import type { Adapter } from "next-auth/adapters";
+import { headers } from "next/headers";
 import bcrypt from "bcrypt";
 import { prisma } from "./prisma";
+import {
+  isLocked,
+  LoginRequestInfo,
+  loginRequestInfo,
+  loginThrottle,
+  recordLoginAttempt,
+  recordLoginFailure,
+  recordLoginSuccess,
+} from "./login-attempts";
+import { authenticateLdap, isLdapEnabled, provisionLdapUser } from "./ldap";
+import { isOidcEmailTrusted, isOidcEnabled, OIDC_PROVIDER_ID, OidcProfile, oidcProvider, withOidcUsers } from "./oidc";
+import { isTwoFactorRequired, verifySecondFactor } from "./two-factor";
+import { endUserSession, findSessionUser, SESSION_MAX_AGE_SECONDS, startUserSession } from "./user-sessions";
+import {
+  ACCOUNT_DEACTIVATED,
+  ACCOUNT_LOCKED,
+  DIRECTORY_UNAVAILABLE,
+  EMAIL_NOT_VERIFIED,
+  TOO_MANY_ATTEMPTS,
+  TWO_FACTOR_INVALID,
+  TWO_FACTOR_REQUIRED,
+  TWO_FACTOR_SETUP_REQUIRED,
+} from "./users";
 
-export const authOptions = {
-  adapter: PrismaAdapter(prisma),
-  providers: [
-    CredentialsProvider({
-      name: "credentials",
-      credentials: {
-        email: { label: "Email", type: "email" },
-        password: { label: "Password", type: "password" }
-      },
-      async authorize(credentials) {
-        if (!credentials?.email || !credentials?.password) {
-          return null;
-        }
-
-        const user = await prisma.user.findUnique({
-          where: {
-            email: credentials.email
-          }
-        });
-
-        if (!user || !user.passwordHash) {
-          return null;
-        }
-
-        const isPasswordValid = await bcrypt.compare(
-          credentials.password,
-          user.passwordHash
-        );
-
-        if (!isPasswordValid) {
-          return null;
-        }
-
-        return {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          globalRole: user.globalRole,
-        };
+export function hashPassword(password: string) {
+  return bcrypt.hash(password, 10);
+}
+
+// The user behind an email and password, or null. The password is checked against the app's own hash and then,
+// when configured, the LDAP directory. Throttled and locked out per account and per IP, with every failure
+// recorded. Also used to enroll in two-factor before the first sign-in.
+export async function verifyCredentials(info: LoginRequestInfo, password: string) {
+  const throttle = await loginThrottle(info);
+  if (throttle.blocked) {
+    await recordLoginAttempt(info, "THROTTLED");
+    throw new Error(TOO_MANY_ATTEMPTS);
+  }
+  if (throttle.delayMs > 0) {
+    await new Promise((resolve) => setTimeout(resolve, throttle.delayMs));
+  }
+
+  const user = await prisma.user.findUnique({
+    where: {
+      email: info.email
+    }
+  });
+
+  if (user ? isLocked(user) : throttle.emailLocked) {
+    await recordLoginAttempt(info, "LOCKED", user?.id);
+    throw new Error(ACCOUNT_LOCKED);
+  }
+
+  const isPasswordValid =
+    isPasswordLoginEnabled() && !!user?.passwordHash && (await bcrypt.compare(password, user.passwordHash));
+  if (user && isPasswordValid) {
+    return user;
+  }
+
+  if (isLdapEnabled()) {
+    const directoryUser = await authenticateLdap(info.email, password).catch((error) => {
+      console.error("Error reaching the LDAP directory:", error);
+      throw new Error(DIRECTORY_UNAVAILABLE);
+    });
+    if (directoryUser) {
+      return provisionLdapUser(directoryUser);
+    }
+  }
+
+  await recordLoginFailure(info, "INVALID_CREDENTIALS", user);
+  return null;
+}
+
+// Who is enrolling in two-factor: the signed-in user, or, when a role has to enroll before it can sign in at all,
+// whoever proves the password again
+export async function twoFactorEnrollee(credentials: { email?: string; password?: string }, headers: Headers) {
+  const session = await getServerSession(authOptions);
+  if (session?.user?.id) {
+    return prisma.user.findUnique({ where: { id: session.user.id } });
+  }
+
+  if (!credentials.email || !credentials.password || !isCredentialsSignInEnabled()) {
+    return null;
+  }
+  const user = await verifyCredentials(loginRequestInfo(credentials.email, headers), credentials.password);
+  return user && !user.deactivatedAt ? user : null;
+}
+
+// PASSWORD_LOGIN_ENABLED="false" turns off the app's own passwords, leaving single sign-on and the LDAP directory;
+// ignored while neither is configured
+export function isPasswordLoginEnabled() {
+  return process.env.PASSWORD_LOGIN_ENABLED !== "false" || !(isOidcEnabled() || isLdapEnabled());
+}
+
+// Email and password sign-in, checked against the app's own passwords or the directory
+function isCredentialsSignInEnabled() {
+  return isPasswordLoginEnabled() || isLdapEnabled();
+}
+
+const credentialsProvider = CredentialsProvider({
+  name: "credentials",
+  credentials: {
+    email: { label: "Email", type: "email" },
+    password: { label: "Password", type: "password" },
+    code: { label: "Authentication code", type: "text" }
+  },
+  async authorize(credentials, req) {
+    if (!credentials?.email || !credentials?.password) {
+      return null;
+    }
+
+    const info = loginRequestInfo(credentials.email, req?.headers);
+    const user = await verifyCredentials(info, credentials.password);
+    if (!user) {
+      return null;
+    }
+
+    // Checked after the password, so the error does not reveal which accounts exist
+    if (user.deactivatedAt) {
+      await recordLoginAttempt(info, "DEACTIVATED", user.id);
+      throw new Error(ACCOUNT_DEACTIVATED);
+    }
+
+    if (user.totpEnabledAt) {
+      if (!credentials.code) {
+        throw new Error(TWO_FACTOR_REQUIRED);
+      }
+      // Wrong codes count towards the lockout like wrong passwords
+      if (!(await verifySecondFactor(prisma, user, credentials.code))) {
+        await recordLoginFailure(info, "TWO_FACTOR_INVALID", user);
+        throw new Error(TWO_FACTOR_INVALID);
       }
-    })
+    } else if (isTwoFactorRequired(user.globalRole)) {
+      throw new Error(TWO_FACTOR_SETUP_REQUIRED);
+    }
+
+    await recordLoginSuccess(info, user.id);
+
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      globalRole: user.globalRole,
+    };
+  }
+});
+
+export const authOptions: NextAuthOptions = {
+  // @auth/prisma-adapter is typed against @auth/core, whose AdapterUser lacks the globalRole declared for next-auth
+  adapter: withOidcUsers(PrismaAdapter(prisma)) as Adapter,
+  providers: [
+    ...(isCredentialsSignInEnabled() ? [credentialsProvider] : []),
+    ...(isOidcEnabled() ? [oidcProvider()] : []),
   ],
   session: {
-    strategy: "jwt" as const
+    strategy: "jwt",
+    maxAge: SESSION_MAX_AGE_SECONDS
   },
   callbacks: {
-    async jwt({ token, user }: { 
-      token: Record<string, unknown>; 
-      user: { globalRole: string } | null 
-    }) {
+    // Single sign-on may only link to or create accounts for emails the issuer vouches for
+    async signIn({ account, profile }) {
+      if (account?.provider !== OIDC_PROVIDER_ID) {
+        return true;
+      }
+      if (!profile?.email || !isOidcEmailTrusted(profile as OidcProfile)) {
+        return `/auth/signin?error=${EMAIL_NOT_VERIFIED}`;
+      }
+      const existing = await prisma.user.findUnique({
+        where: { email: profile.email.toLowerCase() },
+        select: { deactivatedAt: true },
+      });
+      if (existing?.deactivatedAt) {
+        return `/auth/signin?error=${ACCOUNT_DEACTIVATED}`;
+      }
+      return true;
+    },
+    // Every token names a UserSession. It is looked up on each request, so signing it out, deactivating the user,
+    // changing their role or switching organization takes effect at once.
+    async jwt({ token, user }) {
       if (user) {
-        token.globalRole = user.globalRole;
+        const { id } = await startUserSession(user.id, loginRequestInfo("", await headers()));
+        token.sid = id;
+      }
+
+      const current = await findSessionUser(token.sid);
+      if (!current) {
+        // NextAuth answers with no session and clears the cookie
+        throw new Error("Session signed out or expired");
       }
+      token.globalRole = current.globalRole;
+      token.organizationId = current.organizationId;
+      token.superAdmin = current.superAdmin;
       return token;
     },
-    async session({ session, token }: { 
-      session: { user: { name?: string | null; email?: string | null; image?: string | null } }; 
-      token: { sub?: string; globalRole?: string } | null 
-    }) {
+    async session({ session, token }) {
       if (token) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (session.user as any).id = token.sub!;
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (session.user as any).globalRole = token.globalRole;
+        const user: Session["user"] = {
+          ...session.user,
+          id: token.sub!,
+          globalRole: token.globalRole,
+          organizationId: token.organizationId,
+          superAdmin: token.superAdmin,
+        };
+        session.user = user;
+        session.sessionId = token.sid;
       }
       return session;
     }
   },
+  events: {
+    // Password sign-ins are recorded in authorize, with the request's IP and browser
+    async signIn({ user, account }) {
+      if (account?.provider === OIDC_PROVIDER_ID) {
+        await recordLoginSuccess({ email: user.email ?? "", ip: null, userAgent: null }, user.id);
+      }
+    },
+    async signOut({ token }) {
+      await endUserSession(token?.sid);
+    }
+  },
   pages: {
     signIn: "/auth/signin",
   }
@@ -0,0 +1,10 @@
+export { enqueueEmail, deliverPendingEmails } from "./queue";
+export type { EmailRecipient } from "./queue";
+export { renderEmail, emailLocaleOf, EMAIL_LOCALES } from "./templates";
+export type { EmailLocale, EmailTemplate } from "./templates";
+export { isEmailEnabled } from "./transport";
+
+// Links in mails must be absolute
+export function appUrl(path: string) {
+  return `${(process.env.NEXTAUTH_URL || "http://localhost:3011").replace(/\/+$/, "")}${path}`;
+}
@@ -0,0 +1,85 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { EmailTemplate, emailLocaleOf, renderEmail } from "./templates";
+import { emailSender, getEmailTransport, isEmailEnabled } from "./transport";
+
+type EmailClient = Prisma.TransactionClient | typeof prisma;
+
+export interface EmailRecipient {
+  email: string;
+  locale?: string | null;
+}
+
+// EMAIL_MAX_ATTEMPTS: sends tried before a message is marked failed (default 5)
+function maxAttempts() {
+  const attempts = parseInt(process.env.EMAIL_MAX_ATTEMPTS || "");
+  return attempts > 0 ? attempts : 5;
+}
+
+// 1 min, 5 min, 25 min, ... between attempts
+function retryDelayMs(attempts: number) {
+  return 60_000 * 5 ** (attempts - 1);
+}
+
+// Rendered per recipient at enqueue time, so the queue holds exactly what will be sent.
+// Pass the request's transaction client and the mail only exists if the change commits.
+export async function enqueueEmail(
+  client: EmailClient,
+  recipients: EmailRecipient[],
+  template: EmailTemplate
+) {
+  if (!isEmailEnabled() || recipients.length === 0) {
+    return;
+  }
+  await client.emailOutbox.createMany({
+    data: recipients.map((recipient) => ({
+      to: recipient.email,
+      ...renderEmail(template, emailLocaleOf(recipient.locale)),
+    })),
+  });
+}
+
+// Sends the due messages; failures are rescheduled with backoff instead of thrown
+export async function deliverPendingEmails(limit = 20, now = new Date()) {
+  const due = await prisma.emailOutbox.findMany({
+    where: { status: "pending", nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+  });
+
+  let sent = 0;
+  for (const email of due) {
+    // Claim the message, so a second worker skips it
+    const attempts = email.attempts + 1;
+    const claimed = await prisma.emailOutbox.updateMany({
+      where: { id: email.id, status: "pending", attempts: email.attempts },
+      data: { attempts, nextAttemptAt: new Date(now.getTime() + retryDelayMs(attempts)) },
+    });
+    if (claimed.count === 0) continue;
+
+    try {
+      await getEmailTransport().sendMail({
+        from: emailSender(),
+        to: email.to,
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
+      });
+      await prisma.emailOutbox.update({
+        where: { id: email.id },
+        data: { status: "sent", sentAt: new Date(), lastError: null },
+      });
+      sent++;
+    } catch (error) {
+      await prisma.emailOutbox.update({
+        where: { id: email.id },
+        data: {
+          status: attempts >= maxAttempts() ? "failed" : "pending",
+          lastError: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  return { attempted: due.length, sent };
+}
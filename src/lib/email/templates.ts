@@ -0,0 +1,285 @@
+import { ReviewStatus, TtfuStatus } from "@prisma/client";
+import { formatDate, formatDateTime } from "../utils";
+
+export const EMAIL_LOCALES = ["id", "en"] as const;
+
+export type EmailLocale = (typeof EMAIL_LOCALES)[number];
+
+// Same "id-ID" formatting the UI uses; English mails get the English equivalent
+const LOCALE_TAGS: Record<EmailLocale, string> = {
+  id: "id-ID",
+  en: "en-GB",
+};
+
+export type EmailTemplate =
+  | {
+      name: "ttfuAssigned";
+      ttfuTitle: string;
+      role: "assignee" | "reviewer";
+      dueDate?: Date | null;
+      link: string;
+    }
+  | {
+      name: "evidenceSubmitted";
+      ttfuTitle: string;
+      description?: string | null;
+      link: string;
+    }
+  | {
+      name: "reviewResult";
+      ttfuTitle: string;
+      status: ReviewStatus;
+      comment?: string | null;
+      newStatus?: TtfuStatus | null;
+      link: string;
+    }
+  | {
+      name: "dueReminder";
+      ttfuTitle: string;
+      dueDate: Date;
+      link: string;
+    }
+  | {
+      name: "overdueReminder";
+      ttfuTitle: string;
+      dueDate: Date;
+      link: string;
+    }
+  | {
+      name: "escalation";
+      ttfuTitle: string;
+      meetingTitle: string;
+      assigneeName: string;
+      dueDate: Date;
+      daysOverdue: number;
+      link: string;
+    }
+  | {
+      name: "userInvite";
+      userName: string;
+      invitedBy: string;
+      expiresAt: Date;
+      link: string;
+    }
+  | {
+      name: "passwordReset";
+      userName: string;
+      expiresAt: Date;
+      link: string;
+    }
+  | {
+      name: "meetingRecap";
+      meetingTitle: string;
+      date: Date;
+      ttfus: number;
+      overdue: number;
+      byStatus: Record<TtfuStatus, number>;
+      link: string;
+      pdfLink: string;
+    };
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface EmailContent {
+  subject: string;
+  lines: string[];
+  action: string;
+  link: string;
+}
+
+const STATUS_NAMES: Record<EmailLocale, Record<TtfuStatus, string>> = {
+  id: { OPEN: "Terbuka", IN_PROGRESS: "Dikerjakan", DONE: "Selesai", REJECTED: "Ditolak" },
+  en: { OPEN: "Open", IN_PROGRESS: "In Progress", DONE: "Done", REJECTED: "Rejected" },
+};
+
+const VERDICTS: Record<EmailLocale, Record<ReviewStatus, string>> = {
+  id: { approved: "disetujui", rejected: "ditolak", needs_revision: "perlu revisi" },
+  en: { approved: "approved", rejected: "rejected", needs_revision: "sent back for revision" },
+};
+
+function content(template: EmailTemplate, locale: EmailLocale): EmailContent {
+  const date = (value: Date) => formatDate(value, LOCALE_TAGS[locale]);
+  const dateTime = (value: Date) => formatDateTime(value, LOCALE_TAGS[locale]);
+  const id = locale === "id";
+
+  switch (template.name) {
+    case "ttfuAssigned": {
+      const asReviewer = template.role === "reviewer";
+      const lines = [
+        id
+          ? `Anda ditunjuk sebagai ${asReviewer ? "reviewer" : "penanggung jawab"} untuk TTFU "${template.ttfuTitle}".`
+          : `You were made the ${asReviewer ? "reviewer" : "assignee"} of the TTFU "${template.ttfuTitle}".`,
+      ];
+      if (template.dueDate) {
+        lines.push(id ? `Tenggat: ${date(template.dueDate)}` : `Due: ${date(template.dueDate)}`);
+      }
+      return {
+        subject: id ? `TTFU baru: ${template.ttfuTitle}` : `New TTFU: ${template.ttfuTitle}`,
+        lines,
+        action: id ? "Buka TTFU" : "Open TTFU",
+        link: template.link,
+      };
+    }
+    case "evidenceSubmitted": {
+      const lines = [
+        id
+          ? `Bukti baru untuk TTFU "${template.ttfuTitle}" menunggu review Anda.`
+          : `New evidence for the TTFU "${template.ttfuTitle}" is waiting for your review.`,
+      ];
+      if (template.description) {
+        lines.push(template.description);
+      }
+      return {
+        subject: id ? `Menunggu review: ${template.ttfuTitle}` : `Awaiting review: ${template.ttfuTitle}`,
+        lines,
+        action: id ? "Review bukti" : "Review evidence",
+        link: template.link,
+      };
+    }
+    case "reviewResult": {
+      const verdict = VERDICTS[locale][template.status];
+      const lines = [
+        id
+          ? `Bukti Anda untuk TTFU "${template.ttfuTitle}" ${verdict}.`
+          : `Your evidence for the TTFU "${template.ttfuTitle}" was ${verdict}.`,
+      ];
+      if (template.newStatus) {
+        const status = STATUS_NAMES[locale][template.newStatus];
+        lines.push(id ? `Status TTFU sekarang: ${status}` : `The TTFU is now: ${status}`);
+      }
+      if (template.comment) {
+        lines.push(id ? `Komentar: ${template.comment}` : `Comment: ${template.comment}`);
+      }
+      return {
+        subject: id ? `Hasil review: ${template.ttfuTitle}` : `Review result: ${template.ttfuTitle}`,
+        lines,
+        action: id ? "Buka TTFU" : "Open TTFU",
+        link: template.link,
+      };
+    }
+    case "dueReminder":
+      return {
+        subject: id ? `Segera jatuh tempo: ${template.ttfuTitle}` : `Due soon: ${template.ttfuTitle}`,
+        lines: [
+          id
+            ? `TTFU "${template.ttfuTitle}" jatuh tempo pada ${date(template.dueDate)}.`
+            : `The TTFU "${template.ttfuTitle}" is due on ${date(template.dueDate)}.`,
+        ],
+        action: id ? "Buka TTFU" : "Open TTFU",
+        link: template.link,
+      };
+    case "overdueReminder":
+      return {
+        subject: id ? `Terlambat: ${template.ttfuTitle}` : `Overdue: ${template.ttfuTitle}`,
+        lines: [
+          id
+            ? `TTFU "${template.ttfuTitle}" sudah melewati tenggat ${date(template.dueDate)} dan belum selesai.`
+            : `The TTFU "${template.ttfuTitle}" was due on ${date(template.dueDate)} and is not done yet.`,
+        ],
+        action: id ? "Buka TTFU" : "Open TTFU",
+        link: template.link,
+      };
+    case "escalation":
+      return {
+        subject: id
+          ? `Eskalasi: ${template.ttfuTitle} terlambat ${template.daysOverdue} hari`
+          : `Escalation: ${template.ttfuTitle} is ${template.daysOverdue} day(s) overdue`,
+        lines: [
+          id
+            ? `TTFU "${template.ttfuTitle}" dari rapat "${template.meetingTitle}" terlambat ${template.daysOverdue} hari (tenggat ${date(template.dueDate)}).`
+            : `The TTFU "${template.ttfuTitle}" from the meeting "${template.meetingTitle}" is ${template.daysOverdue} day(s) overdue (due ${date(template.dueDate)}).`,
+          id
+            ? `Penanggung jawab: ${template.assigneeName}`
+            : `Assignee: ${template.assigneeName}`,
+        ],
+        action: id ? "Buka TTFU" : "Open TTFU",
+        link: template.link,
+      };
+    case "userInvite":
+      return {
+        subject: id ? "Undangan ke PDCA TTFU Tracker" : "You are invited to PDCA TTFU Tracker",
+        lines: [
+          id ? `Halo ${template.userName},` : `Hi ${template.userName},`,
+          id
+            ? `${template.invitedBy} membuatkan akun PDCA TTFU Tracker untuk Anda. Buat kata sandi Anda untuk mulai menggunakannya.`
+            : `${template.invitedBy} created a PDCA TTFU Tracker account for you. Choose your password to start using it.`,
+          id
+            ? `Tautan ini berlaku sampai ${dateTime(template.expiresAt)} dan hanya dapat dipakai sekali.`
+            : `This link works until ${dateTime(template.expiresAt)} and can only be used once.`,
+        ],
+        action: id ? "Buat kata sandi" : "Choose password",
+        link: template.link,
+      };
+    case "passwordReset":
+      return {
+        subject: id ? "Atur ulang kata sandi" : "Reset your password",
+        lines: [
+          id ? `Halo ${template.userName},` : `Hi ${template.userName},`,
+          id
+            ? "Kami menerima permintaan untuk mengatur ulang kata sandi akun Anda."
+            : "We received a request to reset the password of your account.",
+          id
+            ? `Tautan ini berlaku sampai ${dateTime(template.expiresAt)} dan hanya dapat dipakai sekali. Abaikan email ini jika Anda tidak memintanya.`
+            : `This link works until ${dateTime(template.expiresAt)} and can only be used once. Ignore this email if you did not ask for it.`,
+        ],
+        action: id ? "Atur ulang kata sandi" : "Reset password",
+        link: template.link,
+      };
+    case "meetingRecap": {
+      const statuses = (Object.keys(template.byStatus) as TtfuStatus[])
+        .map((status) => `${STATUS_NAMES[locale][status]}: ${template.byStatus[status]}`)
+        .join(", ");
+      return {
+        subject: id
+          ? `Rekap rapat: ${template.meetingTitle} (${date(template.date)})`
+          : `Meeting recap: ${template.meetingTitle} (${date(template.date)})`,
+        lines: [
+          id
+            ? `Rekap rapat "${template.meetingTitle}" tanggal ${date(template.date)}.`
+            : `Recap of the meeting "${template.meetingTitle}" on ${date(template.date)}.`,
+          id
+            ? `${template.ttfus} TTFU (${statuses}), ${template.overdue} terlambat.`
+            : `${template.ttfus} TTFUs (${statuses}), ${template.overdue} overdue.`,
+          `PDF: ${template.pdfLink}`,
+        ],
+        action: id ? "Buka rapat" : "Open meeting",
+        link: template.link,
+      };
+    }
+  }
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function renderEmail(template: EmailTemplate, locale: EmailLocale): RenderedEmail {
+  const { subject, lines, action, link } = content(template, locale);
+  const footer =
+    locale === "id"
+      ? "Email ini dikirim otomatis oleh PDCA TTFU Tracker."
+      : "This email was sent automatically by PDCA TTFU Tracker.";
+
+  const text = [...lines, "", `${action}: ${link}`, "", footer].join("\n");
+  const html = [
+    `<div style="font-family: Helvetica, Arial, sans-serif; font-size: 14px; color: #111827;">`,
+    ...lines.map((line) => `<p>${escapeHtml(line)}</p>`),
+    `<p><a href="${escapeHtml(link)}" style="display: inline-block; padding: 8px 16px; background: #2563eb; color: #ffffff; border-radius: 6px; text-decoration: none;">${escapeHtml(action)}</a></p>`,
+    `<p style="color: #6b7280; font-size: 12px;">${escapeHtml(footer)}</p>`,
+    `</div>`,
+  ].join("\n");
+
+  return { subject, text, html };
+}
+
+export function emailLocaleOf(locale: string | null | undefined): EmailLocale {
+  return EMAIL_LOCALES.includes(locale as EmailLocale) ? (locale as EmailLocale) : "id";
+}
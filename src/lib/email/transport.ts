@@ -0,0 +1,28 @@
+import nodemailer, { Transporter } from "nodemailer";
+
+const globalForEmail = globalThis as unknown as {
+  emailTransport: Transporter | undefined;
+};
+
+// Without SMTP_HOST no mail is queued at all
+export function isEmailEnabled() {
+  return !!process.env.SMTP_HOST;
+}
+
+export function getEmailTransport(): Transporter {
+  if (!globalForEmail.emailTransport) {
+    globalForEmail.emailTransport = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || "587"),
+      secure: process.env.SMTP_SECURE === "true",
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+  }
+  return globalForEmail.emailTransport;
+}
+
+export function emailSender() {
+  return process.env.EMAIL_FROM || "PDCA TTFU Tracker <no-reply@localhost>";
+}
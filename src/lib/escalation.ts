@@ -0,0 +1,177 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { ACTIVE_STATUSES } from "./workflow";
+import { notifyDueSoon, notifyEscalated, notifyOverdue } from "./notifications";
+
+export interface EscalationSettings {
+  reminderDaysBefore: number | null;
+  escalateToSpvAfterDays: number | null;
+  escalateToAdminAfterDays: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A number of days, or "off" to skip the step
+function daysFromEnv(name: string, fallback: number): number | null {
+  const value = process.env[name];
+  if (value === "off") {
+    return null;
+  }
+  const days = parseInt(value || "");
+  return days >= 0 ? days : fallback;
+}
+
+// REMINDER_DAYS_BEFORE, ESCALATE_TO_SPV_AFTER_DAYS, ESCALATE_TO_ADMIN_AFTER_DAYS
+export function defaultEscalationSettings(): EscalationSettings {
+  return {
+    reminderDaysBefore: daysFromEnv("REMINDER_DAYS_BEFORE", 2),
+    escalateToSpvAfterDays: daysFromEnv("ESCALATE_TO_SPV_AFTER_DAYS", 1),
+    escalateToAdminAfterDays: daysFromEnv("ESCALATE_TO_ADMIN_AFTER_DAYS", 3),
+  };
+}
+
+// A meeting's own policy replaces the defaults as a whole
+export function effectiveEscalationSettings(policy: EscalationSettings | null): EscalationSettings {
+  if (!policy) {
+    return defaultEscalationSettings();
+  }
+  return {
+    reminderDaysBefore: policy.reminderDaysBefore,
+    escalateToSpvAfterDays: policy.escalateToSpvAfterDays,
+    escalateToAdminAfterDays: policy.escalateToAdminAfterDays,
+  };
+}
+
+const scheduledTTFUSelect = {
+  id: true,
+  title: true,
+  assigneeId: true,
+  reviewerId: true,
+  dueDate: true,
+  escalatedToSpvAt: true,
+  escalatedToAdminAt: true,
+  assignee: { select: { name: true } },
+  meeting: {
+    select: {
+      title: true,
+      createdById: true,
+      organizationId: true,
+      escalationPolicy: true,
+      participants: { where: { role: "spv" }, select: { userId: true } },
+    },
+  },
+} satisfies Prisma.TTFUSelect;
+
+type ScheduledTTFU = Prisma.TTFUGetPayload<{ select: typeof scheduledTTFUSelect }> & { dueDate: Date };
+
+function findScheduled(where: Prisma.TTFUWhereInput) {
+  return prisma.tTFU.findMany({
+    where: { ...where, status: { in: ACTIVE_STATUSES }, dueDate: { not: null } },
+    select: scheduledTTFUSelect,
+    orderBy: { dueDate: "asc" },
+  }) as Promise<ScheduledTTFU[]>;
+}
+
+// Each step claims its marker column first, so overlapping runners never send twice
+async function claim(
+  ttfuId: string,
+  marker: "reminderSentAt" | "overdueAt" | "escalatedToSpvAt" | "escalatedToAdminAt",
+  now: Date,
+  send: (tx: Prisma.TransactionClient) => Promise<void>
+) {
+  return prisma.$transaction(async (tx) => {
+    const claimed = await tx.tTFU.updateMany({
+      where: { id: ttfuId, [marker]: null },
+      data: { [marker]: now },
+    });
+    if (claimed.count === 0) {
+      return false;
+    }
+    await send(tx);
+    return true;
+  });
+}
+
+export async function sendDueReminders(now = new Date()) {
+  const { _max } = await prisma.escalationPolicy.aggregate({ _max: { reminderDaysBefore: true } });
+  const horizonDays = Math.max(defaultEscalationSettings().reminderDaysBefore ?? 0, _max.reminderDaysBefore ?? 0);
+
+  const ttfus = await findScheduled({
+    reminderSentAt: null,
+    dueDate: { gt: now, lte: new Date(now.getTime() + horizonDays * DAY_MS) },
+  });
+
+  let sent = 0;
+  for (const ttfu of ttfus) {
+    const { reminderDaysBefore } = effectiveEscalationSettings(ttfu.meeting.escalationPolicy);
+    if (reminderDaysBefore === null || ttfu.dueDate.getTime() - now.getTime() > reminderDaysBefore * DAY_MS) {
+      continue;
+    }
+    if (await claim(ttfu.id, "reminderSentAt", now, (tx) => notifyDueSoon(tx, ttfu))) {
+      sent++;
+    }
+  }
+  return sent;
+}
+
+export async function flagOverdueTTFUs(now = new Date()) {
+  const ttfus = await findScheduled({ overdueAt: null, dueDate: { lte: now } });
+
+  let flagged = 0;
+  for (const ttfu of ttfus) {
+    if (await claim(ttfu.id, "overdueAt", now, (tx) => notifyOverdue(tx, ttfu))) {
+      flagged++;
+    }
+  }
+  return flagged;
+}
+
+// Meeting SPVs first (the creator when there are none), then every ADMIN of the meeting's organization
+export async function escalateOverdueTTFUs(now = new Date()) {
+  const ttfus = await findScheduled({
+    overdueAt: { not: null },
+    dueDate: { lte: now },
+    OR: [{ escalatedToSpvAt: null }, { escalatedToAdminAt: null }],
+  });
+  if (ttfus.length === 0) {
+    return 0;
+  }
+
+  const admins = await prisma.user.findMany({
+    where: { globalRole: "ADMIN", deactivatedAt: null },
+    select: { id: true, organizationId: true },
+  });
+
+  let escalated = 0;
+  for (const ttfu of ttfus) {
+    const settings = effectiveEscalationSettings(ttfu.meeting.escalationPolicy);
+    const daysOverdue = Math.floor((now.getTime() - ttfu.dueDate.getTime()) / DAY_MS);
+    const details = { ...ttfu, meetingTitle: ttfu.meeting.title, assigneeName: ttfu.assignee.name };
+
+    if (
+      !ttfu.escalatedToSpvAt &&
+      settings.escalateToSpvAfterDays !== null &&
+      daysOverdue >= settings.escalateToSpvAfterDays
+    ) {
+      const spvIds = ttfu.meeting.participants.map((p) => p.userId);
+      const recipients = spvIds.length > 0 ? spvIds : [ttfu.meeting.createdById];
+      if (await claim(ttfu.id, "escalatedToSpvAt", now, (tx) => notifyEscalated(tx, details, recipients, daysOverdue))) {
+        escalated++;
+      }
+    }
+
+    if (
+      !ttfu.escalatedToAdminAt &&
+      settings.escalateToAdminAfterDays !== null &&
+      daysOverdue >= settings.escalateToAdminAfterDays
+    ) {
+      const recipients = admins
+        .filter((admin) => admin.organizationId === ttfu.meeting.organizationId)
+        .map((admin) => admin.id);
+      if (await claim(ttfu.id, "escalatedToAdminAt", now, (tx) => notifyEscalated(tx, details, recipients, daysOverdue))) {
+        escalated++;
+      }
+    }
+  }
+  return escalated;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ExportSheet } from "./sheets";
+import { streamCsv } from ".";
+
+// Nothing tested here touches the database
+vi.mock("../prisma", () => ({ prisma: {} }));
+
+const sheet: ExportSheet = {
+  name: "TTFUs",
+  columns: [
+    { header: "Title", width: 30 },
+    { header: "Due Date", width: 12, format: "date" },
+    { header: "Evidence", width: 10 },
+  ],
+  async *rows() {
+    yield [
+      ["Update the budget", new Date("2026-10-25T00:00:00Z"), 1],
+      ["=HYPERLINK(\"x\")", null, 0],
+    ];
+    yield [["Call the supplier, \"today\"", new Date("2026-10-18T00:00:00Z"), 2]];
+  },
+};
+
+async function read(stream: ReadableStream<Uint8Array>) {
+  return Buffer.from(await new Response(stream).arrayBuffer());
+}
+
+describe("streamCsv", () => {
+  it("quotes, escapes formulas and formats dates", async () => {
+    const csv = (await read(streamCsv(sheet, {}))).toString("utf8");
+    expect(csv).toBe(
+      "\uFEFFTitle,Due Date,Evidence\r\n" +
+        "Update the budget,2026-10-25,1\r\n" +
+        "\"'=HYPERLINK(\"\"x\"\")\",,0\r\n" +
+        "\"Call the supplier, \"\"today\"\"\",2026-10-18,2\r\n"
+    );
+  });
+});
@@ -0,0 +1,42 @@
+import { Prisma } from "@prisma/client";
+import type { Cell, ExportColumn, ExportSheet } from "./sheets";
+
+// Excel only detects UTF-8 in a CSV with a byte order mark
+const BOM = "\uFEFF";
+
+function formatCell(cell: Cell, column: ExportColumn) {
+  if (cell === null) return "";
+  if (cell instanceof Date) {
+    return column.format === "date" ? cell.toISOString().slice(0, 10) : cell.toISOString();
+  }
+  const text = String(cell);
+  // Keep spreadsheet apps from evaluating user-entered text as a formula
+  const safe = typeof cell === "string" && /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function toLine(cells: Cell[], columns: ExportColumn[]) {
+  return cells.map((cell, index) => formatCell(cell, columns[index])).join(",") + "\r\n";
+}
+
+export function streamCsv(sheet: ExportSheet, where: Prisma.TTFUWhereInput): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const batches = sheet.rows(where);
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(BOM + toLine(sheet.columns.map((column) => column.header), sheet.columns)));
+    },
+    async pull(controller) {
+      const { value, done } = await batches.next();
+      if (done) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(encoder.encode(value.map((cells) => toLine(cells, sheet.columns)).join("")));
+    },
+    async cancel() {
+      await batches.return(undefined);
+    },
+  });
+}
@@ -0,0 +1,18 @@
+export { renderMeetingRecapPdf } from "./pdf";
+export { streamXlsx } from "./xlsx";
+export { streamCsv } from "./csv";
+export { TTFU_SHEET, EVIDENCE_SHEET } from "./sheets";
+
+export function recapFileName(meeting: { title: string; date: Date }, extension: string) {
+  const slug = meeting.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60);
+  return `meeting-recap-${slug || "meeting"}-${meeting.date.toISOString().slice(0, 10)}.${extension}`;
+}
+
+export function downloadHeaders(fileName: string, contentType: string): Record<string, string> {
+  return {
+    "Content-Type": contentType,
+    "Content-Disposition": `attachment; filename="${fileName}"`,
+    "Cache-Control": "private, no-store",
+    "X-Content-Type-Options": "nosniff",
+  };
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from "vitest";
+import type { MeetingReport } from "../reports";
+import { recapFileName, renderMeetingRecapPdf } from ".";
+
+// Nothing tested here touches the database
+vi.mock("../prisma", () => ({ prisma: {} }));
+
+const alice = { id: "user-1", name: "Alice", email: "alice@example.com" };
+const bob = { id: "user-2", name: "Bob", email: "bob@example.com" };
+
+const report: MeetingReport = {
+  meeting: {
+    id: "meeting-1",
+    title: "Weekly Review",
+    date: new Date("2026-10-19T00:00:00Z"),
+    startTime: new Date("2026-10-19T09:00:00Z"),
+    endTime: new Date("2026-10-19T10:00:00Z"),
+    notes: "Quarterly targets",
+    createdBy: alice,
+    participants: [
+      { role: "spv", user: alice },
+      { role: "participant", user: bob },
+    ],
+  },
+  generatedAt: new Date("2026-10-20T08:30:00Z"),
+  totals: {
+    ttfus: 2,
+    overdue: 1,
+    evidences: 1,
+    reviews: 1,
+    reviewsByStatus: { approved: 1, rejected: 0, needs_revision: 0 },
+  },
+  byStatus: { OPEN: 1, IN_PROGRESS: 0, DONE: 1, REJECTED: 0 },
+  byAssignee: [],
+  byReviewer: [],
+  averageHoursToDone: 24,
+  overdue: [],
+  ttfus: [
+    {
+      id: "ttfu-1",
+      title: "Update the budget",
+      status: "DONE",
+      assignee: bob,
+      reviewer: alice,
+      dueDate: new Date("2026-10-25T00:00:00Z"),
+      overdue: false,
+      evidenceCount: 1,
+      reviewCount: 1,
+      latestReview: {
+        status: "approved",
+        comment: "Looks good",
+        createdAt: new Date("2026-10-19T15:00:00Z"),
+        reviewer: alice,
+      },
+      createdAt: new Date("2026-10-19T10:00:00Z"),
+      completedAt: new Date("2026-10-20T10:00:00Z"),
+      lastUpdatedAt: new Date("2026-10-20T10:00:00Z"),
+    },
+    {
+      id: "ttfu-2",
+      title: "Call the supplier",
+      status: "OPEN",
+      assignee: alice,
+      reviewer: bob,
+      dueDate: new Date("2026-10-18T00:00:00Z"),
+      overdue: true,
+      evidenceCount: 0,
+      reviewCount: 0,
+      latestReview: null,
+      createdAt: new Date("2026-10-19T10:00:00Z"),
+      completedAt: null,
+      lastUpdatedAt: new Date("2026-10-19T10:00:00Z"),
+    },
+  ],
+};
+
+describe("renderMeetingRecapPdf", () => {
+  it("renders the same bytes for the same report", async () => {
+    const first = await renderMeetingRecapPdf(report);
+    const second = await renderMeetingRecapPdf(report);
+
+    expect(first.subarray(0, 5).toString("latin1")).toBe("%PDF-");
+    expect(first.equals(second)).toBe(true);
+  });
+
+  it("renders the same bytes whatever the server's time zone", async () => {
+    const serverTimeZone = process.env.TZ;
+    try {
+      process.env.TZ = "America/Los_Angeles";
+      const losAngeles = await renderMeetingRecapPdf(report);
+      process.env.TZ = "Asia/Tokyo";
+      const tokyo = await renderMeetingRecapPdf(report);
+
+      expect(losAngeles.equals(tokyo)).toBe(true);
+    } finally {
+      process.env.TZ = serverTimeZone;
+    }
+  });
+
+  it("dates the document by the report, not the clock", async () => {
+    const pdf = (await renderMeetingRecapPdf(report)).toString("latin1");
+    expect(pdf).toContain("(D:20261020083000Z)");
+  });
+});
+
+describe("recapFileName", () => {
+  it("slugs the title and dates the file by the meeting", () => {
+    expect(recapFileName(report.meeting, "pdf")).toBe("meeting-recap-weekly-review-2026-10-19.pdf");
+    expect(recapFileName({ title: "!!!", date: report.meeting.date }, "xlsx")).toBe(
+      "meeting-recap-meeting-2026-10-19.xlsx"
+    );
+  });
+});
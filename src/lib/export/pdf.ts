@@ -0,0 +1,187 @@
+import PDFDocument from "pdfkit";
+import { formatDate, formatDateRange, formatDateTime } from "../utils";
+import type { MeetingReport } from "../reports";
+import { STATUS_LABELS } from "./sheets";
+
+// Only the PDF standard fonts are used, so rendering needs no font files or network.
+// Output depends on nothing but the report and REPORT_TIME_ZONE: CreationDate comes from report.generatedAt,
+// and dates are written in that zone rather than the server's.
+
+const MARGIN = 40;
+const CELL_PADDING = 4;
+const FONT = "Helvetica";
+const FONT_BOLD = "Helvetica-Bold";
+
+const COLUMNS = [
+  { label: "#", width: 20 },
+  { label: "TTFU", width: 135 },
+  { label: "Assignee", width: 70 },
+  { label: "Reviewer", width: 70 },
+  { label: "Due Date", width: 60 },
+  { label: "Status", width: 55 },
+  { label: "Latest Review", width: 105 },
+];
+
+type Doc = InstanceType<typeof PDFDocument>;
+
+function reportTimeZone() {
+  return process.env.REPORT_TIME_ZONE || "Asia/Jakarta";
+}
+
+function sectionTitle(doc: Doc, title: string) {
+  doc.moveDown(1).font(FONT_BOLD).fontSize(12).fillColor("#111827").text(title, MARGIN);
+  doc.moveDown(0.3);
+}
+
+function field(doc: Doc, label: string, value: string) {
+  doc.font(FONT_BOLD).fontSize(10).fillColor("#374151").text(`${label}: `, MARGIN, doc.y, { continued: true });
+  doc.font(FONT).fillColor("#111827").text(value);
+}
+
+function drawRow(doc: Doc, cells: string[], header = false) {
+  doc.font(header ? FONT_BOLD : FONT).fontSize(8);
+  const height =
+    Math.max(
+      ...cells.map((cell, index) =>
+        doc.heightOfString(cell, { width: COLUMNS[index].width - CELL_PADDING * 2 })
+      )
+    ) +
+    CELL_PADDING * 2;
+
+  let y = doc.y;
+  if (y + height > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage();
+    y = doc.page.margins.top;
+    if (!header) {
+      drawRow(doc, COLUMNS.map((column) => column.label), true);
+      y = doc.y;
+      doc.font(FONT).fontSize(8);
+    }
+  }
+
+  const right = MARGIN + COLUMNS.reduce((sum, column) => sum + column.width, 0);
+  if (header) {
+    doc.rect(MARGIN, y, right - MARGIN, height).fill("#f3f4f6");
+  }
+
+  let x = MARGIN;
+  doc.fillColor("#111827");
+  cells.forEach((cell, index) => {
+    doc.text(cell, x + CELL_PADDING, y + CELL_PADDING, { width: COLUMNS[index].width - CELL_PADDING * 2 });
+    x += COLUMNS[index].width;
+  });
+
+  doc.moveTo(MARGIN, y + height).lineTo(right, y + height).lineWidth(0.5).strokeColor("#d1d5db").stroke();
+  doc.x = MARGIN;
+  doc.y = y + height;
+}
+
+function latestReviewText(review: MeetingReport["ttfus"][number]["latestReview"]) {
+  if (!review) return "—";
+  const verdict = `${STATUS_LABELS[review.status]} (${review.reviewer.name})`;
+  return review.comment ? `${verdict}: ${review.comment}` : verdict;
+}
+
+function drawPageNumbers(doc: Doc) {
+  const range = doc.bufferedPageRange();
+  for (let index = range.start; index < range.start + range.count; index++) {
+    doc.switchToPage(index);
+    // Writing inside the bottom margin would otherwise start a new page
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc
+      .font(FONT)
+      .fontSize(8)
+      .fillColor("#6b7280")
+      .text(`Page ${index + 1} of ${range.count}`, MARGIN, doc.page.height - MARGIN + 10, {
+        width: doc.page.width - MARGIN * 2,
+        align: "right",
+      });
+    doc.page.margins.bottom = bottom;
+  }
+}
+
+export function renderMeetingRecapPdf(report: MeetingReport): Promise<Buffer> {
+  const { meeting } = report;
+  const timeZone = reportTimeZone();
+  const date = (value: Date) => formatDate(value, "id-ID", timeZone);
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: MARGIN,
+    bufferPages: true,
+    info: {
+      Title: `Meeting Recap - ${meeting.title}`,
+      CreationDate: report.generatedAt,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  // Header
+  doc.font(FONT_BOLD).fontSize(18).fillColor("#111827").text(meeting.title);
+  doc.font(FONT).fontSize(10).fillColor("#4b5563").text(
+    meeting.startTime && meeting.endTime
+      ? `${date(meeting.date)} • ${formatDateRange(meeting.startTime, meeting.endTime, timeZone)}`
+      : date(meeting.date)
+  );
+  doc.moveDown(0.8);
+
+  const spvs = meeting.participants.filter((participant) => participant.role === "spv");
+  field(doc, "SPV", spvs.length > 0 ? spvs.map((participant) => participant.user.name).join(", ") : "—");
+  field(doc, "Created by", meeting.createdBy.name);
+  field(
+    doc,
+    "Participants",
+    meeting.participants.length > 0
+      ? meeting.participants.map((participant) => `${participant.user.name} (${participant.role})`).join(", ")
+      : "—"
+  );
+
+  if (meeting.notes) {
+    sectionTitle(doc, "Notes");
+    doc.font(FONT).fontSize(10).fillColor("#111827").text(meeting.notes);
+  }
+
+  sectionTitle(doc, "Summary");
+  doc.font(FONT).fontSize(10).fillColor("#111827").text(
+    [
+      `${report.totals.ttfus} TTFU(s)`,
+      `Open ${report.byStatus.OPEN}`,
+      `In Progress ${report.byStatus.IN_PROGRESS}`,
+      `Done ${report.byStatus.DONE}`,
+      `Rejected ${report.byStatus.REJECTED}`,
+      `Overdue ${report.totals.overdue}`,
+    ].join("   •   ")
+  );
+
+  sectionTitle(doc, "TTFUs");
+  if (report.ttfus.length === 0) {
+    doc.font(FONT).fontSize(10).fillColor("#6b7280").text("No TTFUs recorded for this meeting.");
+  } else {
+    drawRow(doc, COLUMNS.map((column) => column.label), true);
+    report.ttfus.forEach((ttfu, index) => {
+      drawRow(doc, [
+        String(index + 1),
+        ttfu.overdue ? `${ttfu.title} (overdue)` : ttfu.title,
+        ttfu.assignee.name,
+        ttfu.reviewer.name,
+        ttfu.dueDate ? date(ttfu.dueDate) : "—",
+        STATUS_LABELS[ttfu.status],
+        latestReviewText(ttfu.latestReview),
+      ]);
+    });
+  }
+
+  doc.moveDown(1.5);
+  doc.font(FONT).fontSize(8).fillColor("#6b7280").text(`Generated ${formatDateTime(report.generatedAt, "id-ID", timeZone)}`, MARGIN);
+
+  drawPageNumbers(doc);
+  doc.end();
+
+  return done;
+}
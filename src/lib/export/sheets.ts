@@ -0,0 +1,189 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { isOverdue } from "../workflow";
+
+export type Cell = string | number | Date | null;
+
+export interface ExportColumn {
+  header: string;
+  width: number;
+  format?: "date" | "datetime";
+}
+
+export interface ExportSheet {
+  name: string;
+  columns: ExportColumn[];
+  // Rows are read in batches so large exports never sit in memory at once
+  rows(where: Prisma.TTFUWhereInput): AsyncGenerator<Cell[][]>;
+}
+
+export const STATUS_LABELS: Record<string, string> = {
+  OPEN: "Open",
+  IN_PROGRESS: "In Progress",
+  DONE: "Done",
+  REJECTED: "Rejected",
+  approved: "Approved",
+  rejected: "Rejected",
+  needs_revision: "Needs Revision",
+};
+
+const BATCH_SIZE = 500;
+
+async function* inBatches<T extends { id: string }>(fetchBatch: (cursor?: string) => Promise<T[]>) {
+  let cursor: string | undefined;
+  while (true) {
+    const batch = await fetchBatch(cursor);
+    if (batch.length > 0) {
+      yield batch;
+    }
+    if (batch.length < BATCH_SIZE) {
+      return;
+    }
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+function page(cursor?: string) {
+  return {
+    take: BATCH_SIZE,
+    ...(cursor && { skip: 1, cursor: { id: cursor } }),
+  };
+}
+
+const ttfuExportInclude = {
+  meeting: { select: { title: true, date: true } },
+  assignee: { select: { name: true, email: true } },
+  reviewer: { select: { name: true, email: true } },
+  evidences: {
+    select: {
+      reviews: { select: { status: true, comment: true, createdAt: true } },
+    },
+  },
+} satisfies Prisma.TTFUInclude;
+
+const evidenceExportInclude = {
+  ttfu: { select: { title: true, meeting: { select: { title: true } } } },
+  submittedBy: { select: { name: true } },
+  reviews: {
+    include: { reviewer: { select: { name: true } } },
+    orderBy: { createdAt: "asc" },
+  },
+} satisfies Prisma.EvidenceInclude;
+
+export const TTFU_SHEET: ExportSheet = {
+  name: "TTFUs",
+  columns: [
+    { header: "TTFU ID", width: 28 },
+    { header: "Meeting", width: 30 },
+    { header: "Meeting Date", width: 14, format: "date" },
+    { header: "Title", width: 40 },
+    { header: "Description", width: 50 },
+    { header: "Status", width: 14 },
+    { header: "Assignee", width: 22 },
+    { header: "Assignee Email", width: 28 },
+    { header: "Reviewer", width: 22 },
+    { header: "Reviewer Email", width: 28 },
+    { header: "Due Date", width: 14, format: "date" },
+    { header: "Overdue", width: 10 },
+    { header: "Evidence", width: 10 },
+    { header: "Reviews", width: 10 },
+    { header: "Latest Review", width: 16 },
+    { header: "Latest Review Comment", width: 40 },
+    { header: "Created At", width: 20, format: "datetime" },
+    { header: "Updated At", width: 20, format: "datetime" },
+  ],
+  async *rows(where) {
+    const now = new Date();
+    const batches = inBatches((cursor) =>
+      prisma.tTFU.findMany({
+        where,
+        include: ttfuExportInclude,
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+        ...page(cursor),
+      })
+    );
+    for await (const batch of batches) {
+      yield batch.map((ttfu) => {
+        const reviews = ttfu.evidences
+          .flatMap((evidence) => evidence.reviews)
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+        const latestReview = reviews.at(-1);
+        return [
+          ttfu.id,
+          ttfu.meeting.title,
+          ttfu.meeting.date,
+          ttfu.title,
+          ttfu.description,
+          STATUS_LABELS[ttfu.status],
+          ttfu.assignee.name,
+          ttfu.assignee.email,
+          ttfu.reviewer.name,
+          ttfu.reviewer.email,
+          ttfu.dueDate,
+          isOverdue(ttfu, now) ? "Yes" : "No",
+          ttfu.evidences.length,
+          reviews.length,
+          latestReview ? STATUS_LABELS[latestReview.status] : null,
+          latestReview?.comment ?? null,
+          ttfu.createdAt,
+          ttfu.updatedAt,
+        ];
+      });
+    }
+  },
+};
+
+// One row per review; evidence that has not been reviewed yet gets a single row with empty review columns
+export const EVIDENCE_SHEET: ExportSheet = {
+  name: "Evidence & Reviews",
+  columns: [
+    { header: "TTFU ID", width: 28 },
+    { header: "TTFU", width: 40 },
+    { header: "Meeting", width: 30 },
+    { header: "Evidence ID", width: 28 },
+    { header: "Type", width: 8 },
+    { header: "Link / File", width: 40 },
+    { header: "Evidence Description", width: 40 },
+    { header: "Submitted By", width: 22 },
+    { header: "Submitted At", width: 20, format: "datetime" },
+    { header: "Review", width: 16 },
+    { header: "Reviewer", width: 22 },
+    { header: "Review Comment", width: 40 },
+    { header: "Reviewed At", width: 20, format: "datetime" },
+  ],
+  async *rows(where) {
+    const batches = inBatches((cursor) =>
+      prisma.evidence.findMany({
+        where: { ttfu: where },
+        include: evidenceExportInclude,
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+        ...page(cursor),
+      })
+    );
+    for await (const batch of batches) {
+      yield batch.flatMap((evidence) => {
+        const base: Cell[] = [
+          evidence.ttfuId,
+          evidence.ttfu.title,
+          evidence.ttfu.meeting.title,
+          evidence.id,
+          evidence.type,
+          evidence.type === "link" ? evidence.url : evidence.fileName,
+          evidence.description,
+          evidence.submittedBy.name,
+          evidence.createdAt,
+        ];
+        if (evidence.reviews.length === 0) {
+          return [[...base, null, null, null, null]];
+        }
+        return evidence.reviews.map((review) => [
+          ...base,
+          STATUS_LABELS[review.status],
+          review.reviewer.name,
+          review.comment,
+          review.createdAt,
+        ]);
+      });
+    }
+  },
+};
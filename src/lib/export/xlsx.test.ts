@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from "vitest";
+import ExcelJS from "exceljs";
+import type { ExportSheet } from "./sheets";
+import { streamXlsx } from ".";
+
+// Nothing tested here touches the database
+vi.mock("../prisma", () => ({ prisma: {} }));
+
+const sheet: ExportSheet = {
+  name: "TTFUs",
+  columns: [
+    { header: "Title", width: 30 },
+    { header: "Due Date", width: 12, format: "date" },
+    { header: "Evidence", width: 10 },
+  ],
+  async *rows() {
+    yield [
+      ["Update the budget", new Date("2026-10-25T00:00:00Z"), 1],
+      ["=HYPERLINK(\"x\")", null, 0],
+    ];
+    yield [["Call the supplier, \"today\"", new Date("2026-10-18T00:00:00Z"), 2]];
+  },
+};
+
+describe("streamXlsx", () => {
+  it("writes a header and every batch of rows", async () => {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await new Response(streamXlsx([sheet], {})).arrayBuffer());
+
+    const worksheet = workbook.getWorksheet("TTFUs")!;
+    const values = worksheet.getSheetValues().slice(1).map((row) => (row as ExcelJS.CellValue[]).slice(1));
+    expect(values).toEqual([
+      ["Title", "Due Date", "Evidence"],
+      ["Update the budget", new Date("2026-10-25T00:00:00Z"), 1],
+      ["=HYPERLINK(\"x\")", undefined, 0],
+      ["Call the supplier, \"today\"", new Date("2026-10-18T00:00:00Z"), 2],
+    ]);
+    expect(worksheet.getRow(1).font?.bold).toBe(true);
+    expect(worksheet.getCell("B2").numFmt).toBe("yyyy-mm-dd");
+  });
+});
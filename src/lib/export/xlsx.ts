@@ -0,0 +1,42 @@
+import ExcelJS from "exceljs";
+import { PassThrough, Readable } from "stream";
+import { Prisma } from "@prisma/client";
+import type { ExportSheet } from "./sheets";
+
+const NUMBER_FORMATS = {
+  date: "yyyy-mm-dd",
+  datetime: "yyyy-mm-dd hh:mm",
+};
+
+// Rows are committed as they are read, so the workbook streams out instead of being built in memory
+export function streamXlsx(sheets: ExportSheet[], where: Prisma.TTFUWhereInput): ReadableStream<Uint8Array> {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+
+  (async () => {
+    for (const sheet of sheets) {
+      const worksheet = workbook.addWorksheet(sheet.name, {
+        views: [{ state: "frozen", ySplit: 1 }],
+      });
+      worksheet.columns = sheet.columns.map((column) => ({
+        header: column.header,
+        width: column.width,
+        style: column.format ? { numFmt: NUMBER_FORMATS[column.format] } : {},
+      }));
+      worksheet.getRow(1).font = { bold: true };
+
+      for await (const batch of sheet.rows(where)) {
+        for (const cells of batch) {
+          worksheet.addRow(cells).commit();
+        }
+      }
+      worksheet.commit();
+    }
+    await workbook.commit();
+  })().catch((error) => {
+    console.error("Error streaming XLSX export:", error);
+    output.destroy(error);
+  });
+
+  return Readable.toWeb(output) as ReadableStream<Uint8Array>;
+}
@@ -0,0 +1,77 @@
+import { Prisma, TtfuStatus } from "@prisma/client";
+import { PolicyUser, visibleTTFUsWhere } from "./policy";
+import { ACTIVE_STATUSES } from "./workflow";
+import { isValidDate } from "./utils";
+import { z } from "zod";
+
+// An empty parameter is the same as leaving it out
+const dateParam = z.string().refine((value) => value === "" || isValidDate(value), "Invalid date").nullable();
+
+const dateParamsSchema = z.object({
+  fromDate: dateParam,
+  toDate: dateParam,
+  dueFrom: dateParam,
+  dueTo: dateParam,
+});
+
+function dateRange(from: string | null, to: string | null): Prisma.DateTimeFilter | undefined {
+  if (!from && !to) {
+    return undefined;
+  }
+  return {
+    ...(from && { gte: new Date(from) }),
+    ...(to && { lte: new Date(to) }),
+  };
+}
+
+// fromDate/toDate as a filter on the meeting date, for the meeting list and the dashboard summary.
+// Throws a ZodError for dates that do not parse.
+export function meetingDateFilter(searchParams: URLSearchParams) {
+  const dates = dateParamsSchema.pick({ fromDate: true, toDate: true }).parse({
+    fromDate: searchParams.get("fromDate"),
+    toDate: searchParams.get("toDate"),
+  });
+  return dateRange(dates.fromDate, dates.toDate);
+}
+
+// Query-string filters shared by GET /api/ttfu and the TTFU export:
+// meetingId, status, assigneeId, reviewerId, formerAssigneeId,
+// fromDate/toDate (meeting date), dueFrom/dueTo (TTFU due date) and overdue=true.
+// Throws a ZodError for dates that do not parse.
+export function ttfuFiltersWhere(user: PolicyUser, searchParams: URLSearchParams): Prisma.TTFUWhereInput {
+  const meetingId = searchParams.get("meetingId");
+  const status = searchParams.get("status");
+  const assigneeId = searchParams.get("assigneeId");
+  const reviewerId = searchParams.get("reviewerId");
+  const formerAssigneeId = searchParams.get("formerAssigneeId");
+  const dates = dateParamsSchema.parse({
+    fromDate: searchParams.get("fromDate"),
+    toDate: searchParams.get("toDate"),
+    dueFrom: searchParams.get("dueFrom"),
+    dueTo: searchParams.get("dueTo"),
+  });
+  const meetingDate = dateRange(dates.fromDate, dates.toDate);
+  const dueDate = dateRange(dates.dueFrom, dates.dueTo);
+  const overdue = searchParams.get("overdue") === "true";
+
+  const where: Prisma.TTFUWhereInput = {};
+
+  if (meetingId) where.meetingId = meetingId;
+  if (status && status in TtfuStatus) where.status = status as TtfuStatus;
+  if (assigneeId) where.assigneeId = assigneeId;
+  if (reviewerId) where.reviewerId = reviewerId;
+  if (formerAssigneeId) {
+    where.reassignments = {
+      some: { role: "assignee", fromUserId: formerAssigneeId },
+    };
+  }
+  if (meetingDate) where.meeting = { date: meetingDate };
+  if (dueDate) where.dueDate = dueDate;
+
+  const clauses = [visibleTTFUsWhere(user), where];
+  if (overdue) {
+    clauses.push({ dueDate: { lt: new Date() }, status: { in: ACTIVE_STATUSES } });
+  }
+
+  return { AND: clauses };
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Prisma } from "@prisma/client";
+import { canJoinAs, claimInviteUse, generateInviteCode, isInviteActive, normalizeInviteCode } from "./invites";
+
+// Nothing tested here touches the database
+vi.mock("./prisma", () => ({ prisma: {} }));
+
+const now = new Date("2026-10-19T12:00:00Z");
+
+describe("isInviteActive", () => {
+  const invite = { expiresAt: null, maxUses: null, uses: 0, revokedAt: null };
+
+  it("is active without limits", () => {
+    expect(isInviteActive({ ...invite, uses: 100 }, now)).toBe(true);
+  });
+
+  it("stops at maxUses", () => {
+    expect(isInviteActive({ ...invite, maxUses: 2, uses: 1 }, now)).toBe(true);
+    expect(isInviteActive({ ...invite, maxUses: 2, uses: 2 }, now)).toBe(false);
+  });
+
+  it("stops when expired or revoked", () => {
+    expect(isInviteActive({ ...invite, expiresAt: new Date("2026-10-20T00:00:00Z") }, now)).toBe(true);
+    expect(isInviteActive({ ...invite, expiresAt: now }, now)).toBe(false);
+    expect(isInviteActive({ ...invite, revokedAt: new Date("2026-10-18T00:00:00Z") }, now)).toBe(false);
+  });
+});
+
+describe("invite codes", () => {
+  it("are generated without look-alike characters", () => {
+    expect(generateInviteCode()).toMatch(/^[A-HJKMNP-Z2-9]{10}$/);
+  });
+
+  it("are matched in any case and with spaces or dashes", () => {
+    expect(normalizeInviteCode(" abcde-fghjk ")).toBe("ABCDEFGHJK");
+  });
+});
+
+describe("canJoinAs", () => {
+  it("limits the meeting role by global role", () => {
+    expect(canJoinAs("USER", "participant")).toBe(true);
+    expect(canJoinAs("USER", "reviewer")).toBe(false);
+    expect(canJoinAs("REVIEWER", "reviewer")).toBe(true);
+    expect(canJoinAs("REVIEWER", "spv")).toBe(false);
+    expect(canJoinAs("SPV", "spv")).toBe(true);
+    expect(canJoinAs("UNKNOWN", "participant")).toBe(false);
+  });
+});
+
+describe("claimInviteUse", () => {
+  function fakeTx(count: number) {
+    const calls: Prisma.MeetingInviteUpdateManyArgs[] = [];
+    const tx = {
+      meetingInvite: {
+        updateMany: async (args: Prisma.MeetingInviteUpdateManyArgs) => {
+          calls.push(args);
+          return { count };
+        },
+      },
+    } as unknown as Prisma.TransactionClient;
+    return { tx, calls };
+  }
+
+  it("only counts a use while the invite is below maxUses", async () => {
+    const { tx, calls } = fakeTx(1);
+    expect(await claimInviteUse(tx, { id: "invite-1", maxUses: 3 }, now)).toBe(true);
+    expect(calls[0]).toEqual({
+      where: {
+        id: "invite-1",
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+        uses: { lt: 3 },
+      },
+      data: { uses: { increment: 1 } },
+    });
+  });
+
+  it("has no use limit without maxUses", async () => {
+    const { tx, calls } = fakeTx(1);
+    await claimInviteUse(tx, { id: "invite-1", maxUses: null }, now);
+    expect(calls[0].where).not.toHaveProperty("uses");
+  });
+
+  it("reports a lost race as not claimed", async () => {
+    const { tx } = fakeTx(0);
+    expect(await claimInviteUse(tx, { id: "invite-1", maxUses: 1 }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,131 @@
+import { randomInt } from "crypto";
+import { GlobalRole, MeetingRole, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { recordAudit } from "./audit";
+
+// No 0/O or 1/I/L, so codes survive being read out loud or copied by hand
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 10;
+
+// Meeting roles a user may take through an invite, by global role
+export const JOINABLE_ROLES: Record<GlobalRole, MeetingRole[]> = {
+  ADMIN: ["spv", "reviewer", "participant"],
+  SPV: ["spv", "reviewer", "participant"],
+  REVIEWER: ["reviewer", "participant"],
+  USER: ["participant"],
+};
+
+export function canJoinAs(globalRole: string, role: MeetingRole) {
+  return JOINABLE_ROLES[globalRole as GlobalRole]?.includes(role) ?? false;
+}
+
+export function generateInviteCode() {
+  let code = "";
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+// Codes are typed by hand, so accept them in any case and with stray spaces or dashes
+export function normalizeInviteCode(code: string) {
+  return code.toUpperCase().replace(/[\s-]/g, "");
+}
+
+interface InviteState {
+  expiresAt: Date | null;
+  maxUses: number | null;
+  uses: number;
+  revokedAt: Date | null;
+}
+
+export function isInviteActive(invite: InviteState, now = new Date()) {
+  return (
+    !invite.revokedAt &&
+    (!invite.expiresAt || invite.expiresAt > now) &&
+    (invite.maxUses === null || invite.uses < invite.maxUses)
+  );
+}
+
+// Unknown, revoked, expired and used-up codes, and codes for another organization's meetings, all look the same
+// to the caller, so a code reveals nothing about a meeting unless it can actually be redeemed
+export async function findActiveInvite(code: string, organizationId: string, now = new Date()) {
+  const invite = await prisma.meetingInvite.findFirst({
+    where: { code: normalizeInviteCode(code), meeting: { organizationId } },
+    include: {
+      meeting: {
+        select: {
+          id: true,
+          title: true,
+          date: true,
+          startTime: true,
+          endTime: true,
+          createdBy: { select: { id: true, name: true } },
+        },
+      },
+    },
+  });
+  return invite && isInviteActive(invite, now) ? invite : null;
+}
+
+// Counts one use of the invite, unless it was revoked, expired or used up since it was looked up. Checked and
+// counted in one statement, so concurrent redemptions cannot take it past maxUses.
+export async function claimInviteUse(
+  tx: Prisma.TransactionClient,
+  invite: { id: string; maxUses: number | null },
+  now = new Date()
+) {
+  const claimed = await tx.meetingInvite.updateMany({
+    where: {
+      id: invite.id,
+      revokedAt: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+      ...(invite.maxUses !== null && { uses: { lt: invite.maxUses } }),
+    },
+    data: { uses: { increment: 1 } },
+  });
+  return claimed.count > 0;
+}
+
+export async function addParticipantFromInvite(
+  tx: Prisma.TransactionClient,
+  {
+    meetingId,
+    userId,
+    role,
+    actorId,
+    details,
+  }: {
+    meetingId: string;
+    userId: string;
+    role: MeetingRole;
+    actorId: string;
+    details: Record<string, unknown>;
+  }
+) {
+  const created = await tx.meetingParticipant.create({
+    data: { meetingId, userId, role },
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          globalRole: true,
+        },
+      },
+    },
+  });
+
+  await recordAudit(tx, {
+    userId: actorId,
+    action: "PARTICIPANT_CREATE",
+    entity: "PARTICIPANT",
+    entityId: created.id,
+    meetingId,
+    after: created,
+    details,
+  });
+
+  return created;
+}
@@ -0,0 +1,277 @@
+import { Client, Entry, InvalidCredentialsError, Filter } from "ldapts";
+import { GlobalRole, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { recordAudit } from "./audit";
+import { defaultOrganizationId } from "./organizations";
+import { adminUserSelect, mappedRole } from "./users";
+
+export const LDAP_PROVIDER_ID = "ldap";
+
+// Directory users found by the same search as at sign-in, with the {email} placeholder matching anything
+const DEFAULT_USER_FILTER = "(mail={email})";
+
+export interface DirectoryUser {
+  // Stable across renames and moves, unlike the DN
+  id: string;
+  dn: string;
+  email: string;
+  name: string;
+  // CNs of the groups the user is a member of
+  groups: string[];
+}
+
+// On when LDAP_URL and LDAP_BASE_DN are both set
+export function isLdapEnabled() {
+  return !!(process.env.LDAP_URL && process.env.LDAP_BASE_DN);
+}
+
+function attributeNames() {
+  return {
+    id: process.env.LDAP_ID_ATTRIBUTE || "entryUUID",
+    email: process.env.LDAP_EMAIL_ATTRIBUTE || "mail",
+    name: process.env.LDAP_NAME_ATTRIBUTE || "cn",
+    groups: process.env.LDAP_GROUP_ATTRIBUTE || "memberOf",
+  };
+}
+
+function userFilter(email: string | null) {
+  const template = process.env.LDAP_USER_FILTER || DEFAULT_USER_FILTER;
+  return template.replaceAll("{email}", email === null ? "*" : Filter.escape(email));
+}
+
+// Servers differ in the case of the attribute names they return
+function attributeValues(entry: Entry, name: string): (string | Buffer)[] {
+  const key = Object.keys(entry).find((candidate) => candidate.toLowerCase() === name.toLowerCase());
+  const value = key ? entry[key] : undefined;
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function firstValue(entry: Entry, name: string) {
+  const [value] = attributeValues(entry, name);
+  return value === undefined ? null : value.toString();
+}
+
+// Active Directory's objectGUID is binary, so the id attribute is read as raw bytes
+function entryId(entry: Entry, name: string) {
+  const [value] = attributeValues(entry, name);
+  if (value === undefined) return null;
+  if (!Buffer.isBuffer(value)) return value;
+  return name.toLowerCase() === "objectguid" ? value.toString("hex") : value.toString("utf8");
+}
+
+function groupName(dn: string) {
+  const match = dn.match(/^cn=((?:\\.|[^,])+)/i);
+  return match ? match[1].replace(/\\(.)/g, "$1") : dn;
+}
+
+function toDirectoryUser(entry: Entry): DirectoryUser | null {
+  const names = attributeNames();
+  const id = entryId(entry, names.id);
+  const email = firstValue(entry, names.email)?.toLowerCase();
+  if (!id || !email) return null;
+
+  return {
+    id,
+    dn: entry.dn,
+    email,
+    name: firstValue(entry, names.name) || email,
+    groups: attributeValues(entry, names.groups).map((dn) => groupName(dn.toString())),
+  };
+}
+
+// LDAP_ROLE_MAP="pdca-admins=ADMIN,pdca-spv=SPV" maps group CNs to global roles. Null when it is unset or none
+// of the user's groups is mapped, which leaves the role to admins rather than demoting the user.
+export function roleFromGroups(user: DirectoryUser): GlobalRole | null {
+  const mapping = process.env.LDAP_ROLE_MAP;
+  return mapping ? mappedRole(user.groups, mapping) : null;
+}
+
+// A client bound with the service account (LDAP_BIND_DN / LDAP_BIND_PASSWORD), or anonymously when none is set
+async function withDirectory<T>(run: (client: Client) => Promise<T>) {
+  const tlsOptions = { rejectUnauthorized: process.env.LDAP_TLS_REJECT_UNAUTHORIZED !== "false" };
+  const client = new Client({
+    url: process.env.LDAP_URL!,
+    timeout: parseInt(process.env.LDAP_TIMEOUT_MS || "") || 10000,
+    connectTimeout: parseInt(process.env.LDAP_TIMEOUT_MS || "") || 10000,
+    tlsOptions,
+  });
+
+  try {
+    if (process.env.LDAP_START_TLS === "true") {
+      await client.startTLS(tlsOptions);
+    }
+    if (process.env.LDAP_BIND_DN) {
+      await client.bind(process.env.LDAP_BIND_DN, process.env.LDAP_BIND_PASSWORD || "");
+    }
+    return await run(client);
+  } finally {
+    await client.unbind().catch(() => undefined);
+  }
+}
+
+async function searchUsers(client: Client, email: string | null) {
+  const names = attributeNames();
+  const { searchEntries } = await client.search(process.env.LDAP_BASE_DN!, {
+    scope: "sub",
+    filter: userFilter(email),
+    attributes: ["dn", names.id, names.email, names.name, names.groups],
+    explicitBufferAttributes: [names.id],
+    paged: email === null,
+  });
+  return searchEntries.map(toDirectoryUser).filter((user): user is DirectoryUser => user !== null);
+}
+
+// Finds the user by email with the service account, then binds as them to check the password. Null for
+// unknown users and wrong passwords; throws when the directory cannot be reached.
+export async function authenticateLdap(email: string, password: string) {
+  // An empty password would be an unauthenticated bind, which many servers accept
+  if (!password) return null;
+
+  return withDirectory(async (client) => {
+    const found = await searchUsers(client, email);
+    if (found.length !== 1) return null;
+
+    try {
+      await client.bind(found[0].dn, password);
+    } catch (error) {
+      if (error instanceof InvalidCredentialsError) return null;
+      throw error;
+    }
+    return found[0];
+  });
+}
+
+// The app user for a directory user, created on their first sign-in and kept in step with the directory
+// afterwards. An existing user with the same email is linked, since the company directory vouches for it.
+export async function provisionLdapUser(directoryUser: DirectoryUser) {
+  const role = roleFromGroups(directoryUser);
+
+  return prisma.$transaction(async (tx) => {
+    const account = await tx.account.findUnique({
+      where: { provider_providerAccountId: { provider: LDAP_PROVIDER_ID, providerAccountId: directoryUser.id } },
+      select: { userId: true },
+    });
+    const existing = account
+      ? await tx.user.findUniqueOrThrow({ where: { id: account.userId }, select: adminUserSelect })
+      : await tx.user.findUnique({ where: { email: directoryUser.email }, select: adminUserSelect });
+
+    if (!existing) {
+      const created = await tx.user.create({
+        data: {
+          name: directoryUser.name,
+          email: directoryUser.email,
+          globalRole: role ?? "USER",
+          organizationId: await defaultOrganizationId(tx),
+          accounts: {
+            create: { type: "credentials", provider: LDAP_PROVIDER_ID, providerAccountId: directoryUser.id },
+          },
+        },
+        select: adminUserSelect,
+      });
+      await recordAudit(tx, {
+        userId: null,
+        action: "USER_CREATE",
+        entity: "USER",
+        entityId: created.id,
+        after: created,
+        details: { source: LDAP_PROVIDER_ID },
+      });
+      return tx.user.findUniqueOrThrow({ where: { id: created.id } });
+    }
+
+    if (!account) {
+      await tx.account.create({
+        data: {
+          userId: existing.id,
+          type: "credentials",
+          provider: LDAP_PROVIDER_ID,
+          providerAccountId: directoryUser.id,
+        },
+      });
+    }
+    await applyDirectoryChanges(tx, existing, directoryUser, role);
+    return tx.user.findUniqueOrThrow({ where: { id: existing.id } });
+  });
+}
+
+// Name, email and (with a mapped group) role follow the directory. True when anything changed.
+async function applyDirectoryChanges(
+  tx: Prisma.TransactionClient,
+  user: Prisma.UserGetPayload<{ select: typeof adminUserSelect }>,
+  directoryUser: DirectoryUser,
+  role: GlobalRole | null
+) {
+  const data: { name?: string; email?: string; globalRole?: GlobalRole } = {};
+  if (directoryUser.name !== user.name) data.name = directoryUser.name;
+  if (role && role !== user.globalRole) data.globalRole = role;
+  if (directoryUser.email !== user.email) {
+    const taken = await tx.user.findUnique({ where: { email: directoryUser.email }, select: { id: true } });
+    if (!taken) data.email = directoryUser.email;
+  }
+  if (Object.keys(data).length === 0) return false;
+
+  const after = await tx.user.update({ where: { id: user.id }, data, select: adminUserSelect });
+  await recordAudit(tx, {
+    userId: null,
+    action: "USER_UPDATE",
+    entity: "USER",
+    entityId: user.id,
+    before: user,
+    after,
+    details: { source: LDAP_PROVIDER_ID },
+  });
+  return true;
+}
+
+// Run by the background jobs: updates linked users from the directory and deactivates those no longer found
+// by LDAP_USER_FILTER. New directory users are not created here, only on their first sign-in.
+export async function syncLdapUsers(now = new Date()) {
+  const directoryUsers = await withDirectory((client) => searchUsers(client, null));
+  const byId = new Map(directoryUsers.map((user) => [user.id, user]));
+
+  const accounts = await prisma.account.findMany({
+    where: { provider: LDAP_PROVIDER_ID },
+    select: { providerAccountId: true, user: { select: adminUserSelect } },
+  });
+
+  // An empty result is far more likely a broken filter or bind than an empty company
+  if (directoryUsers.length === 0 && accounts.length > 0) {
+    throw new Error("The directory returned no users; not deactivating anyone");
+  }
+
+  let updated = 0;
+  let deactivated = 0;
+  for (const { providerAccountId, user } of accounts) {
+    const directoryUser = byId.get(providerAccountId);
+
+    if (!directoryUser) {
+      if (user.deactivatedAt) continue;
+      await prisma.$transaction(async (tx) => {
+        const after = await tx.user.update({
+          where: { id: user.id },
+          data: { deactivatedAt: now },
+          select: adminUserSelect,
+        });
+        await recordAudit(tx, {
+          userId: null,
+          action: "USER_UPDATE",
+          entity: "USER",
+          entityId: user.id,
+          before: user,
+          after,
+          details: { source: LDAP_PROVIDER_ID, reason: "Removed from the directory" },
+        });
+      });
+      deactivated++;
+      continue;
+    }
+
+    const changed = await prisma.$transaction((tx) =>
+      applyDirectoryChanges(tx, user, directoryUser, roleFromGroups(directoryUser))
+    );
+    if (changed) updated++;
+  }
+
+  return { updated, deactivated };
+}
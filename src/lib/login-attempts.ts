@@ -0,0 +1,130 @@
+import { LoginOutcome, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { clientIpFrom } from "./rate-limit";
+
+const MINUTE = 60 * 1000;
+
+// Failures in this window slow down and eventually block further tries
+const FAILURE_WINDOW_MS = 15 * MINUTE;
+const FAILURE_OUTCOMES: LoginOutcome[] = ["INVALID_CREDENTIALS", "TWO_FACTOR_INVALID"];
+const MAX_DELAY_MS = 8000;
+
+// LOGIN_LOCKOUT_THRESHOLD consecutive failures lock the account for LOGIN_LOCKOUT_MINUTES
+function lockoutThreshold() {
+  return parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || "") || 10;
+}
+
+function lockoutMs() {
+  return (parseInt(process.env.LOGIN_LOCKOUT_MINUTES || "") || 15) * MINUTE;
+}
+
+// LOGIN_IP_MAX_FAILURES failures from one address within the window block it for the rest of the window
+function ipMaxFailures() {
+  return parseInt(process.env.LOGIN_IP_MAX_FAILURES || "") || 30;
+}
+
+export interface LoginRequestInfo {
+  email: string;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+// NextAuth hands `authorize` the headers as a plain object; routes pass request.headers
+export function loginRequestInfo(email: string, headers?: Headers | Record<string, unknown>): LoginRequestInfo {
+  const header = (name: string) => {
+    const value = headers instanceof Headers ? headers.get(name) : headers?.[name];
+    return typeof value === "string" && value ? value : null;
+  };
+  return {
+    email: email.toLowerCase(),
+    ip: clientIpFrom(header("x-forwarded-for")),
+    userAgent: header("user-agent")?.slice(0, 500) ?? null,
+  };
+}
+
+export function recordLoginAttempt(info: LoginRequestInfo, outcome: LoginOutcome, userId?: string | null) {
+  return prisma.loginAttempt.create({
+    data: { ...info, outcome, userId: userId ?? null },
+  });
+}
+
+// How the next try from this address for this email is treated: refused outright, or answered after a delay
+// that doubles with every failure past the second
+export async function loginThrottle(info: LoginRequestInfo, now = new Date()) {
+  const since = new Date(now.getTime() - FAILURE_WINDOW_MS);
+  const [emailFailures, ipFailures] = await Promise.all([
+    prisma.loginAttempt.count({
+      where: { email: info.email, outcome: { in: FAILURE_OUTCOMES }, createdAt: { gte: since } },
+    }),
+    info.ip
+      ? prisma.loginAttempt.count({
+          where: { ip: info.ip, outcome: { in: FAILURE_OUTCOMES }, createdAt: { gte: since } },
+        })
+      : 0,
+  ]);
+
+  // An address trying many accounts counts less per failure than one account being tried
+  const failures = Math.max(emailFailures, Math.floor(ipFailures / 5));
+  return {
+    blocked: ipFailures >= ipMaxFailures(),
+    delayMs: failures < 3 ? 0 : Math.min(1000 * 2 ** (failures - 3), MAX_DELAY_MS),
+    // Emails without an account "lock" like real ones, so the answer does not reveal which exist
+    emailLocked: emailFailures >= lockoutThreshold(),
+  };
+}
+
+export function isLocked(user: { lockedUntil: Date | null }, now = new Date()) {
+  return !!user.lockedUntil && user.lockedUntil > now;
+}
+
+// Counts the failure against the account and locks it once the threshold is reached
+export async function recordLoginFailure(
+  info: LoginRequestInfo,
+  outcome: LoginOutcome,
+  user: { id: string } | null,
+  now = new Date()
+) {
+  await recordLoginAttempt(info, outcome, user?.id);
+  if (!user) return;
+
+  const updated = await prisma.user.update({
+    where: { id: user.id },
+    data: { failedLoginCount: { increment: 1 } },
+    select: { failedLoginCount: true },
+  });
+  if (updated.failedLoginCount >= lockoutThreshold()) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lockedUntil: new Date(now.getTime() + lockoutMs()), failedLoginCount: 0 },
+    });
+  }
+}
+
+export async function recordLoginSuccess(info: LoginRequestInfo, userId: string) {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginCount: 0, lockedUntil: null },
+    }),
+    prisma.loginAttempt.create({
+      data: { ...info, outcome: "SUCCESS", userId },
+    }),
+  ]);
+}
+
+// LOGIN_HISTORY_DAYS (default 90); run by the background jobs
+export async function pruneLoginAttempts(now = new Date()) {
+  const days = parseInt(process.env.LOGIN_HISTORY_DAYS || "") || 90;
+  const result = await prisma.loginAttempt.deleteMany({
+    where: { createdAt: { lt: new Date(now.getTime() - days * 24 * 60 * MINUTE) } },
+  });
+  return result.count;
+}
+
+export const loginAttemptSelect = {
+  id: true,
+  ip: true,
+  userAgent: true,
+  outcome: true,
+  createdAt: true,
+} satisfies Prisma.LoginAttemptSelect;
@@ -0,0 +1,253 @@
+import { NotificationType, Prisma, ReviewStatus, TtfuStatus } from "@prisma/client";
+import { prisma } from "./prisma";
+import { appUrl, enqueueEmail, EmailTemplate, isEmailEnabled } from "./email";
+
+type NotificationClient = Prisma.TransactionClient | typeof prisma;
+
+interface NotifyTTFU {
+  id: string;
+  title: string;
+  assigneeId: string;
+  reviewerId: string;
+  dueDate?: Date | null;
+}
+
+interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  link: string;
+  ttfuId?: string;
+}
+
+const REVIEW_VERDICTS: Record<ReviewStatus, string> = {
+  approved: "approved",
+  rejected: "rejected",
+  needs_revision: "sent back for revision",
+};
+
+export function ttfuLink(ttfuId: string) {
+  return `/ttfu/${ttfuId}`;
+}
+
+export function reviewLink(ttfuId: string, evidenceId: string) {
+  return `/ttfu/${ttfuId}/evidence/${evidenceId}/review`;
+}
+
+// Nobody is notified about their own action. Events with an email template are mailed as well.
+async function notify(
+  client: NotificationClient,
+  recipientIds: string[],
+  actorId: string | null,
+  input: NotificationInput,
+  email?: EmailTemplate
+) {
+  const userIds = [...new Set(recipientIds)].filter((userId) => userId !== actorId);
+  if (userIds.length === 0) {
+    return;
+  }
+  await client.notification.createMany({
+    data: userIds.map((userId) => ({ userId, ...input })),
+  });
+
+  if (email && isEmailEnabled()) {
+    const recipients = await client.user.findMany({
+      where: { id: { in: userIds }, deactivatedAt: null },
+      select: { email: true, locale: true },
+    });
+    await enqueueEmail(client, recipients, email);
+  }
+}
+
+export async function notifyAssigned(
+  client: NotificationClient,
+  ttfu: NotifyTTFU,
+  roles: Array<"assignee" | "reviewer">,
+  actorId: string
+) {
+  if (roles.includes("assignee")) {
+    await notify(
+      client,
+      [ttfu.assigneeId],
+      actorId,
+      {
+        type: "TTFU_ASSIGNED",
+        title: `You were assigned "${ttfu.title}"`,
+        link: ttfuLink(ttfu.id),
+        ttfuId: ttfu.id,
+      },
+      {
+        name: "ttfuAssigned",
+        ttfuTitle: ttfu.title,
+        role: "assignee",
+        dueDate: ttfu.dueDate,
+        link: appUrl(ttfuLink(ttfu.id)),
+      }
+    );
+  }
+  if (roles.includes("reviewer")) {
+    await notify(
+      client,
+      [ttfu.reviewerId],
+      actorId,
+      {
+        type: "TTFU_ASSIGNED",
+        title: `You are the reviewer of "${ttfu.title}"`,
+        link: ttfuLink(ttfu.id),
+        ttfuId: ttfu.id,
+      },
+      {
+        name: "ttfuAssigned",
+        ttfuTitle: ttfu.title,
+        role: "reviewer",
+        dueDate: ttfu.dueDate,
+        link: appUrl(ttfuLink(ttfu.id)),
+      }
+    );
+  }
+}
+
+export function notifyEvidenceSubmitted(
+  client: NotificationClient,
+  ttfu: NotifyTTFU,
+  evidence: { id: string; description?: string | null },
+  actorId: string
+) {
+  return notify(
+    client,
+    [ttfu.reviewerId],
+    actorId,
+    {
+      type: "EVIDENCE_SUBMITTED",
+      title: `New evidence to review for "${ttfu.title}"`,
+      body: evidence.description,
+      link: reviewLink(ttfu.id, evidence.id),
+      ttfuId: ttfu.id,
+    },
+    {
+      name: "evidenceSubmitted",
+      ttfuTitle: ttfu.title,
+      description: evidence.description,
+      link: appUrl(reviewLink(ttfu.id, evidence.id)),
+    }
+  );
+}
+
+// Carries the resulting status too, so a review that moves the TTFU sends one notification, not two
+export function notifyReviewPosted(
+  client: NotificationClient,
+  ttfu: NotifyTTFU,
+  review: { status: ReviewStatus; comment?: string | null },
+  newStatus: TtfuStatus | null,
+  actorId: string
+) {
+  const verdict = `Evidence for "${ttfu.title}" was ${REVIEW_VERDICTS[review.status]}`;
+  return notify(
+    client,
+    [ttfu.assigneeId],
+    actorId,
+    {
+      type: "REVIEW_POSTED",
+      title: newStatus ? `${verdict}, now ${newStatus}` : verdict,
+      body: review.comment,
+      link: ttfuLink(ttfu.id),
+      ttfuId: ttfu.id,
+    },
+    {
+      name: "reviewResult",
+      ttfuTitle: ttfu.title,
+      status: review.status,
+      comment: review.comment,
+      newStatus,
+      link: appUrl(ttfuLink(ttfu.id)),
+    }
+  );
+}
+
+export function notifyStatusChanged(
+  client: NotificationClient,
+  ttfu: NotifyTTFU,
+  from: TtfuStatus,
+  to: TtfuStatus,
+  actorId: string
+) {
+  return notify(client, [ttfu.assigneeId, ttfu.reviewerId], actorId, {
+    type: "STATUS_CHANGED",
+    title: `"${ttfu.title}" moved from ${from} to ${to}`,
+    link: ttfuLink(ttfu.id),
+    ttfuId: ttfu.id,
+  });
+}
+
+// The scheduler's reminders carry no actor, so everyone involved hears about them
+
+export function notifyDueSoon(client: NotificationClient, ttfu: NotifyTTFU & { dueDate: Date }) {
+  return notify(
+    client,
+    [ttfu.assigneeId, ttfu.reviewerId],
+    null,
+    {
+      type: "DUE_SOON",
+      title: `"${ttfu.title}" is due soon`,
+      body: `Due ${ttfu.dueDate.toISOString().slice(0, 10)}`,
+      link: ttfuLink(ttfu.id),
+      ttfuId: ttfu.id,
+    },
+    {
+      name: "dueReminder",
+      ttfuTitle: ttfu.title,
+      dueDate: ttfu.dueDate,
+      link: appUrl(ttfuLink(ttfu.id)),
+    }
+  );
+}
+
+export function notifyOverdue(client: NotificationClient, ttfu: NotifyTTFU & { dueDate: Date }) {
+  return notify(
+    client,
+    [ttfu.assigneeId, ttfu.reviewerId],
+    null,
+    {
+      type: "OVERDUE",
+      title: `"${ttfu.title}" is overdue`,
+      body: `Was due ${ttfu.dueDate.toISOString().slice(0, 10)}`,
+      link: ttfuLink(ttfu.id),
+      ttfuId: ttfu.id,
+    },
+    {
+      name: "overdueReminder",
+      ttfuTitle: ttfu.title,
+      dueDate: ttfu.dueDate,
+      link: appUrl(ttfuLink(ttfu.id)),
+    }
+  );
+}
+
+export function notifyEscalated(
+  client: NotificationClient,
+  ttfu: NotifyTTFU & { dueDate: Date; meetingTitle: string; assigneeName: string },
+  recipientIds: string[],
+  daysOverdue: number
+) {
+  return notify(
+    client,
+    recipientIds,
+    null,
+    {
+      type: "ESCALATION",
+      title: `"${ttfu.title}" is ${daysOverdue} day(s) overdue`,
+      body: `${ttfu.meetingTitle} • assigned to ${ttfu.assigneeName}`,
+      link: ttfuLink(ttfu.id),
+      ttfuId: ttfu.id,
+    },
+    {
+      name: "escalation",
+      ttfuTitle: ttfu.title,
+      meetingTitle: ttfu.meetingTitle,
+      assigneeName: ttfu.assigneeName,
+      dueDate: ttfu.dueDate,
+      daysOverdue,
+      link: appUrl(ttfuLink(ttfu.id)),
+    }
+  );
+}
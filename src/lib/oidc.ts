@@ -0,0 +1,112 @@
+import type { OAuthConfig } from "next-auth/providers/oauth";
+import { GlobalRole } from "@prisma/client";
+import { prisma } from "./prisma";
+import { defaultOrganizationId } from "./organizations";
+import { mappedRole } from "./users";
+
+export const OIDC_PROVIDER_ID = "oidc";
+
+// Standard claims plus whatever carries the role, see OIDC_ROLE_CLAIM
+export interface OidcProfile extends Record<string, unknown> {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+}
+
+// On when OIDC_ISSUER, OIDC_CLIENT_ID and OIDC_CLIENT_SECRET are all set
+export function isOidcEnabled() {
+  return !!(process.env.OIDC_ISSUER && process.env.OIDC_CLIENT_ID && process.env.OIDC_CLIENT_SECRET);
+}
+
+// Some providers (e.g. Azure AD) never send email_verified; OIDC_TRUST_UNVERIFIED_EMAIL="true" accepts their emails anyway
+export function isOidcEmailTrusted(profile: OidcProfile) {
+  return profile.email_verified === true || process.env.OIDC_TRUST_UNVERIFIED_EMAIL === "true";
+}
+
+// OIDC_ROLE_MAP="pdca-admins=ADMIN,pdca-spv=SPV" maps values of the OIDC_ROLE_CLAIM claim (default "roles",
+// a string or a list) to global roles; no match means USER
+export function roleFromClaims(profile: OidcProfile): GlobalRole {
+  const claim = profile[process.env.OIDC_ROLE_CLAIM || "roles"];
+  const values = (Array.isArray(claim) ? claim : [claim]).filter((value): value is string => typeof value === "string");
+  return mappedRole(values, process.env.OIDC_ROLE_MAP || "") ?? "USER";
+}
+
+// Any OpenID Connect issuer with discovery, e.g. Keycloak, Azure AD, Google or a local mock
+export function oidcProvider(): OAuthConfig<OidcProfile> {
+  const issuer = process.env.OIDC_ISSUER!.replace(/\/$/, "");
+  return {
+    id: OIDC_PROVIDER_ID,
+    name: process.env.OIDC_NAME || "Single sign-on",
+    type: "oauth",
+    wellKnown: `${issuer}/.well-known/openid-configuration`,
+    issuer,
+    clientId: process.env.OIDC_CLIENT_ID,
+    clientSecret: process.env.OIDC_CLIENT_SECRET,
+    authorization: { params: { scope: process.env.OIDC_SCOPE || "openid email profile" } },
+    idToken: true,
+    checks: ["pkce", "state"],
+    // Safe only because the signIn callback turns away emails the issuer has not verified
+    allowDangerousEmailAccountLinking: true,
+    profile(profile) {
+      return {
+        id: profile.sub,
+        name: profile.name || profile.preferred_username || profile.email || profile.sub,
+        email: profile.email ?? "",
+        // Only used when the user is created, on their first sign-in
+        globalRole: roleFromClaims(profile),
+      };
+    },
+  };
+}
+
+interface OidcAccount {
+  userId: string;
+  type: string;
+  provider: string;
+  providerAccountId: string;
+  refresh_token?: string;
+  access_token?: string;
+  expires_at?: number;
+  token_type?: string;
+  scope?: string;
+  id_token?: string;
+  session_state?: unknown;
+}
+
+// The stock adapter would write OAuth profile and token fields that the User and Account tables do not have
+export function withOidcUsers<T extends object>(adapter: T) {
+  return {
+    ...adapter,
+    async createUser(data: { name?: string | null; email: string; globalRole?: GlobalRole }) {
+      const user = await prisma.user.create({
+        data: {
+          name: data.name || data.email,
+          email: data.email,
+          globalRole: data.globalRole ?? "USER",
+          organizationId: await defaultOrganizationId(),
+        },
+      });
+      return { ...user, emailVerified: null };
+    },
+    async linkAccount(account: OidcAccount) {
+      await prisma.account.create({
+        data: {
+          userId: account.userId,
+          type: account.type,
+          provider: account.provider,
+          providerAccountId: account.providerAccountId,
+          refresh_token: account.refresh_token,
+          access_token: account.access_token,
+          expires_at: account.expires_at,
+          token_type: account.token_type,
+          scope: account.scope,
+          id_token: account.id_token,
+          session_state: typeof account.session_state === "string" ? account.session_state : null,
+        },
+      });
+      return account;
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+type OrganizationClient = Prisma.TransactionClient | typeof prisma;
+
+// Users created by single sign-on or the directory join the DEFAULT_ORGANIZATION (a slug, default "default");
+// admins can move them afterwards
+export async function defaultOrganizationId(client: OrganizationClient = prisma) {
+  const slug = process.env.DEFAULT_ORGANIZATION || "default";
+  const organization = await client.organization.findUnique({ where: { slug }, select: { id: true } });
+  if (!organization) {
+    throw new Error(`Organization "${slug}" does not exist; check DEFAULT_ORGANIZATION`);
+  }
+  return organization.id;
+}
+
+// Department ids from a request are only accepted from the organization they are used in
+export async function isOrganizationDepartment(organizationId: string, departmentId: string) {
+  const department = await prisma.department.findFirst({
+    where: { id: departmentId, organizationId },
+    select: { id: true },
+  });
+  return !!department;
+}
+
+// Users from a request (participants, assignees, reviewers) must all be members of the organization
+export async function areOrganizationUsers(organizationId: string, userIds: string[]) {
+  const ids = [...new Set(userIds)];
+  const count = await prisma.user.count({ where: { id: { in: ids }, organizationId } });
+  return count === ids.length;
+}
+
+export const departmentSelect = {
+  id: true,
+  name: true,
+} satisfies Prisma.DepartmentSelect;
+
+export const organizationSelect = {
+  id: true,
+  name: true,
+  slug: true,
+  createdAt: true,
+  departments: { select: departmentSelect, orderBy: { name: "asc" } },
+} satisfies Prisma.OrganizationSelect;
@@ -0,0 +1,111 @@
+import { createHash, randomBytes } from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { appUrl, enqueueEmail } from "./email";
+
+// Links handed out through NextAuth's VerificationToken table, keyed "<purpose>:<userId>"
+export type PasswordTokenPurpose = "invite" | "reset";
+
+type TokenClient = Prisma.TransactionClient | typeof prisma;
+
+interface TokenUser {
+  id: string;
+  name: string;
+  email: string;
+  locale?: string | null;
+}
+
+// PASSWORD_RESET_TTL_MINUTES (default 60) and INVITE_TTL_HOURS (default 72)
+function tokenTtlMs(purpose: PasswordTokenPurpose) {
+  if (purpose === "invite") {
+    return (parseInt(process.env.INVITE_TTL_HOURS || "") || 72) * 60 * 60 * 1000;
+  }
+  return (parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || "") || 60) * 60 * 1000;
+}
+
+// Only the hash is stored, so the table never holds a usable link
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function identifierOf(purpose: PasswordTokenPurpose, userId: string) {
+  return `${purpose}:${userId}`;
+}
+
+export function passwordLink(token: string) {
+  return appUrl(`/auth/reset-password?token=${encodeURIComponent(token)}`);
+}
+
+// A new link replaces any earlier one of the same purpose
+export async function createPasswordToken(
+  client: TokenClient,
+  purpose: PasswordTokenPurpose,
+  userId: string,
+  now = new Date()
+) {
+  const token = randomBytes(32).toString("base64url");
+  const expires = new Date(now.getTime() + tokenTtlMs(purpose));
+  const identifier = identifierOf(purpose, userId);
+
+  await client.verificationToken.deleteMany({ where: { identifier } });
+  await client.verificationToken.create({
+    data: { identifier, token: hashToken(token), expires },
+  });
+
+  return { token, expires, link: passwordLink(token) };
+}
+
+// The user and purpose behind a live token, without using it up
+export async function findPasswordToken(client: TokenClient, token: string, now = new Date()) {
+  const row = await client.verificationToken.findUnique({ where: { token: hashToken(token) } });
+  if (!row || row.expires <= now) {
+    return null;
+  }
+  const [purpose, userId] = row.identifier.split(":");
+  if ((purpose !== "invite" && purpose !== "reset") || !userId) {
+    return null;
+  }
+  return { purpose: purpose as PasswordTokenPurpose, userId, expires: row.expires };
+}
+
+// Deleting the row is the claim, so of two concurrent uses only one succeeds.
+// Other open links of the same user go too: one new password ends them all.
+export async function consumePasswordToken(tx: Prisma.TransactionClient, token: string, now = new Date()) {
+  const found = await findPasswordToken(tx, token, now);
+  if (!found) {
+    return null;
+  }
+  const claimed = await tx.verificationToken.deleteMany({
+    where: { token: hashToken(token), expires: { gt: now } },
+  });
+  if (claimed.count === 0) {
+    return null;
+  }
+  await tx.verificationToken.deleteMany({
+    where: { identifier: { in: [identifierOf("invite", found.userId), identifierOf("reset", found.userId)] } },
+  });
+  return found;
+}
+
+// Returns the link as well, for admins to hand over when email is not configured
+export async function sendInvite(client: TokenClient, user: TokenUser, invitedBy: string) {
+  const { expires, link } = await createPasswordToken(client, "invite", user.id);
+  await enqueueEmail(client, [user], {
+    name: "userInvite",
+    userName: user.name,
+    invitedBy,
+    expiresAt: expires,
+    link,
+  });
+  return link;
+}
+
+export async function sendPasswordReset(client: TokenClient, user: TokenUser) {
+  const { expires, link } = await createPasswordToken(client, "reset", user.id);
+  await enqueueEmail(client, [user], {
+    name: "passwordReset",
+    userName: user.name,
+    expiresAt: expires,
+    link,
+  });
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from "vitest";
+import { can, MeetingResource, PolicyUser, TTFUResource } from "./policy";
+
+// Nothing tested here touches the database
+vi.mock("./prisma", () => ({ prisma: {} }));
+
+function user(id: string, globalRole = "USER", organizationId = "org-1"): PolicyUser {
+  return { id, globalRole, organizationId };
+}
+
+const meeting: MeetingResource = {
+  organizationId: "org-1",
+  createdById: "creator",
+  participants: [
+    { userId: "spv", role: "spv" },
+    { userId: "member", role: "participant" },
+    { userId: "assignee", role: "participant" },
+    { userId: "reviewer", role: "reviewer" },
+  ],
+};
+
+const ttfu: TTFUResource = {
+  assigneeId: "assignee",
+  reviewerId: "reviewer",
+  meeting,
+  reassignments: [{ fromUserId: "former" }],
+};
+
+describe("can on meetings", () => {
+  it("lets members view and only managers change the meeting", () => {
+    for (const id of ["creator", "spv", "member"]) {
+      expect(can(user(id), "meeting:view", meeting)).toBe(true);
+    }
+    expect(can(user("outsider"), "meeting:view", meeting)).toBe(false);
+
+    for (const action of ["meeting:update", "meeting:delete", "meeting:manageParticipants", "ttfu:create"] as const) {
+      expect(can(user("creator"), action, meeting)).toBe(true);
+      expect(can(user("spv"), action, meeting)).toBe(true);
+      expect(can(user("member"), action, meeting)).toBe(false);
+      expect(can(user("reviewer"), action, meeting)).toBe(false);
+    }
+  });
+
+  it("lets admins do anything within their organization only", () => {
+    expect(can(user("admin", "ADMIN"), "meeting:delete", meeting)).toBe(true);
+    expect(can(user("admin", "ADMIN", "org-2"), "meeting:view", meeting)).toBe(false);
+  });
+
+  it("ignores membership in another organization", () => {
+    expect(can(user("creator", "USER", "org-2"), "meeting:update", meeting)).toBe(false);
+  });
+});
+
+describe("can on TTFUs", () => {
+  it("lets people involved view the TTFU and its evidence", () => {
+    for (const id of ["assignee", "reviewer", "member", "creator", "former"]) {
+      expect(can(user(id), "ttfu:view", ttfu)).toBe(true);
+      expect(can(user(id), "evidence:view", ttfu)).toBe(true);
+    }
+    expect(can(user("outsider"), "ttfu:view", ttfu)).toBe(false);
+  });
+
+  it("leaves editing and deleting to meeting managers", () => {
+    for (const action of ["ttfu:update", "ttfu:delete"] as const) {
+      expect(can(user("creator"), action, ttfu)).toBe(true);
+      expect(can(user("spv"), action, ttfu)).toBe(true);
+      expect(can(user("assignee"), action, ttfu)).toBe(false);
+      expect(can(user("reviewer"), action, ttfu)).toBe(false);
+    }
+  });
+
+  it("lets the assignee change status but not decide it", () => {
+    expect(can(user("assignee"), "ttfu:changeStatus", ttfu)).toBe(true);
+    expect(can(user("assignee"), "ttfu:decide", ttfu)).toBe(false);
+    expect(can(user("reviewer"), "ttfu:decide", ttfu)).toBe(true);
+    expect(can(user("spv"), "ttfu:decide", ttfu)).toBe(true);
+    expect(can(user("member"), "ttfu:changeStatus", ttfu)).toBe(false);
+  });
+
+  it("keeps evidence submission to the assignee and reviews to the reviewer", () => {
+    expect(can(user("assignee"), "evidence:create", ttfu)).toBe(true);
+    expect(can(user("reviewer"), "evidence:create", ttfu)).toBe(false);
+    expect(can(user("reviewer"), "evidence:review", ttfu)).toBe(true);
+    expect(can(user("assignee"), "evidence:review", ttfu)).toBe(false);
+    expect(can(user("spv"), "evidence:review", ttfu)).toBe(false);
+  });
+
+  it("uses the meeting's organization for admins", () => {
+    expect(can(user("admin", "ADMIN"), "evidence:review", ttfu)).toBe(true);
+    expect(can(user("admin", "ADMIN", "org-2"), "ttfu:view", ttfu)).toBe(false);
+  });
+});
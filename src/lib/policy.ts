@@ -0,0 +1,185 @@
+import { Prisma, MeetingRole } from "@prisma/client";
+import { prisma } from "./prisma";
+
+export interface PolicyUser {
+  id: string;
+  globalRole: string;
+  // The organization the user is acting in; an ADMIN's role only reaches this far
+  organizationId: string;
+}
+
+export interface MeetingResource {
+  organizationId: string;
+  createdById: string;
+  participants: Array<{ userId: string; role: MeetingRole }>;
+}
+
+export interface TTFUResource {
+  assigneeId: string;
+  reviewerId: string;
+  meeting: MeetingResource;
+  // Former assignees/reviewers keep read access to their history
+  reassignments?: Array<{ fromUserId: string }>;
+}
+
+export type MeetingAction =
+  | "meeting:view"
+  | "meeting:update"
+  | "meeting:delete"
+  | "meeting:manageParticipants"
+  | "ttfu:create";
+
+export type TTFUAction =
+  | "ttfu:view"
+  | "ttfu:update"
+  | "ttfu:delete"
+  | "ttfu:changeStatus"
+  | "ttfu:decide"
+  | "evidence:view"
+  | "evidence:create"
+  | "evidence:review";
+
+function meetingRoleOf(user: PolicyUser, meeting: MeetingResource) {
+  return meeting.participants.find((p) => p.userId === user.id)?.role;
+}
+
+// Creator and meeting SPVs run a meeting; ADMINs are handled before this is reached
+function managesMeeting(user: PolicyUser, meeting: MeetingResource) {
+  return meeting.createdById === user.id || meetingRoleOf(user, meeting) === "spv";
+}
+
+function isMember(user: PolicyUser, meeting: MeetingResource) {
+  return meeting.createdById === user.id || meetingRoleOf(user, meeting) !== undefined;
+}
+
+export function can(user: PolicyUser, action: MeetingAction, resource: MeetingResource): boolean;
+export function can(user: PolicyUser, action: TTFUAction, resource: TTFUResource): boolean;
+export function can(
+  user: PolicyUser,
+  action: MeetingAction | TTFUAction,
+  resource: MeetingResource | TTFUResource
+): boolean {
+  // Nothing in another organization is reachable, whatever the role
+  const organizationId = "meeting" in resource ? resource.meeting.organizationId : resource.organizationId;
+  if (organizationId !== user.organizationId) {
+    return false;
+  }
+
+  if (user.globalRole === "ADMIN") {
+    return true;
+  }
+
+  if ("meeting" in resource) {
+    const ttfu = resource;
+    const isAssignee = ttfu.assigneeId === user.id;
+    const isReviewer = ttfu.reviewerId === user.id;
+
+    switch (action) {
+      case "ttfu:view":
+      case "evidence:view":
+        return (
+          isAssignee ||
+          isReviewer ||
+          isMember(user, ttfu.meeting) ||
+          !!ttfu.reassignments?.some((r) => r.fromUserId === user.id)
+        );
+      case "ttfu:update":
+      case "ttfu:delete":
+        return managesMeeting(user, ttfu.meeting);
+      case "ttfu:changeStatus":
+        return isAssignee || isReviewer || managesMeeting(user, ttfu.meeting);
+      // Moving to or from DONE / REJECTED by hand, see isAssigneeTransition
+      case "ttfu:decide":
+        return isReviewer || managesMeeting(user, ttfu.meeting);
+      case "evidence:create":
+        return isAssignee;
+      case "evidence:review":
+        return isReviewer;
+      default:
+        return false;
+    }
+  }
+
+  const meeting = resource;
+  switch (action) {
+    case "meeting:view":
+      return isMember(user, meeting);
+    case "meeting:update":
+    case "meeting:delete":
+    case "meeting:manageParticipants":
+    case "ttfu:create":
+      return managesMeeting(user, meeting);
+    default:
+      return false;
+  }
+}
+
+const policyMeetingSelect = {
+  organizationId: true,
+  createdById: true,
+  participants: {
+    select: {
+      userId: true,
+      role: true,
+    },
+  },
+} satisfies Prisma.MeetingSelect;
+
+// Both loaders only find rows in the user's organization, so other organizations' ids answer "not found"
+export function loadMeetingResource(meetingId: string, user: PolicyUser) {
+  return prisma.meeting.findFirst({
+    where: { id: meetingId, organizationId: user.organizationId },
+    select: { id: true, ...policyMeetingSelect },
+  });
+}
+
+export function loadTTFUResource(ttfuId: string, user: PolicyUser) {
+  return prisma.tTFU.findFirst({
+    where: { id: ttfuId, meeting: { organizationId: user.organizationId } },
+    select: {
+      id: true,
+      meetingId: true,
+      title: true,
+      assigneeId: true,
+      reviewerId: true,
+      status: true,
+      dueDate: true,
+      meeting: { select: policyMeetingSelect },
+      reassignments: { select: { fromUserId: true } },
+    },
+  });
+}
+
+// List filters mirroring "meeting:view" and "ttfu:view", always within the user's organization
+export function visibleMeetingsWhere(user: PolicyUser): Prisma.MeetingWhereInput {
+  if (user.globalRole === "ADMIN") {
+    return { organizationId: user.organizationId };
+  }
+  return {
+    organizationId: user.organizationId,
+    OR: [
+      { createdById: user.id },
+      { participants: { some: { userId: user.id } } },
+    ],
+  };
+}
+
+export function visibleTTFUsWhere(user: PolicyUser): Prisma.TTFUWhereInput {
+  if (user.globalRole === "ADMIN") {
+    return { meeting: { organizationId: user.organizationId } };
+  }
+  return {
+    meeting: { organizationId: user.organizationId },
+    OR: [
+      { assigneeId: user.id },
+      { reviewerId: user.id },
+      { reassignments: { some: { fromUserId: user.id } } },
+      { meeting: visibleMeetingsWhere(user) },
+    ],
+  };
+}
+
+// Users that can be picked, listed or managed from within the user's organization
+export function organizationUsersWhere(user: PolicyUser): Prisma.UserWhereInput {
+  return { organizationId: user.organizationId };
+}
@@ -0,0 +1,24 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { clientIpFrom } from "./rate-limit";
+
+describe("clientIpFrom", () => {
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXY_HOPS;
+  });
+
+  it("takes the entry the trusted proxy added, not one the client sent", () => {
+    expect(clientIpFrom("203.0.113.7")).toBe("203.0.113.7");
+    expect(clientIpFrom("1.2.3.4, 203.0.113.7")).toBe("203.0.113.7");
+  });
+
+  it("counts back the configured number of proxies", () => {
+    process.env.TRUSTED_PROXY_HOPS = "2";
+    expect(clientIpFrom("1.2.3.4, 203.0.113.7, 10.0.0.2")).toBe("203.0.113.7");
+    expect(clientIpFrom("203.0.113.7")).toBe("203.0.113.7");
+  });
+
+  it("returns null without an address", () => {
+    expect(clientIpFrom(null)).toBeNull();
+    expect(clientIpFrom(" , ")).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import { NextRequest } from "next/server";
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+const globalForRateLimit = globalThis as unknown as {
+  rateLimitWindows: Map<string, Window> | undefined;
+};
+
+// Fixed windows kept in memory: enough for a single server process, and reset on restart
+function windows() {
+  if (!globalForRateLimit.rateLimitWindows) {
+    globalForRateLimit.rateLimitWindows = new Map();
+  }
+  return globalForRateLimit.rateLimitWindows;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+// Counts one hit for the key; the hit that goes over the limit and every one after it is refused
+export function rateLimit(key: string, limit: number, windowMs: number, now = Date.now()): RateLimitResult {
+  const store = windows();
+  let window = store.get(key);
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + windowMs };
+    store.set(key, window);
+  }
+  window.count++;
+
+  // Drop expired windows now and then, so the map does not grow without bound
+  if (store.size > 10_000) {
+    for (const [storedKey, stored] of store) {
+      if (stored.resetAt <= now) store.delete(storedKey);
+    }
+  }
+
+  return {
+    allowed: window.count <= limit,
+    retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000),
+  };
+}
+
+// Several limits at once, e.g. per IP and per email; all of them are counted
+export function rateLimitAll(checks: Array<[key: string, limit: number, windowMs: number]>): RateLimitResult {
+  const results = checks.map(([key, limit, windowMs]) => rateLimit(key, limit, windowMs));
+  const refused = results.filter((result) => !result.allowed);
+  return {
+    allowed: refused.length === 0,
+    retryAfterSeconds: Math.max(0, ...refused.map((result) => result.retryAfterSeconds)),
+  };
+}
+
+// TRUSTED_PROXY_HOPS is how many proxies in front of the app append to X-Forwarded-For. The client address is the
+// entry the outermost of them added, counted from the right; entries further left were sent by the client and can
+// say anything. Without a proxy, leave it at 1: Next.js then writes the socket address there itself, though only
+// when the request brings no X-Forwarded-For, so in production the app should only be reachable through the proxy.
+function trustedProxyHops() {
+  return Math.max(parseInt(process.env.TRUSTED_PROXY_HOPS || "") || 1, 1);
+}
+
+export function clientIpFrom(forwardedFor: string | null | undefined) {
+  const entries = (forwardedFor || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (entries.length === 0) {
+    return null;
+  }
+  return entries[Math.max(entries.length - trustedProxyHops(), 0)];
+}
+
+export function clientIp(request: NextRequest) {
+  return clientIpFrom(request.headers.get("x-forwarded-for")) ?? "unknown";
+}
@@ -0,0 +1,203 @@
+import { Prisma, TtfuStatus } from "@prisma/client";
+import { prisma } from "./prisma";
+import { ACTIVE_STATUSES, isOverdue } from "./workflow";
+
+type StatusCounts = Record<TtfuStatus, number>;
+
+interface UserSummary {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface PersonBreakdown {
+  user: UserSummary;
+  total: number;
+  byStatus: StatusCounts;
+}
+
+function emptyStatusCounts(): StatusCounts {
+  return { OPEN: 0, IN_PROGRESS: 0, DONE: 0, REJECTED: 0 };
+}
+
+function breakdownBy<T extends { status: TtfuStatus }>(
+  ttfus: T[],
+  personOf: (ttfu: T) => UserSummary
+): PersonBreakdown[] {
+  const rows = new Map<string, PersonBreakdown>();
+  for (const ttfu of ttfus) {
+    const user = personOf(ttfu);
+    const row = rows.get(user.id) ?? { user, total: 0, byStatus: emptyStatusCounts() };
+    row.total++;
+    row.byStatus[ttfu.status]++;
+    rows.set(user.id, row);
+  }
+  return [...rows.values()].sort((a, b) => b.total - a.total || a.user.name.localeCompare(b.user.name));
+}
+
+// When each TTFU last became DONE, from the audit trail; older TTFUs fall back to updatedAt
+async function completedAt(ttfus: Array<{ id: string; status: TtfuStatus; updatedAt: Date }>) {
+  const done = ttfus.filter((ttfu) => ttfu.status === "DONE");
+  const entries = await prisma.auditLog.findMany({
+    where: {
+      action: "TTFU_STATUS_CHANGE",
+      entity: "TTFU",
+      entityId: { in: done.map((ttfu) => ttfu.id) },
+      metadata: { path: ["after", "status"], equals: "DONE" },
+    },
+    orderBy: { createdAt: "asc" },
+    select: { entityId: true, createdAt: true },
+  });
+
+  const result = new Map(done.map((ttfu) => [ttfu.id, ttfu.updatedAt]));
+  for (const entry of entries) {
+    result.set(entry.entityId, entry.createdAt);
+  }
+  return result;
+}
+
+const userSummarySelect = {
+  id: true,
+  name: true,
+  email: true,
+} satisfies Prisma.UserSelect;
+
+export async function buildMeetingReport(meetingId: string, now = new Date()) {
+  const meeting = await prisma.meeting.findUnique({
+    where: { id: meetingId },
+    select: {
+      id: true,
+      title: true,
+      date: true,
+      startTime: true,
+      endTime: true,
+      notes: true,
+      createdBy: { select: userSummarySelect },
+      participants: {
+        select: { role: true, user: { select: userSummarySelect } },
+        orderBy: { createdAt: "asc" },
+      },
+      ttfus: {
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          dueDate: true,
+          createdAt: true,
+          updatedAt: true,
+          assignee: { select: userSummarySelect },
+          reviewer: { select: userSummarySelect },
+          evidences: {
+            select: {
+              createdAt: true,
+              reviews: {
+                select: {
+                  status: true,
+                  comment: true,
+                  createdAt: true,
+                  reviewer: { select: userSummarySelect },
+                },
+              },
+            },
+          },
+        },
+        orderBy: { createdAt: "asc" },
+      },
+    },
+  });
+
+  if (!meeting) {
+    return null;
+  }
+
+  const { ttfus, ...details } = meeting;
+  const doneAt = await completedAt(ttfus);
+
+  const rows = ttfus.map((ttfu) => {
+    const reviews = ttfu.evidences
+      .flatMap((evidence) => evidence.reviews)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    const activity = [
+      ttfu.updatedAt,
+      ...ttfu.evidences.map((evidence) => evidence.createdAt),
+      ...reviews.map((review) => review.createdAt),
+    ];
+    return {
+      id: ttfu.id,
+      title: ttfu.title,
+      status: ttfu.status,
+      assignee: ttfu.assignee,
+      reviewer: ttfu.reviewer,
+      dueDate: ttfu.dueDate,
+      overdue: isOverdue(ttfu, now),
+      evidenceCount: ttfu.evidences.length,
+      reviewCount: reviews.length,
+      latestReview: reviews.at(-1) ?? null,
+      createdAt: ttfu.createdAt,
+      completedAt: doneAt.get(ttfu.id) ?? null,
+      lastUpdatedAt: new Date(Math.max(...activity.map((date) => date.getTime()))),
+    };
+  });
+
+  const byStatus = emptyStatusCounts();
+  const reviewsByStatus = { approved: 0, rejected: 0, needs_revision: 0 };
+  for (const ttfu of ttfus) {
+    byStatus[ttfu.status]++;
+    for (const evidence of ttfu.evidences) {
+      for (const review of evidence.reviews) {
+        reviewsByStatus[review.status]++;
+      }
+    }
+  }
+
+  const durations = rows
+    .filter((row) => row.completedAt)
+    .map((row) => row.completedAt!.getTime() - row.createdAt.getTime());
+
+  return {
+    meeting: details,
+    generatedAt: now,
+    totals: {
+      ttfus: rows.length,
+      overdue: rows.filter((row) => row.overdue).length,
+      evidences: rows.reduce((sum, row) => sum + row.evidenceCount, 0),
+      reviews: rows.reduce((sum, row) => sum + row.reviewCount, 0),
+      reviewsByStatus,
+    },
+    byStatus,
+    byAssignee: breakdownBy(ttfus, (ttfu) => ttfu.assignee),
+    byReviewer: breakdownBy(ttfus, (ttfu) => ttfu.reviewer),
+    averageHoursToDone:
+      durations.length > 0
+        ? Math.round((durations.reduce((sum, ms) => sum + ms, 0) / durations.length / 36e5) * 10) / 10
+        : null,
+    overdue: rows.filter((row) => row.overdue),
+    ttfus: rows,
+  };
+}
+
+export type MeetingReport = NonNullable<Awaited<ReturnType<typeof buildMeetingReport>>>;
+
+// Dashboard totals across every meeting matching `where`
+export async function buildStatusSummary(where: Prisma.MeetingWhereInput, now = new Date()) {
+  const ttfuWhere: Prisma.TTFUWhereInput = { meeting: where };
+
+  const [meetings, groups, overdue] = await Promise.all([
+    prisma.meeting.count({ where }),
+    prisma.tTFU.groupBy({
+      by: ["status"],
+      where: ttfuWhere,
+      _count: { _all: true },
+    }),
+    prisma.tTFU.count({
+      where: { ...ttfuWhere, dueDate: { lt: now }, status: { in: ACTIVE_STATUSES } },
+    }),
+  ]);
+
+  const byStatus = emptyStatusCounts();
+  for (const group of groups) {
+    byStatus[group.status] = group._count._all;
+  }
+
+  return { meetings, byStatus, overdue };
+}
@@ -0,0 +1,44 @@
+export interface Job {
+  name: string;
+  intervalMs: number;
+  // Returns a short summary to log, or nothing when there was nothing to do
+  run: (now: Date) => Promise<string | void>;
+}
+
+async function runJob(job: Job) {
+  try {
+    const summary = await job.run(new Date());
+    if (summary) {
+      console.log(`⏰ [${job.name}] ${summary}`);
+    }
+  } catch (error) {
+    console.error(`Error running job ${job.name}:`, error);
+  }
+}
+
+export async function runJobsOnce(jobs: Job[]) {
+  for (const job of jobs) {
+    await runJob(job);
+  }
+}
+
+// Runs every job right away and then on its own interval. A job never overlaps
+// itself: the next run is only scheduled once the current one has finished.
+export function startScheduler(jobs: Job[]) {
+  let stopped = false;
+  const timers = new Map<string, NodeJS.Timeout>();
+
+  const loop = async (job: Job) => {
+    await runJob(job);
+    if (!stopped) {
+      timers.set(job.name, setTimeout(() => loop(job), job.intervalMs));
+    }
+  };
+
+  jobs.forEach(loop);
+
+  return () => {
+    stopped = true;
+    timers.forEach((timer) => clearTimeout(timer));
+  };
+}
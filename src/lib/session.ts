@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "./auth";
+import { bearerToken, findApiToken, scopeAllows } from "./api-tokens";
+import { PolicyUser } from "./policy";
+
+export interface SessionUser extends PolicyUser {
+  name?: string | null;
+  email?: string | null;
+  superAdmin?: boolean;
+}
+
+export interface RequestSession {
+  user: SessionUser;
+  // Set when the request came with an API token instead of the session cookie
+  apiTokenId?: string;
+  // The browser session (UserSession) otherwise
+  sessionId?: string;
+}
+
+type SessionResult =
+  | { session: RequestSession; response: null }
+  | { session: null; response: NextResponse };
+
+function unauthorized(error = "Unauthorized", status = 401): SessionResult {
+  return { session: null, response: NextResponse.json({ error }, { status }) };
+}
+
+// Resolves who is calling, from an `Authorization: Bearer` API token or else the NextAuth session cookie.
+// Handlers return `response` as is when it is set:
+//
+//   const { session, response } = await requireSession(request);
+//   if (response) return response;
+export async function requireSession(
+  request: Request,
+  options: { allowApiTokens?: boolean } = {}
+): Promise<SessionResult> {
+  const token = bearerToken(request);
+  if (token) {
+    if (options.allowApiTokens === false) {
+      return unauthorized("API tokens cannot be used here", 403);
+    }
+
+    const apiToken = await findApiToken(token);
+    if (!apiToken) {
+      return unauthorized("Invalid or expired API token");
+    }
+    if (!scopeAllows(apiToken.scope, request.method)) {
+      return unauthorized("This API token is read-only", 403);
+    }
+
+    // A token always acts in its owner's own organization
+    const { id, name, email, globalRole, organizationId, superAdmin } = apiToken.user;
+    return {
+      session: { user: { id, name, email, globalRole, organizationId, superAdmin }, apiTokenId: apiToken.id },
+      response: null,
+    };
+  }
+
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+  return { session: { user: session.user, sessionId: session.sessionId }, response: null };
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { uploadContentType } from ".";
+
+const png = Buffer.from("89504e470d0a1a0a0000000d49484452", "hex");
+const pdf = Buffer.from("%PDF-1.7\n");
+const html = Buffer.from("<html><script>alert(1)</script></html>");
+
+describe("uploadContentType", () => {
+  it("takes the type from recognizable content, whatever the client claims", () => {
+    expect(uploadContentType("image/png", png)).toBe("image/png");
+    expect(uploadContentType("text/html", png)).toBe("image/png");
+    expect(uploadContentType("", pdf)).toBe("application/pdf");
+  });
+
+  it("refuses content that does not match a recognizable claimed type", () => {
+    expect(uploadContentType("image/png", html)).toBeNull();
+    expect(uploadContentType("application/pdf", png.subarray(1))).toBeNull();
+  });
+
+  it("refuses types that are not allowed", () => {
+    expect(uploadContentType("text/html", html)).toBeNull();
+  });
+});
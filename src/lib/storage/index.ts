@@ -0,0 +1,89 @@
+import { randomUUID } from "crypto";
+import { createLocalDriver } from "./local";
+import { createS3Driver } from "./s3";
+
+export interface StoredObject {
+  body: ReadableStream<Uint8Array>;
+  contentType?: string;
+  size?: number;
+}
+
+export interface StorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+}
+
+export const MAX_UPLOAD_SIZE = parseInt(process.env.UPLOAD_MAX_SIZE || String(10 * 1024 * 1024));
+
+export const ALLOWED_MIME_TYPES = (
+  process.env.UPLOAD_ALLOWED_MIME_TYPES ||
+  "image/png,image/jpeg,image/gif,image/webp,application/pdf"
+)
+  .split(",")
+  .map((type) => type.trim())
+  .filter(Boolean);
+
+const globalForStorage = globalThis as unknown as {
+  storage: StorageDriver | undefined;
+};
+
+export function getStorage(): StorageDriver {
+  if (!globalForStorage.storage) {
+    globalForStorage.storage =
+      process.env.STORAGE_DRIVER === "s3" ? createS3Driver() : createLocalDriver();
+  }
+  return globalForStorage.storage;
+}
+
+// Leading bytes of the types that can be recognized from their content
+const FILE_SIGNATURES: Array<{ type: string; matches: (bytes: Buffer) => boolean }> = [
+  { type: "image/png", matches: (bytes) => bytes.subarray(0, 8).equals(Buffer.from("89504e470d0a1a0a", "hex")) },
+  { type: "image/jpeg", matches: (bytes) => bytes.subarray(0, 3).equals(Buffer.from("ffd8ff", "hex")) },
+  { type: "image/gif", matches: (bytes) => ["GIF87a", "GIF89a"].includes(bytes.subarray(0, 6).toString("latin1")) },
+  {
+    type: "image/webp",
+    matches: (bytes) =>
+      bytes.subarray(0, 4).toString("latin1") === "RIFF" && bytes.subarray(8, 12).toString("latin1") === "WEBP",
+  },
+  { type: "application/pdf", matches: (bytes) => bytes.subarray(0, 5).toString("latin1") === "%PDF-" },
+];
+
+export function validateUpload(file: File): string | null {
+  if (file.size === 0) {
+    return "File is empty";
+  }
+  if (file.size > MAX_UPLOAD_SIZE) {
+    return `File exceeds the maximum size of ${Math.floor(MAX_UPLOAD_SIZE / (1024 * 1024))} MB`;
+  }
+  return null;
+}
+
+// The type to store the upload as, or null when it is not allowed. The type the client claims is not trusted:
+// recognizable content decides the type itself, and a file claiming a recognizable type must have its content.
+// Other types from UPLOAD_ALLOWED_MIME_TYPES are taken as claimed.
+export function uploadContentType(claimedType: string, bytes: Buffer): string | null {
+  const detected = FILE_SIGNATURES.find((signature) => signature.matches(bytes))?.type;
+  if (detected) {
+    return ALLOWED_MIME_TYPES.includes(detected) ? detected : null;
+  }
+  const isRecognizable = FILE_SIGNATURES.some((signature) => signature.type === claimedType);
+  return !isRecognizable && ALLOWED_MIME_TYPES.includes(claimedType) ? claimedType : null;
+}
+
+export function buildEvidenceKey(ttfuId: string, fileName: string) {
+  const safeName = fileName.replace(/[^a-zA-Z0-9._-]/g, "_").slice(-100);
+  return `evidence/${ttfuId}/${randomUUID()}-${safeName}`;
+}
+
+// Database cascades do not reach the storage backend; failures are logged, not thrown
+export async function removeStoredFiles(keys: string[]) {
+  const storage = getStorage();
+  await Promise.all(
+    keys.map((key) =>
+      storage
+        .delete(key)
+        .catch((error) => console.error("Error deleting stored file:", key, error))
+    )
+  );
+}
@@ -0,0 +1,44 @@
+import { createReadStream } from "fs";
+import { mkdir, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import type { StorageDriver } from "./index";
+
+export function createLocalDriver(): StorageDriver {
+  const root = path.resolve(process.env.STORAGE_LOCAL_DIR || "storage/uploads");
+
+  // Keys are generated server-side, but never let one escape the storage root
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, body) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, body);
+    },
+
+    async get(key) {
+      const filePath = resolveKey(key);
+      try {
+        const stats = await stat(filePath);
+        const stream = Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>;
+        return { body: stream, size: stats.size };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await rm(resolveKey(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from "vitest";
+import { generateTotpSecret, totpCode, totpStep, verifyTotp } from "./two-factor";
+
+// Nothing tested here touches the database
+vi.mock("./prisma", () => ({ prisma: {} }));
+
+// The SHA-1 secret from the RFC 6238 test vectors, "12345678901234567890", in base32
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+function at(seconds: number) {
+  return new Date(seconds * 1000);
+}
+
+describe("totpCode", () => {
+  it("matches the RFC 6238 test vectors, cut to 6 digits", () => {
+    expect(totpCode(RFC_SECRET, totpStep(at(59)))).toBe("287082");
+    expect(totpCode(RFC_SECRET, totpStep(at(1111111109)))).toBe("081804");
+    expect(totpCode(RFC_SECRET, totpStep(at(1234567890)))).toBe("005924");
+    expect(totpCode(RFC_SECRET, totpStep(at(2000000000)))).toBe("279037");
+  });
+
+  it("decodes secrets written in lower case or with spaces", () => {
+    expect(totpCode("gezd gnbv gy3t qojq gezd gnbv gy3t qojq", totpStep(at(59)))).toBe("287082");
+  });
+});
+
+describe("generateTotpSecret", () => {
+  it("returns 160 bits of base32", () => {
+    expect(generateTotpSecret()).toMatch(/^[A-Z2-7]{32}$/);
+  });
+});
+
+describe("verifyTotp", () => {
+  const now = at(1234567890);
+  const step = totpStep(now);
+
+  it("returns the step of a current code", () => {
+    expect(verifyTotp(RFC_SECRET, "005924", null, now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, "005 924", null, now)).toBe(step);
+  });
+
+  it("accepts codes one step either side for clock drift", () => {
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), null, now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), null, now)).toBe(step + 1);
+  });
+
+  it("refuses codes further away", () => {
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), null, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 2), null, now)).toBeNull();
+  });
+
+  it("refuses a code whose step was already used", () => {
+    expect(verifyTotp(RFC_SECRET, "005924", step, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), step, now)).toBe(step + 1);
+  });
+
+  it("refuses malformed codes", () => {
+    expect(verifyTotp(RFC_SECRET, "", null, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "00592", null, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "0059240", null, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abcdef", null, now)).toBeNull();
+  });
+});
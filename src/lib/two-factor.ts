@@ -0,0 +1,177 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { GlobalRole, Prisma } from "@prisma/client";
+import QRCode from "qrcode";
+import { prisma } from "./prisma";
+import { GLOBAL_ROLES } from "./users";
+
+// RFC 6238 with the parameters every authenticator app understands: SHA-1, 6 digits, 30 second steps
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+// Codes from the previous and next step are accepted too, to allow for clock drift
+const TOTP_DRIFT_STEPS = 1;
+const TOTP_ISSUER = "PDCA TTFU Tracker";
+
+const BACKUP_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+type TwoFactorClient = Prisma.TransactionClient | typeof prisma;
+
+function base32Encode(buffer: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string) {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character: ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// 160 bits, the key size RFC 4226 recommends for HMAC-SHA1
+export function generateTotpSecret() {
+  return base32Encode(randomBytes(20));
+}
+
+export function totpStep(now = new Date()) {
+  return Math.floor(now.getTime() / 1000 / TOTP_STEP_SECONDS);
+}
+
+// HOTP (RFC 4226) for the given time step
+export function totpCode(secret: string, step: number) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+// The step the code belongs to, or null. Steps at or before lastStep are refused so a code works only once.
+export function verifyTotp(secret: string, code: string, lastStep: number | null, now = new Date()) {
+  const clean = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(clean)) return null;
+
+  const current = totpStep(now);
+  for (let step = current - TOTP_DRIFT_STEPS; step <= current + TOTP_DRIFT_STEPS; step++) {
+    if (lastStep !== null && step <= lastStep) continue;
+    if (timingSafeEqual(Buffer.from(totpCode(secret, step)), Buffer.from(clean))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// What authenticator apps scan; the QR code is rendered here, so the secret never leaves the server for a third party
+export async function totpEnrollment(secret: string, email: string) {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${email}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  const otpauthUrl = `otpauth://totp/${label}?${params.toString()}`;
+  const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 200 });
+  return { secret, otpauthUrl, qrCode };
+}
+
+function normalizeBackupCode(code: string) {
+  return code.toLowerCase().replace(/[\s-]/g, "");
+}
+
+function hashBackupCode(code: string) {
+  return createHash("sha256").update(normalizeBackupCode(code)).digest("hex");
+}
+
+// Replaces any earlier set; the plain codes are only ever returned here
+export async function generateBackupCodes(client: TwoFactorClient, userId: string) {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  await client.twoFactorBackupCode.deleteMany({ where: { userId } });
+  await client.twoFactorBackupCode.createMany({
+    data: codes.map((code) => ({ userId, codeHash: hashBackupCode(code) })),
+  });
+
+  return codes;
+}
+
+interface TwoFactorUser {
+  id: string;
+  totpSecret: string | null;
+  totpLastStep: number | null;
+}
+
+// Accepts a code from the authenticator app or an unused backup code, and uses it up
+export async function verifySecondFactor(client: TwoFactorClient, user: TwoFactorUser, code: string, now = new Date()) {
+  if (user.totpSecret) {
+    const step = verifyTotp(user.totpSecret, code, user.totpLastStep, now);
+    if (step !== null) {
+      // Conditional, so two sign-ins racing with the same code cannot both win
+      const claimed = await client.user.updateMany({
+        where: {
+          id: user.id,
+          OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }],
+        },
+        data: { totpLastStep: step },
+      });
+      return claimed.count === 1;
+    }
+  }
+
+  const codeHash = hashBackupCode(code);
+  const used = await client.twoFactorBackupCode.updateMany({
+    where: { userId: user.id, codeHash, usedAt: null },
+    data: { usedAt: now },
+  });
+  return used.count === 1;
+}
+
+// TWO_FACTOR_REQUIRED_ROLES, e.g. "ADMIN,REVIEWER"; empty (the default) keeps two-factor optional for everyone
+export function twoFactorRequiredRoles(): GlobalRole[] {
+  return (process.env.TWO_FACTOR_REQUIRED_ROLES || "")
+    .split(",")
+    .map((role) => role.trim().toUpperCase())
+    .filter((role): role is GlobalRole => GLOBAL_ROLES.includes(role as GlobalRole));
+}
+
+export function isTwoFactorRequired(role: GlobalRole) {
+  return twoFactorRequiredRoles().includes(role);
+}
+
+export async function disableTwoFactor(client: TwoFactorClient, userId: string) {
+  await client.twoFactorBackupCode.deleteMany({ where: { userId } });
+  return client.user.update({
+    where: { id: userId },
+    data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null },
+  });
+}
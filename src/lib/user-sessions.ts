@@ -0,0 +1,101 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { LoginRequestInfo } from "./login-attempts";
+
+const MINUTE = 60 * 1000;
+
+// Also the JWT's maxAge: a session unused this long has expired with its token
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+// lastSeenAt is written at most this often per session, not on every request
+const LAST_SEEN_RESOLUTION_MS = MINUTE;
+
+type SessionClient = Prisma.TransactionClient | typeof prisma;
+
+export function startUserSession(userId: string, info: Pick<LoginRequestInfo, "ip" | "userAgent">) {
+  return prisma.userSession.create({
+    data: { userId, ip: info.ip, userAgent: info.userAgent },
+    select: { id: true },
+  });
+}
+
+export function activeSessionWhere(now = new Date()): Prisma.UserSessionWhereInput {
+  return {
+    revokedAt: null,
+    lastSeenAt: { gt: new Date(now.getTime() - SESSION_MAX_AGE_SECONDS * 1000) },
+  };
+}
+
+// The current role, organization and details of the user behind a live session, or null once the session has
+// been signed out or has expired, or its user was deactivated. Checked on every request, so revocations,
+// deactivations and role changes take effect straight away instead of when the JWT expires.
+export async function findSessionUser(sessionId: unknown, now = new Date()) {
+  if (typeof sessionId !== "string") return null;
+
+  const found = await prisma.userSession.findFirst({
+    where: { id: sessionId, ...activeSessionWhere(now) },
+    select: {
+      lastSeenAt: true,
+      organizationId: true,
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          globalRole: true,
+          organizationId: true,
+          superAdmin: true,
+          deactivatedAt: true,
+        },
+      },
+    },
+  });
+  if (!found || found.user.deactivatedAt) return null;
+
+  if (found.lastSeenAt.getTime() < now.getTime() - LAST_SEEN_RESOLUTION_MS) {
+    await prisma.userSession.update({ where: { id: sessionId }, data: { lastSeenAt: now } });
+  }
+
+  // Only super admins act in an organization other than their own
+  const organizationId = (found.user.superAdmin && found.organizationId) || found.user.organizationId;
+  return { ...found.user, organizationId };
+}
+
+export async function endUserSession(sessionId: unknown, now = new Date()) {
+  if (typeof sessionId !== "string") return;
+  await prisma.userSession.updateMany({ where: { id: sessionId, revokedAt: null }, data: { revokedAt: now } });
+}
+
+// Signs the user out everywhere, or everywhere but `exceptId`. Returns how many sessions were ended.
+export async function revokeUserSessions(
+  client: SessionClient,
+  userId: string,
+  options: { exceptId?: string; now?: Date } = {}
+) {
+  const result = await client.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(options.exceptId && { id: { not: options.exceptId } }),
+    },
+    data: { revokedAt: options.now ?? new Date() },
+  });
+  return result.count;
+}
+
+// Run by the background jobs: signed-out and expired sessions are of no further use
+export async function pruneUserSessions(now = new Date()) {
+  const expired = new Date(now.getTime() - SESSION_MAX_AGE_SECONDS * 1000);
+  const result = await prisma.userSession.deleteMany({
+    where: { OR: [{ revokedAt: { not: null } }, { lastSeenAt: { lt: expired } }] },
+  });
+  return result.count;
+}
+
+export const userSessionSelect = {
+  id: true,
+  ip: true,
+  userAgent: true,
+  lastSeenAt: true,
+  createdAt: true,
+} satisfies Prisma.UserSessionSelect;
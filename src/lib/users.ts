@@ -0,0 +1,95 @@
+import type { GlobalRole, Prisma } from "@prisma/client";
+import { z } from "zod";
+
+export const GLOBAL_ROLES: GlobalRole[] = ["ADMIN", "SPV", "REVIEWER", "USER"];
+
+export const PASSWORD_MIN_LENGTH = 10;
+
+// Sign-in error codes, each turned into its own message or step on the sign-in page
+export const ACCOUNT_DEACTIVATED = "AccountDeactivated";
+export const ACCOUNT_LOCKED = "AccountLocked";
+export const TWO_FACTOR_REQUIRED = "TwoFactorRequired";
+export const TWO_FACTOR_INVALID = "TwoFactorInvalid";
+export const TWO_FACTOR_SETUP_REQUIRED = "TwoFactorSetupRequired";
+export const TOO_MANY_ATTEMPTS = "TooManyAttempts";
+export const EMAIL_NOT_VERIFIED = "EmailNotVerified";
+export const DIRECTORY_UNAVAILABLE = "DirectoryUnavailable";
+
+// A mapping like "pdca-admins=ADMIN,pdca-spv=SPV" applied to the groups or claims a user has, compared
+// case-insensitively. The highest matching role wins; null when nothing matches.
+export function mappedRole(values: string[], mapping: string): GlobalRole | null {
+  const have = values.map((value) => value.toLowerCase());
+  const mapped = mapping
+    .split(",")
+    .map((entry) => entry.split("=").map((part) => part.trim()))
+    .filter(([value, role]) => value && have.includes(value.toLowerCase()) && GLOBAL_ROLES.includes(role as GlobalRole))
+    .map(([, role]) => role as GlobalRole);
+
+  // GLOBAL_ROLES runs from ADMIN down to USER
+  return GLOBAL_ROLES.find((role) => mapped.includes(role)) ?? null;
+}
+
+// Seed passwords and the usual suspects
+const COMMON_PASSWORDS = [
+  "password",
+  "password1",
+  "password123",
+  "passw0rd",
+  "qwerty123",
+  "1234567890",
+  "12345678910",
+  "admin12345",
+  "welcome123",
+  "iloveyou123",
+  "letmein123",
+];
+
+// Empty when the password is acceptable. Shared by the API and the forms, so both show the same reasons.
+export function passwordProblems(password: string, user?: { email?: string; name?: string }) {
+  const problems: string[] = [];
+  const lower = password.toLowerCase();
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    problems.push(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`);
+  }
+  if (!/[a-zA-Z]/.test(password) || !/[0-9]/.test(password)) {
+    problems.push("Password must contain both letters and numbers");
+  }
+  if (COMMON_PASSWORDS.includes(lower)) {
+    problems.push("Password is too common");
+  }
+  const personal = [user?.email?.split("@")[0], ...(user?.name?.split(/\s+/) ?? [])].filter(
+    (part): part is string => !!part && part.length >= 3
+  );
+  if (personal.some((part) => lower.includes(part.toLowerCase()))) {
+    problems.push("Password must not contain your name or email");
+  }
+
+  return problems;
+}
+
+export const passwordSchema = z.string().superRefine((password, ctx) => {
+  for (const message of passwordProblems(password)) {
+    ctx.addIssue({ code: "custom", message });
+  }
+});
+
+export const userSelect = {
+  id: true,
+  name: true,
+  email: true,
+  globalRole: true,
+  createdAt: true,
+} satisfies Prisma.UserSelect;
+
+// Admins also see the account fields they manage
+export const adminUserSelect = {
+  ...userSelect,
+  locale: true,
+  deactivatedAt: true,
+  totpEnabledAt: true,
+  lockedUntil: true,
+  departmentId: true,
+  superAdmin: true,
+  updatedAt: true,
+} satisfies Prisma.UserSelect;
@@ -4,18 +4,26 @@ export function cn(...inputs: ClassValue[]) {
   return clsx(inputs);
 }
 
-export function formatDate(date: Date | string) {
+// For date strings from requests, which would otherwise become an Invalid Date
+export function isValidDate(value: string) {
+  return !Number.isNaN(new Date(value).getTime());
+}
+
+// Without a timeZone these format in the local one: the browser's, or the server's for server-side output
+export function formatDate(date: Date | string, locale = "id-ID", timeZone?: string) {
   const d = new Date(date);
-  return d.toLocaleDateString("id-ID", {
+  return d.toLocaleDateString(locale, {
+    timeZone,
     year: "numeric",
     month: "long",
     day: "numeric",
   });
 }
 
-export function formatDateTime(date: Date | string) {
+export function formatDateTime(date: Date | string, locale = "id-ID", timeZone?: string) {
   const d = new Date(date);
-  return d.toLocaleString("id-ID", {
+  return d.toLocaleString(locale, {
+    timeZone,
     year: "numeric",
     month: "long",
     day: "numeric",
@@ -24,17 +32,18 @@ export function formatDateTime(date: Date | string) {
   });
 }
 
-export function formatTime(date: Date | string) {
+export function formatTime(date: Date | string, timeZone?: string) {
   const d = new Date(date);
   return d.toLocaleTimeString("id-ID", {
+    timeZone,
     hour: "2-digit",
     minute: "2-digit",
   });
 }
 
-export function formatDateRange(startTime: Date | string, endTime: Date | string) {
-  const start = formatTime(startTime);
-  const end = formatTime(endTime);
+export function formatDateRange(startTime: Date | string, endTime: Date | string, timeZone?: string) {
+  const start = formatTime(startTime, timeZone);
+  const end = formatTime(endTime, timeZone);
   return `${start} - ${end}`;
 }
 
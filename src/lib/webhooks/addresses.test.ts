@@ -0,0 +1,59 @@
+import { createServer, request } from "http";
+import { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { webhookAddressError, webhookLookup } from "./addresses";
+
+describe("webhookAddressError", () => {
+  afterEach(() => {
+    delete process.env.WEBHOOK_ALLOWED_HOSTS;
+  });
+
+  it("refuses internal addresses unless the host is allowed", async () => {
+    expect(await webhookAddressError("http://127.0.0.1/hook")).toMatch(/internal address/);
+    expect(await webhookAddressError("http://[::1]/hook")).toMatch(/internal address/);
+    expect(await webhookAddressError("http://169.254.169.254/latest")).toMatch(/internal address/);
+    expect(await webhookAddressError("http://203.0.113.7/hook")).toBeNull();
+
+    process.env.WEBHOOK_ALLOWED_HOSTS = "127.0.0.1";
+    expect(await webhookAddressError("http://127.0.0.1/hook")).toBeNull();
+  });
+});
+
+describe("webhookLookup", () => {
+  const server = createServer((_, response) => response.end("internal"));
+  let port: number;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  afterEach(() => {
+    delete process.env.WEBHOOK_ALLOWED_HOSTS;
+  });
+
+  function get(hostname: string) {
+    return new Promise<string>((resolve, reject) => {
+      request({ hostname, port, family: 4, lookup: webhookLookup }, (response) => {
+        let body = "";
+        response.on("data", (chunk) => (body += chunk));
+        response.on("end", () => resolve(body));
+      })
+        .on("error", reject)
+        .end();
+    });
+  }
+
+  it("refuses to connect when the host resolves to an internal address", async () => {
+    await expect(get("localhost")).rejects.toThrow(/internal address/);
+  });
+
+  it("connects to allowed hosts", async () => {
+    process.env.WEBHOOK_ALLOWED_HOSTS = "localhost";
+    expect(await get("localhost")).toBe("internal");
+  });
+});
@@ -0,0 +1,100 @@
+import { lookup as lookupCallback } from "dns";
+import { lookup } from "dns/promises";
+import { BlockList, isIP, LookupFunction } from "net";
+
+// Loopback, private, link-local (cloud metadata), carrier-grade NAT, multicast and reserved ranges. Tenant admins
+// choose webhook URLs, so none of these may be reached unless allowed by name.
+const internalAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  internalAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  internalAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+// WEBHOOK_ALLOWED_HOSTS="hooks.internal,localhost" lets these host names through even when they resolve to
+// internal addresses, e.g. for a receiver on the same network
+function allowedHosts() {
+  return (process.env.WEBHOOK_ALLOWED_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function isInternalAddress(address: string) {
+  // IPv4 written as IPv6, e.g. ::ffff:127.0.0.1
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return internalAddresses.check(mapped[1], "ipv4");
+  }
+  return internalAddresses.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+function internalAddressError(hostname: string, addresses: Array<{ address: string }>) {
+  if (allowedHosts().includes(hostname)) {
+    return null;
+  }
+  if (addresses.length === 0 || addresses.some(({ address }) => isInternalAddress(address))) {
+    return `${hostname} resolves to an internal address; add it to WEBHOOK_ALLOWED_HOSTS to allow it`;
+  }
+  return null;
+}
+
+// Why the URL may not receive webhooks, or null when every address its host resolves to is public.
+// Checked when a subscription is saved and again before every delivery, since DNS can change in between.
+export async function webhookAddressError(url: string) {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1");
+  } catch {
+    return "URL must be an http(s) address";
+  }
+  if (allowedHosts().includes(hostname)) {
+    return null;
+  }
+
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = isIP(hostname) ? [{ address: hostname }] : await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    return `Could not resolve ${hostname}`;
+  }
+  return internalAddressError(hostname, addresses);
+}
+
+// dns.lookup for the delivery connection itself. The host can resolve differently between webhookAddressError and
+// the connection (DNS rebinding), so the addresses actually connected to are checked here again.
+export const webhookLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true, verbatim: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+    const refused = internalAddressError(hostname.toLowerCase(), addresses);
+    if (refused) {
+      callback(new Error(refused), "");
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
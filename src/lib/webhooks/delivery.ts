@@ -0,0 +1,171 @@
+import { createHmac, randomBytes } from "crypto";
+import http from "http";
+import https from "https";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { webhookAddressError, webhookLookup } from "./addresses";
+
+// WEBHOOK_MAX_ATTEMPTS: sends tried before a delivery is marked failed (default 5)
+function maxAttempts() {
+  const attempts = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "");
+  return attempts > 0 ? attempts : 5;
+}
+
+// 1 min, 5 min, 25 min, ... between attempts
+function retryDelayMs(attempts: number) {
+  return 60_000 * 5 ** (attempts - 1);
+}
+
+function timeoutMs() {
+  return parseInt(process.env.WEBHOOK_TIMEOUT_MS || "10000");
+}
+
+export function generateWebhookSecret() {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+// Receivers recompute this over "<X-Webhook-Timestamp>.<raw body>" with their copy of the secret
+export function signWebhook(secret: string, timestamp: number, body: string) {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+// POSTs without following redirects. Connects only to addresses webhookLookup lets through, so a host that turned
+// internal after webhookAddressError fails here before anything is sent or read back.
+function post(url: string, headers: Record<string, string>, body: string) {
+  return new Promise<{ status: number; body: string }>((resolve, reject) => {
+    const target = new URL(url);
+    const request = (target.protocol === "https:" ? https : http).request(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        lookup: webhookLookup,
+        signal: AbortSignal.timeout(timeoutMs()),
+      },
+      (response) => {
+        let text = "";
+        response.setEncoding("utf8");
+        response.on("data", (chunk: string) => {
+          if (text.length < 2000) {
+            text += chunk;
+          }
+        });
+        response.on("end", () => resolve({ status: response.statusCode ?? 0, body: text.slice(0, 2000) }));
+        response.on("error", reject);
+      }
+    );
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+// One attempt of a pending delivery. Claims it first, so a second worker skips it;
+// failures are rescheduled with backoff instead of thrown.
+export async function attemptDelivery(deliveryId: string, now = new Date()) {
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { subscription: { select: { url: true, secret: true } } },
+  });
+  if (!delivery || delivery.status !== "pending") {
+    return false;
+  }
+
+  const attempts = delivery.attempts + 1;
+  const claimed = await prisma.webhookDelivery.updateMany({
+    where: { id: delivery.id, status: "pending", attempts: delivery.attempts },
+    data: { attempts, nextAttemptAt: new Date(now.getTime() + retryDelayMs(attempts)) },
+  });
+  if (claimed.count === 0) {
+    return false;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const failed = (lastError: string, responseStatus: number | null = null, responseBody: string | null = null) =>
+    prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: attempts >= maxAttempts() ? "failed" : "pending",
+        responseStatus,
+        responseBody,
+        lastError,
+      },
+    });
+
+  const addressError = await webhookAddressError(delivery.subscription.url);
+  if (addressError) {
+    await failed(addressError);
+    return false;
+  }
+
+  try {
+    const response = await post(
+      delivery.subscription.url,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "PDCA-TTFU-Webhooks/1.0",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": delivery.id,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": signWebhook(delivery.subscription.secret, timestamp, body),
+      },
+      body
+    );
+    const responseBody = response.body;
+
+    if (response.status < 200 || response.status >= 300) {
+      await failed(`Endpoint answered ${response.status}`, response.status, responseBody);
+      return false;
+    }
+
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: "delivered",
+        deliveredAt: new Date(),
+        responseStatus: response.status,
+        responseBody,
+        lastError: null,
+      },
+    });
+    return true;
+  } catch (error) {
+    await failed(error instanceof Error ? error.message : String(error));
+    return false;
+  }
+}
+
+// Deliveries of disabled subscriptions wait until the subscription is enabled again
+export async function deliverPendingWebhooks(limit = 20, now = new Date()) {
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: "pending", nextAttemptAt: { lte: now }, subscription: { active: true } },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+    select: { id: true },
+  });
+
+  let delivered = 0;
+  for (const delivery of due) {
+    if (await attemptDelivery(delivery.id, now)) {
+      delivered++;
+    }
+  }
+
+  return { attempted: due.length, delivered };
+}
+
+// Sends the same body again as a new delivery, so the log keeps every attempt
+export async function redeliverWebhook(deliveryId: string) {
+  const original = await prisma.webhookDelivery.findUniqueOrThrow({ where: { id: deliveryId } });
+  const redelivery = await prisma.webhookDelivery.create({
+    data: {
+      subscriptionId: original.subscriptionId,
+      event: original.event,
+      payload: original.payload as Prisma.InputJsonValue,
+      redeliveryOfId: original.id,
+    },
+  });
+
+  await attemptDelivery(redelivery.id);
+  return prisma.webhookDelivery.findUniqueOrThrow({ where: { id: redelivery.id } });
+}
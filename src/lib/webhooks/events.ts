@@ -0,0 +1,95 @@
+import { randomUUID } from "crypto";
+import { Prisma, TtfuStatus, WebhookEvent } from "@prisma/client";
+import { prisma } from "../prisma";
+import { meetingInclude, ttfuInclude } from "./payloads";
+
+type WebhookClient = Prisma.TransactionClient | typeof prisma;
+
+export const WEBHOOK_EVENTS = Object.values(WebhookEvent);
+
+// The meeting or TTFU an event is about; only subscriptions of its organization hear of it
+type WebhookSource = { meetingId: string } | { ttfuId: string };
+
+async function sourceOrganizationId(client: WebhookClient, source: WebhookSource) {
+  if ("meetingId" in source) {
+    const meeting = await client.meeting.findUniqueOrThrow({
+      where: { id: source.meetingId },
+      select: { organizationId: true },
+    });
+    return meeting.organizationId;
+  }
+  const ttfu = await client.tTFU.findUniqueOrThrow({
+    where: { id: source.ttfuId },
+    select: { meeting: { select: { organizationId: true } } },
+  });
+  return ttfu.meeting.organizationId;
+}
+
+// One delivery per interested subscription. Pass the request's transaction client and
+// the event only goes out if the change commits. The payload is only built when someone listens.
+async function queueWebhook(
+  client: WebhookClient,
+  event: WebhookEvent,
+  source: WebhookSource,
+  buildData: () => Promise<Record<string, unknown>>
+) {
+  const organizationId = await sourceOrganizationId(client, source);
+  const subscriptions = await client.webhookSubscription.findMany({
+    where: { active: true, events: { has: event }, organizationId },
+    select: { id: true },
+  });
+  if (subscriptions.length === 0) {
+    return;
+  }
+
+  // Serialized like NextResponse.json, so dates arrive as ISO strings just as from the API
+  const payload = JSON.parse(
+    JSON.stringify({ id: randomUUID(), event, createdAt: new Date(), data: await buildData() })
+  ) as Prisma.InputJsonObject;
+
+  await client.webhookDelivery.createMany({
+    data: subscriptions.map((subscription) => ({ subscriptionId: subscription.id, event, payload })),
+  });
+}
+
+function loadTTFU(client: WebhookClient, ttfuId: string) {
+  return client.tTFU.findUniqueOrThrow({ where: { id: ttfuId }, include: ttfuInclude });
+}
+
+export function emitMeetingCreated(client: WebhookClient, meetingId: string) {
+  return queueWebhook(client, "MEETING_CREATED", { meetingId }, async () => ({
+    meeting: await client.meeting.findUniqueOrThrow({ where: { id: meetingId }, include: meetingInclude }),
+  }));
+}
+
+export function emitTTFUCreated(client: WebhookClient, ttfuId: string) {
+  return queueWebhook(client, "TTFU_CREATED", { ttfuId }, async () => ({ ttfu: await loadTTFU(client, ttfuId) }));
+}
+
+export function emitTTFUUpdated(client: WebhookClient, ttfuId: string) {
+  return queueWebhook(client, "TTFU_UPDATED", { ttfuId }, async () => ({ ttfu: await loadTTFU(client, ttfuId) }));
+}
+
+export function emitTTFUStatusChanged(client: WebhookClient, ttfuId: string, from: TtfuStatus, to: TtfuStatus) {
+  return queueWebhook(client, "TTFU_STATUS_CHANGED", { ttfuId }, async () => ({
+    from,
+    to,
+    ttfu: await loadTTFU(client, ttfuId),
+  }));
+}
+
+// evidence and review are the objects their POST handlers return
+export function emitEvidenceSubmitted(client: WebhookClient, ttfuId: string, evidence: object) {
+  return queueWebhook(client, "EVIDENCE_SUBMITTED", { ttfuId }, async () => ({
+    evidence,
+    ttfu: await loadTTFU(client, ttfuId),
+  }));
+}
+
+export function emitReviewCreated(client: WebhookClient, ttfuId: string, evidenceId: string, review: object) {
+  return queueWebhook(client, "REVIEW_CREATED", { ttfuId }, async () => ({
+    evidenceId,
+    review,
+    ttfu: await loadTTFU(client, ttfuId),
+  }));
+}
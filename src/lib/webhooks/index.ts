@@ -0,0 +1,37 @@
+import { Prisma } from "@prisma/client";
+
+export {
+  WEBHOOK_EVENTS,
+  emitMeetingCreated,
+  emitTTFUCreated,
+  emitTTFUUpdated,
+  emitTTFUStatusChanged,
+  emitEvidenceSubmitted,
+  emitReviewCreated,
+} from "./events";
+export {
+  attemptDelivery,
+  deliverPendingWebhooks,
+  generateWebhookSecret,
+  redeliverWebhook,
+  signWebhook,
+} from "./delivery";
+export { webhookAddressError } from "./addresses";
+export { meetingInclude, ttfuInclude } from "./payloads";
+
+// Subscriptions as the admin API returns them; the secret is only shown when it is created or rotated
+export const webhookSelect = {
+  id: true,
+  url: true,
+  events: true,
+  description: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true,
+  createdBy: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.WebhookSubscriptionSelect;
@@ -0,0 +1,60 @@
+import { Prisma } from "@prisma/client";
+
+const userSelect = {
+  id: true,
+  name: true,
+  email: true,
+  globalRole: true,
+} satisfies Prisma.UserSelect;
+
+// What GET /api/ttfu returns per item; webhook payloads carry the same object
+export const ttfuInclude = {
+  meeting: {
+    select: {
+      id: true,
+      title: true,
+      date: true,
+    },
+  },
+  assignee: {
+    select: userSelect,
+  },
+  reviewer: {
+    select: userSelect,
+  },
+  evidences: {
+    include: {
+      reviews: {
+        include: {
+          reviewer: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.TTFUInclude;
+
+// What GET /api/meetings returns per item
+export const meetingInclude = {
+  createdBy: {
+    select: userSelect,
+  },
+  participants: {
+    include: {
+      user: {
+        select: userSelect,
+      },
+    },
+  },
+  ttfus: {
+    select: {
+      id: true,
+      status: true,
+      dueDate: true,
+    },
+  },
+} satisfies Prisma.MeetingInclude;
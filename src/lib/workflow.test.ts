@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { TtfuStatus } from "@prisma/client";
+import {
+  ACTIVE_STATUSES,
+  REVIEW_OUTCOMES,
+  STATUS_TRANSITIONS,
+  canTransition,
+  isAssigneeTransition,
+  isOverdue,
+} from "./workflow";
+
+const STATUSES = Object.keys(STATUS_TRANSITIONS) as TtfuStatus[];
+
+describe("STATUS_TRANSITIONS", () => {
+  it("covers every status and only leads to known statuses", () => {
+    expect([...STATUSES].sort()).toEqual(["DONE", "IN_PROGRESS", "OPEN", "REJECTED"]);
+    for (const targets of Object.values(STATUS_TRANSITIONS)) {
+      expect(targets.every((target) => STATUSES.includes(target))).toBe(true);
+    }
+  });
+
+  it("never lists a status as a move to itself", () => {
+    for (const [from, targets] of Object.entries(STATUS_TRANSITIONS)) {
+      expect(targets).not.toContain(from);
+    }
+  });
+});
+
+describe("canTransition", () => {
+  it("allows the listed moves and staying put", () => {
+    expect(canTransition("OPEN", "IN_PROGRESS")).toBe(true);
+    expect(canTransition("IN_PROGRESS", "DONE")).toBe(true);
+    expect(canTransition("DONE", "IN_PROGRESS")).toBe(true);
+    expect(canTransition("REJECTED", "OPEN")).toBe(true);
+    expect(canTransition("DONE", "DONE")).toBe(true);
+  });
+
+  it("refuses moves that are not listed", () => {
+    expect(canTransition("OPEN", "DONE")).toBe(false);
+    expect(canTransition("DONE", "OPEN")).toBe(false);
+    expect(canTransition("DONE", "REJECTED")).toBe(false);
+    expect(canTransition("REJECTED", "DONE")).toBe(false);
+  });
+});
+
+describe("isAssigneeTransition", () => {
+  it("only allows moves between the active statuses", () => {
+    expect(isAssigneeTransition("OPEN", "IN_PROGRESS")).toBe(true);
+    expect(isAssigneeTransition("IN_PROGRESS", "OPEN")).toBe(true);
+    expect(isAssigneeTransition("IN_PROGRESS", "DONE")).toBe(false);
+    expect(isAssigneeTransition("OPEN", "REJECTED")).toBe(false);
+    expect(isAssigneeTransition("DONE", "IN_PROGRESS")).toBe(false);
+    expect(isAssigneeTransition("REJECTED", "OPEN")).toBe(false);
+  });
+});
+
+describe("REVIEW_OUTCOMES", () => {
+  it("maps each review verdict to a status", () => {
+    expect(REVIEW_OUTCOMES).toEqual({
+      approved: "DONE",
+      rejected: "REJECTED",
+      needs_revision: "IN_PROGRESS",
+    });
+  });
+
+  it("only leads to statuses every active TTFU can reach", () => {
+    for (const outcome of Object.values(REVIEW_OUTCOMES)) {
+      expect(ACTIVE_STATUSES.some((from) => canTransition(from, outcome))).toBe(true);
+    }
+  });
+});
+
+describe("isOverdue", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+
+  it("is true for active TTFUs past their due date", () => {
+    expect(isOverdue({ status: "OPEN", dueDate: new Date("2026-10-18T00:00:00Z") }, now)).toBe(true);
+    expect(isOverdue({ status: "IN_PROGRESS", dueDate: "2026-10-18T00:00:00Z" }, now)).toBe(true);
+  });
+
+  it("is false without a due date, before it, or once closed", () => {
+    expect(isOverdue({ status: "OPEN", dueDate: null }, now)).toBe(false);
+    expect(isOverdue({ status: "OPEN", dueDate: new Date("2026-10-20T00:00:00Z") }, now)).toBe(false);
+    expect(isOverdue({ status: "DONE", dueDate: new Date("2026-10-18T00:00:00Z") }, now)).toBe(false);
+  });
+});
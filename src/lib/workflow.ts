@@ -0,0 +1,42 @@
+import type { ReviewStatus, TtfuStatus } from "@prisma/client";
+
+// Manual moves allowed from each status. Reviews and evidence submissions
+// drive the rest (see REVIEW_OUTCOMES and the evidence route).
+export const STATUS_TRANSITIONS: Record<TtfuStatus, TtfuStatus[]> = {
+  OPEN: ["IN_PROGRESS", "REJECTED"],
+  IN_PROGRESS: ["OPEN", "DONE", "REJECTED"],
+  DONE: ["IN_PROGRESS"],
+  REJECTED: ["OPEN", "IN_PROGRESS"],
+};
+
+// Statuses in which a TTFU still needs its assignee and reviewer
+export const ACTIVE_STATUSES: TtfuStatus[] = ["OPEN", "IN_PROGRESS"];
+
+// The only manual moves an assignee may make. Closing a TTFU as DONE or REJECTED, or reopening it, is up to
+// the reviewer and the meeting managers, so assignees cannot sign off their own work.
+export function isAssigneeTransition(from: TtfuStatus, to: TtfuStatus) {
+  return ACTIVE_STATUSES.includes(from) && ACTIVE_STATUSES.includes(to);
+}
+
+// TTFU status a review from the assigned reviewer moves the TTFU to
+export const REVIEW_OUTCOMES: Record<ReviewStatus, TtfuStatus> = {
+  approved: "DONE",
+  rejected: "REJECTED",
+  needs_revision: "IN_PROGRESS",
+};
+
+export function canTransition(from: TtfuStatus, to: TtfuStatus) {
+  return from === to || STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Past its due date and still being worked on; takes API strings as well as Dates
+export function isOverdue(
+  ttfu: { status: string; dueDate?: Date | string | null },
+  now = new Date()
+) {
+  return (
+    !!ttfu.dueDate &&
+    new Date(ttfu.dueDate) < now &&
+    ACTIVE_STATUSES.includes(ttfu.status as TtfuStatus)
+  );
+}
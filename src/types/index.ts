@@ -1,10 +1,12 @@
-import { GlobalRole, MeetingRole, TtfuStatus, EvidenceType, ReviewStatus } from "@prisma/client";
+import { GlobalRole, MeetingRole, TtfuStatus, EvidenceType, ReviewStatus, JoinRequestStatus, NotificationType, WebhookEvent, WebhookDeliveryStatus } from "@prisma/client";
 
 export interface User {
   id: string;
   name: string;
   email: string;
   globalRole: GlobalRole;
+  locale: string;
+  deactivatedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -32,6 +34,34 @@ export interface MeetingParticipant {
   createdAt: Date;
 }
 
+export interface MeetingInvite {
+  id: string;
+  meetingId: string;
+  code: string;
+  role: MeetingRole;
+  requiresApproval: boolean;
+  expiresAt?: Date;
+  maxUses?: number;
+  uses: number;
+  revokedAt?: Date;
+  createdById: string;
+  createdBy?: User;
+  createdAt: Date;
+}
+
+export interface JoinRequest {
+  id: string;
+  meetingId: string;
+  userId: string;
+  inviteId?: string;
+  role: MeetingRole;
+  status: JoinRequestStatus;
+  decidedById?: string;
+  decidedAt?: Date;
+  user: User;
+  createdAt: Date;
+}
+
 export interface TTFU {
   id: string;
   meetingId: string;
@@ -74,17 +104,65 @@ export interface Review {
   createdAt: Date;
 }
 
+export interface AuditMetadata {
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
 export interface AuditLog {
   id: string;
   userId?: string;
   action: string;
   entity: string;
   entityId: string;
-  metadata?: Record<string, unknown>;
+  meetingId?: string;
+  ttfuId?: string;
+  metadata?: AuditMetadata;
   createdAt: Date;
   user?: User;
 }
 
+export interface Notification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body?: string;
+  link: string;
+  ttfuId?: string;
+  readAt?: Date;
+  createdAt: Date;
+}
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+  active: boolean;
+  createdById: string;
+  createdBy?: User;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  event: WebhookEvent;
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  responseStatus?: number;
+  responseBody?: string;
+  lastError?: string;
+  deliveredAt?: Date;
+  redeliveryOfId?: string;
+  createdAt: Date;
+}
+
 // Form types
 export interface CreateMeetingForm {
   title: string;
@@ -1,3 +1,7 @@
+// Imported so the declarations below extend next-auth's types instead of replacing them
+import "next-auth";
+import "next-auth/jwt";
+
 declare module "next-auth" {
   interface Session {
     user: {
@@ -6,7 +10,11 @@ declare module "next-auth" {
       email?: string | null;
       image?: string | null;
       globalRole: string;
+      organizationId: string;
+      superAdmin?: boolean;
     };
+    // The UserSession behind a browser sign-in
+    sessionId?: string;
   }
 
   interface User {
@@ -20,5 +28,8 @@ declare module "next-auth" {
 declare module "next-auth/jwt" {
   interface JWT {
     globalRole: string;
+    organizationId: string;
+    superAdmin?: boolean;
+    sid?: string;
   }
 }